@@ -0,0 +1,44 @@
+import type { BranchEntry } from './gitParser';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export type CleanupReason = 'merged' | 'gone' | 'stale';
+
+export interface CleanupCandidate {
+    branch: BranchEntry;
+    reasons: CleanupReason[];
+}
+
+export interface CleanupOptions {
+    base: string;
+    // Local branches fully merged into the base
+    merged: Set<string>;
+    // Local branches checked out here or in another worktree
+    checkedOut: Set<string>;
+    staleDays: number;
+    // Seconds since the epoch
+    now: number;
+}
+
+// Local branches worth deleting: merged into the base, tracking an upstream that is gone, or without commits
+// for staleDays. The base and checked-out branches are never offered.
+export function findCleanupCandidates(branches: BranchEntry[], options: CleanupOptions): CleanupCandidate[] {
+    const staleBefore = options.now - options.staleDays * SECONDS_PER_DAY;
+    return branches
+        .filter((branch) => !branch.isRemote && branch.fullName !== options.base)
+        .filter((branch) => !branch.isHead && !options.checkedOut.has(branch.fullName))
+        .map((branch) => {
+            const reasons: CleanupReason[] = [];
+            if (options.merged.has(branch.fullName)) {
+                reasons.push('merged');
+            }
+            if (branch.upstreamGone) {
+                reasons.push('gone');
+            }
+            if (branch.lastCommit.timestamp < staleBefore) {
+                reasons.push('stale');
+            }
+            return { branch, reasons };
+        })
+        .filter((candidate) => candidate.reasons.length > 0);
+}
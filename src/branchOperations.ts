@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import { BRANCH_LIST_FORMAT, parseBranchList, type BranchEntry } from './gitParser';
+import { GitError, getErrorMessage, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+import type { RepositoryManager } from './repositoryManager';
+import { getWorktrees } from './worktreeOperations';
+import { findCleanupCandidates, type CleanupReason } from './branchCleanup';
+import { runGitWithProgress } from './gitProgress';
+
+const DEFAULT_STALE_DAYS = 90;
+
+// Deletes local branches with `git branch -d`, offering to force delete the ones git reports as not fully
+// merged. Returns the names of the branches that were deleted.
+export async function deleteLocalBranches(cwd: string, branchNames: string[]): Promise<string[]> {
+    const tryDelete = async (
+        name: string,
+        force: boolean,
+    ): Promise<{ name: string; notMerged: boolean; error?: string }> => {
+        try {
+            await runGit(cwd, ['branch', force ? '-D' : '-d', name]);
+            return { name, notMerged: false };
+        } catch (error) {
+            if (!force && error instanceof GitError && error.stderr.includes('not fully merged')) {
+                return { name, notMerged: true };
+            }
+            return { name, notMerged: false, error: getErrorMessage(error) };
+        }
+    };
+
+    // One at a time: parallel deletes race for the config lock when they remove tracking settings
+    const deleteAll = async (names: string[], force: boolean) => {
+        const results = [];
+        for (const name of names) {
+            results.push(await tryDelete(name, force));
+        }
+        return results;
+    };
+
+    const results = await deleteAll(branchNames, false);
+    const notMerged = results.filter((r) => r.notMerged).map((r) => r.name);
+    const failed = results.filter((r) => !r.notMerged && r.error);
+    const deleted = results.filter((r) => !r.notMerged && !r.error).map((r) => r.name);
+
+    if (failed.length > 0) {
+        showGitError(`Failed to delete: ${failed.map((r) => r.name).join(', ')}`);
+    }
+
+    if (notMerged.length > 0) {
+        const notMergedLabel =
+            notMerged.length === 1 ? `Branch '${notMerged[0]}' is` : `${notMerged.length} branches are`;
+        const forceConfirm = await vscode.window.showWarningMessage(
+            `${notMergedLabel} not fully merged. Force delete?`,
+            { modal: true, detail: notMerged.join(', ') },
+            'Force Delete',
+        );
+        if (forceConfirm === 'Force Delete') {
+            const forceResults = await deleteAll(notMerged, true);
+            const forceFailed = forceResults.filter((r) => r.error);
+            if (forceFailed.length > 0) {
+                showGitError(`Failed to force delete: ${forceFailed.map((r) => r.name).join(', ')}`);
+            }
+            deleted.push(...forceResults.filter((r) => !r.error).map((r) => r.name));
+        }
+    }
+
+    if (deleted.length > 0) {
+        vscode.window.showInformationMessage(`Deleted ${deleted.length} branch${deleted.length > 1 ? 'es' : ''}`);
+    }
+    return deleted;
+}
+
+export class BranchOperations {
+    constructor(
+        private readonly onRefresh: () => void,
+        private readonly repositories: RepositoryManager,
+    ) {}
+
+    private getCwd(): string | null {
+        return this.repositories.selected;
+    }
+
+    async cleanUpBranches() {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        let branches: BranchEntry[];
+        try {
+            const { stdout } = await runGit(cwd, ['for-each-ref', `--format=${BRANCH_LIST_FORMAT}`, 'refs/heads']);
+            branches = parseBranchList(stdout);
+        } catch (error) {
+            showGitError(`Failed to list branches: ${getErrorMessage(error)}`);
+            return;
+        }
+
+        // The usual integration branches first, then the current one
+        const names = branches.map((branch) => branch.fullName);
+        const current = branches.find((branch) => branch.isHead)?.fullName;
+        const baseOrder = [...['main', 'master'].filter((name) => names.includes(name)), ...(current ? [current] : [])];
+        const base = await vscode.window.showQuickPick(
+            [...new Set([...baseOrder, ...names])].map((name) => ({ label: name })),
+            { title: 'Clean Up Branches', placeHolder: 'Find branches merged into which branch?' },
+        );
+        if (!base) {
+            return;
+        }
+
+        const days = await vscode.window.showInputBox({
+            title: 'Clean Up Branches',
+            prompt: 'Also offer branches without commits for this many days',
+            value: String(DEFAULT_STALE_DAYS),
+            validateInput: (value) => (/^[1-9]\d*$/.test(value.trim()) ? null : 'Enter a number of days'),
+        });
+        if (!days) {
+            return;
+        }
+
+        let merged: string[];
+        try {
+            const { stdout } = await runGit(cwd, [
+                'for-each-ref',
+                `--merged=${base.label}`,
+                '--format=%(refname:short)',
+                'refs/heads',
+            ]);
+            merged = stdout.split('\n').filter(Boolean);
+        } catch (error) {
+            showGitError(`Failed to find merged branches: ${getErrorMessage(error)}`);
+            return;
+        }
+        const worktrees = await getWorktrees(cwd);
+        const candidates = findCleanupCandidates(branches, {
+            base: base.label,
+            merged: new Set(merged),
+            checkedOut: new Set(worktrees.map((worktree) => worktree.branch).filter((b): b is string => !!b)),
+            staleDays: Number(days),
+            now: Date.now() / 1000,
+        });
+        if (candidates.length === 0) {
+            vscode.window.showInformationMessage(
+                `No branches are merged into '${base.label}', have a gone upstream or are older than ${days} days`,
+            );
+            return;
+        }
+
+        const describe = (reason: CleanupReason) =>
+            reason === 'merged'
+                ? `merged into ${base.label}`
+                : reason === 'gone'
+                  ? 'upstream gone'
+                  : `no commits for ${days}+ days`;
+        const picked = await vscode.window.showQuickPick(
+            candidates.map(({ branch, reasons }) => ({
+                label: branch.fullName,
+                description: reasons.map(describe).join(' · '),
+                detail: `${branch.lastCommit.hash} ${branch.lastCommit.subject} — ${branch.lastCommit.author}, ${branch.lastCommit.date}`,
+                // Merged and gone branches are the usual leftovers; being old alone is only a hint
+                picked: reasons.includes('merged') || reasons.includes('gone'),
+                branch,
+            })),
+            {
+                title: 'Clean Up Branches',
+                placeHolder: 'Select the branches to delete',
+                canPickMany: true,
+                matchOnDescription: true,
+                matchOnDetail: true,
+            },
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+
+        const remoteBranches = await this.getRemoteBranches(
+            cwd,
+            picked.filter((item) => item.branch.upstream && !item.branch.upstreamGone).map((item) => item.label),
+        );
+        let deleteRemote = false;
+        if (remoteBranches.size > 0) {
+            const choice = await vscode.window.showWarningMessage(
+                `Also delete the remote branch${remoteBranches.size > 1 ? 'es' : ''} of ${remoteBranches.size === 1 ? `'${[...remoteBranches.keys()][0]}'` : `${remoteBranches.size} of them`}?`,
+                {
+                    modal: true,
+                    detail: [...remoteBranches.values()].map(({ remote, branch }) => `${remote}/${branch}`).join(', '),
+                },
+                'Local and Remote',
+                'Local Only',
+            );
+            if (!choice) {
+                return;
+            }
+            deleteRemote = choice === 'Local and Remote';
+        }
+
+        const deleted = await deleteLocalBranches(
+            cwd,
+            picked.map((item) => item.label),
+        );
+        if (deleteRemote) {
+            await this.deleteRemoteBranches(
+                cwd,
+                deleted.flatMap((name) => remoteBranches.get(name) ?? []),
+            );
+        }
+        this.onRefresh();
+    }
+
+    // Where each local branch's upstream lives; read before deleting, since deleting removes the tracking config
+    private async getRemoteBranches(
+        cwd: string,
+        branchNames: string[],
+    ): Promise<Map<string, { remote: string; branch: string }>> {
+        const result = new Map<string, { remote: string; branch: string }>();
+        if (branchNames.length === 0) {
+            return result;
+        }
+        try {
+            const { stdout } = await runGit(cwd, [
+                'for-each-ref',
+                '--format=%(refname:short)|%(upstream:remotename)|%(upstream:remoteref)',
+                ...branchNames.map((name) => `refs/heads/${name}`),
+            ]);
+            for (const line of stdout.split('\n').filter(Boolean)) {
+                const [name, remote, remoteRef] = line.split('|');
+                // A branch tracking another local branch has "." as its remote
+                if (remote && remote !== '.' && remoteRef.startsWith('refs/heads/')) {
+                    result.set(name, { remote, branch: remoteRef.slice('refs/heads/'.length) });
+                }
+            }
+        } catch {}
+        return result;
+    }
+
+    private async deleteRemoteBranches(cwd: string, branches: { remote: string; branch: string }[]) {
+        const byRemote = new Map<string, string[]>();
+        for (const { remote, branch } of branches) {
+            byRemote.set(remote, [...(byRemote.get(remote) ?? []), branch]);
+        }
+
+        let deletedCount = 0;
+        for (const [remote, remoteBranches] of byRemote) {
+            try {
+                const result = await runGitWithProgress(
+                    cwd,
+                    ['push', '--progress', remote, '--delete', ...remoteBranches],
+                    `Deleting branches on ${remote}…`,
+                );
+                if (!result) {
+                    break;
+                }
+                deletedCount += remoteBranches.length;
+            } catch (error) {
+                showGitError(`Failed to delete branches on ${remote}: ${getErrorMessage(error)}`);
+            }
+        }
+        if (deletedCount > 0) {
+            vscode.window.showInformationMessage(
+                `Deleted ${deletedCount} remote branch${deletedCount > 1 ? 'es' : ''}`,
+            );
+        }
+    }
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
+import { BRANCH_LIST_FORMAT, parseBranchList } from './gitParser';
+import { runGit } from './gitRunner';
+import type { RepositoryManager } from './repositoryManager';
 
 interface Branch {
     name: string;
@@ -25,17 +27,10 @@ export class BranchTreeProvider implements vscode.TreeDataProvider<BranchTreeIte
         return this._filter;
     }
 
-    constructor() {
+    constructor(private readonly repositories: RepositoryManager) {
         // Watch for git changes
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders) {
-            const watcher = vscode.workspace.createFileSystemWatcher(
-                new vscode.RelativePattern(workspaceFolders[0], '.git/**'),
-            );
-            watcher.onDidChange(() => this.refresh());
-            watcher.onDidCreate(() => this.refresh());
-            watcher.onDidDelete(() => this.refresh());
-        }
+        repositories.onDidChangeRepository(() => this.refresh());
+        repositories.onDidChangeSelection(() => this.refresh());
     }
 
     refresh(): void {
@@ -93,64 +88,46 @@ export class BranchTreeProvider implements vscode.TreeDataProvider<BranchTreeIte
     }
 
     private async getCurrentBranch(): Promise<string | null> {
-        return new Promise((resolve) => {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
-                resolve(null);
-                return;
-            }
+        const cwd = this.repositories.selected;
+        if (!cwd) {
+            return null;
+        }
 
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.exec('git rev-parse --abbrev-ref HEAD', { cwd }, (error, stdout, _stderr) => {
-                if (error) {
-                    resolve(null);
-                    return;
-                }
-                resolve(stdout.trim());
-            });
-        });
+        try {
+            const { stdout } = await runGit(cwd, ['rev-parse', '--abbrev-ref', 'HEAD']);
+            return stdout.trim();
+        } catch {
+            return null;
+        }
     }
 
     private async getBranches(): Promise<Branch[]> {
-        return new Promise((resolve) => {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
-                resolve([]);
-                return;
-            }
+        const cwd = this.repositories.selected;
+        if (!cwd) {
+            return [];
+        }
+
+        let stdout: string;
+        try {
+            ({ stdout } = await runGit(cwd, [
+                'for-each-ref',
+                `--format=${BRANCH_LIST_FORMAT}`,
+                'refs/heads',
+                'refs/remotes',
+            ]));
+        } catch {
+            return [];
+        }
+
+        // Remote HEAD pointers are left out by the parser
+        const branches: Branch[] = parseBranchList(stdout).map((entry) => ({
+            name: entry.isRemote ? entry.fullName.slice(entry.fullName.indexOf('/') + 1) : entry.fullName,
+            fullName: entry.fullName,
+            isRemote: entry.isRemote,
+            isHead: entry.isHead,
+        }));
 
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.exec('git branch -a --format="%(refname:short)|%(HEAD)"', { cwd }, (error, stdout, _stderr) => {
-                if (error) {
-                    resolve([]);
-                    return;
-                }
-
-                const branches: Branch[] = stdout
-                    .split('\n')
-                    .filter((line) => line.trim())
-                    .map((line) => {
-                        const [fullName, head] = line.split('|');
-                        const isRemote = fullName.startsWith('origin/') || fullName.startsWith('upstream/');
-                        const name = isRemote ? fullName.replace(/^(origin|upstream)\//, '') : fullName;
-
-                        // Filter out remote HEAD pointers
-                        if (fullName.includes('origin/HEAD') || fullName.includes('upstream/HEAD')) {
-                            return null;
-                        }
-
-                        return {
-                            name,
-                            fullName,
-                            isRemote,
-                            isHead: head === '*',
-                        };
-                    })
-                    .filter((branch): branch is Branch => branch !== null);
-
-                resolve(branches);
-            });
-        });
+        return branches;
     }
 }
 
@@ -1,10 +1,32 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
+import { getSequencerSession, type SequencerSession } from './sequencerSession';
+import {
+    BRANCH_LIST_FORMAT,
+    parseBranchList,
+    parseStashList,
+    parseTagList,
+    TAG_LIST_FORMAT,
+    type RemoteEntry,
+    type StashEntry,
+    type TagEntry,
+} from './gitParser';
+import { REPOSITORY_SELECTOR_STYLES, SESSION_BANNER_STYLES } from './webviewContent';
+import { runGit } from './gitRunner';
+import type { RepositoryManager, RepositorySelection } from './repositoryManager';
+import { getWorktrees, isSamePath } from './worktreeOperations';
+import { getSubmodules, type Submodule } from './submoduleOperations';
+import { getRemotes } from './remoteOperations';
 
 interface WebviewMessage {
     command: string;
     branchName: string;
     branchNames?: string[];
+    stashRef?: string;
+    tagName?: string;
+    repository?: string;
+    worktreePath?: string;
+    submodulePath?: string;
+    remoteName?: string;
 }
 
 interface Branch {
@@ -12,6 +34,23 @@ interface Branch {
     fullName: string;
     isRemote: boolean;
     isHead: boolean;
+    // Set on local branches checked out in another worktree
+    worktreePath?: string;
+    upstream: string | null;
+    ahead: number;
+    behind: number;
+    upstreamGone: boolean;
+    lastCommit: { hash: string; date: string; timestamp: number; author: string; subject: string };
+}
+
+interface Worktree {
+    path: string;
+    branch: string | null;
+    head: string;
+    isMain: boolean;
+    isCurrent: boolean;
+    locked: boolean;
+    prunable: boolean;
 }
 
 function getNonce(): string {
@@ -26,24 +65,25 @@ function getNonce(): string {
 export class BranchWebviewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'gitLeanBranchView';
     private _view?: vscode.WebviewView;
-    private _onBranchSelected: ((branch: string | null) => void) | null = null;
+    private _onBranchesSelected: ((branches: string[]) => void) | null = null;
     private _refreshTimer?: ReturnType<typeof setTimeout>;
     private _initialized = false;
 
-    constructor(private readonly _extensionUri: vscode.Uri) {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (workspaceFolders) {
-            const watcher = vscode.workspace.createFileSystemWatcher(
-                new vscode.RelativePattern(workspaceFolders[0], '.git/**'),
-            );
-            watcher.onDidChange(() => this.debouncedRefresh());
-            watcher.onDidCreate(() => this.debouncedRefresh());
-            watcher.onDidDelete(() => this.debouncedRefresh());
-        }
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _repositories: RepositoryManager,
+    ) {
+        _repositories.onDidChangeRepository((root) => {
+            if (root === _repositories.selected) {
+                this.debouncedRefresh();
+            }
+        });
+        _repositories.onDidChangeSelection(() => this.refresh());
     }
 
-    set onBranchSelected(handler: (branch: string | null) => void) {
-        this._onBranchSelected = handler;
+    // Called with the branches (and tags) picked for the graph, none to go back to HEAD
+    set onBranchesSelected(handler: (branches: string[]) => void) {
+        this._onBranchesSelected = handler;
     }
 
     public resolveWebviewView(
@@ -77,8 +117,23 @@ export class BranchWebviewProvider implements vscode.WebviewViewProvider {
         if (!this._initialized || !this._view) {
             return;
         }
-        const branches = await this.getBranches();
-        this._view.webview.postMessage({ command: 'replaceBranches', branches });
+        const worktrees = await this.getWorktrees();
+        const branches = await this.getBranches(worktrees);
+        const tags = await this.getTags();
+        const stashes = await this.getStashes();
+        const submodules = await this.getSubmodules();
+        const remotes = await this.getRemotes();
+        const session = await this.getSession();
+        this._view.webview.postMessage({
+            command: 'replaceBranches',
+            branches,
+            tags,
+            stashes,
+            worktrees,
+            submodules,
+            remotes,
+            session,
+        });
     }
 
     private async updateWebview(): Promise<void> {
@@ -86,24 +141,79 @@ export class BranchWebviewProvider implements vscode.WebviewViewProvider {
             return;
         }
         this._initialized = false;
-        const branches = await this.getBranches();
-        this._view.webview.html = this.getHtml(this._view.webview, branches);
+        const worktrees = await this.getWorktrees();
+        const branches = await this.getBranches(worktrees);
+        const tags = await this.getTags();
+        const stashes = await this.getStashes();
+        const submodules = await this.getSubmodules();
+        const remotes = await this.getRemotes();
+        const session = await this.getSession();
+        this._view.webview.html = this.getHtml(
+            this._view.webview,
+            branches,
+            tags,
+            stashes,
+            worktrees,
+            submodules,
+            remotes,
+            session,
+            this._repositories.getSelection(),
+        );
         this._initialized = true;
     }
 
     private handleMessage(message: WebviewMessage) {
-        if (message.command === 'selectBranch') {
-            this._onBranchSelected?.(message.branchName);
+        if (message.command === 'selectBranches') {
+            this._onBranchesSelected?.(message.branchNames!);
+            return;
+        }
+        if (message.command === 'selectRepository') {
+            this._repositories.select(message.repository!);
+            return;
+        }
+        if (message.command === 'compareBranches') {
+            const [left, right] = message.branchNames!;
+            vscode.commands.executeCommand('git-lean.compare', left, right);
             return;
         }
         if (message.command === 'deleteMultipleBranches') {
             vscode.commands.executeCommand('git-lean.deleteMultipleBranches', message.branchNames);
             return;
         }
+        if (message.tagName) {
+            vscode.commands.executeCommand(`git-lean.${message.command}`, message.tagName);
+            return;
+        }
+        if (message.worktreePath) {
+            vscode.commands.executeCommand(`git-lean.${message.command}`, message.worktreePath);
+            return;
+        }
+        if (message.submodulePath) {
+            vscode.commands.executeCommand(`git-lean.${message.command}`, message.submodulePath);
+            return;
+        }
+        if (message.remoteName) {
+            vscode.commands.executeCommand(`git-lean.${message.command}`, message.remoteName);
+            return;
+        }
+        if (message.stashRef) {
+            vscode.commands.executeCommand(`git-lean.${message.command}`, message.stashRef);
+            return;
+        }
         vscode.commands.executeCommand(`git-lean.${message.command}`, { branchName: message.branchName });
     }
 
-    private getHtml(webview: vscode.Webview, branches: Branch[]): string {
+    private getHtml(
+        webview: vscode.Webview,
+        branches: Branch[],
+        tags: TagEntry[],
+        stashes: StashEntry[],
+        worktrees: Worktree[],
+        submodules: Submodule[],
+        remotes: RemoteEntry[],
+        session: SequencerSession | null,
+        repositories: RepositorySelection,
+    ): string {
         const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._extensionUri, 'out', 'webview', 'index.js'));
         const nonce = getNonce();
 
@@ -220,6 +330,21 @@ body {
 .icon-tag { flex-shrink: 0; }
 .icon-folder { flex-shrink: 0; opacity: 0.65; }
 .icon-branch { flex-shrink: 0; opacity: 0.6; }
+.row-detail {
+    flex-shrink: 0;
+    font-size: 11px;
+    color: var(--vscode-descriptionForeground);
+    opacity: 0.8;
+}
+.tracking {
+    flex-shrink: 0;
+    display: flex;
+    gap: 4px;
+    font-size: 11px;
+    font-variant-numeric: tabular-nums;
+    color: var(--vscode-descriptionForeground);
+}
+.tracking-gone { color: var(--vscode-gitDecoration-deletedResourceForeground); }
 .branch-row.selected svg { opacity: 1; }
 .empty { padding: 10px 12px; opacity: 0.5; font-style: italic; font-size: 12px; }
 .ctx-menu {
@@ -253,47 +378,109 @@ body {
     outline: 1px solid var(--vscode-focusBorder);
     outline-offset: -1px;
 }
+${SESSION_BANNER_STYLES}
+${REPOSITORY_SELECTOR_STYLES}
 </style>
 </head>
 <body>
 <div id="root"></div>
-<script nonce="${nonce}">window.__VIEW__ = 'branches'; window.__BRANCHES__ = ${JSON.stringify(branches)};</script>
+<script nonce="${nonce}">window.__VIEW__ = 'branches'; window.__BRANCHES__ = ${JSON.stringify(branches)}; window.__TAGS__ = ${JSON.stringify(tags)}; window.__STASHES__ = ${JSON.stringify(stashes)}; window.__WORKTREES__ = ${JSON.stringify(worktrees)}; window.__SUBMODULES__ = ${JSON.stringify(submodules)}; window.__REMOTES__ = ${JSON.stringify(remotes)}; window.__SESSION__ = ${JSON.stringify(session)}; window.__REPOSITORIES__ = ${JSON.stringify(repositories)};</script>
 <script nonce="${nonce}" src="${scriptUri}"></script>
 </body>
 </html>`;
     }
 
-    private getCwd(): string | undefined {
-        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    private getCwd(): string | null {
+        return this._repositories.selected;
     }
 
-    private async getBranches(): Promise<Branch[]> {
-        return new Promise((resolve) => {
-            const cwd = this.getCwd();
-            if (!cwd) {
-                resolve([]);
-                return;
-            }
-            cp.exec('git branch -a --format="%(refname:short)|%(HEAD)"', { cwd }, (err, stdout) => {
-                if (err) {
-                    resolve([]);
-                    return;
-                }
-                const branches: Branch[] = stdout
-                    .split('\n')
-                    .filter((line) => line.trim())
-                    .map((line) => {
-                        const [fullName, head] = line.split('|');
-                        if (fullName.includes('origin/HEAD') || fullName.includes('upstream/HEAD')) {
-                            return null;
-                        }
-                        const isRemote = fullName.startsWith('origin/') || fullName.startsWith('upstream/');
-                        const name = isRemote ? fullName.replace(/^(origin|upstream)\//, '') : fullName;
-                        return { name, fullName, isRemote, isHead: head === '*' };
-                    })
-                    .filter((b): b is Branch => b !== null);
-                resolve(branches);
-            });
+    private async getTags(): Promise<TagEntry[]> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return [];
+        }
+        try {
+            const { stdout } = await runGit(cwd, [
+                'for-each-ref',
+                'refs/tags',
+                '--sort=-creatordate',
+                `--format=${TAG_LIST_FORMAT}`,
+            ]);
+            return parseTagList(stdout);
+        } catch {
+            return [];
+        }
+    }
+
+    private async getStashes(): Promise<StashEntry[]> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return [];
+        }
+        try {
+            const { stdout } = await runGit(cwd, ['stash', 'list', '--format=%gd|%ci|%gs']);
+            return parseStashList(stdout);
+        } catch {
+            return [];
+        }
+    }
+
+    private async getWorktrees(): Promise<Worktree[]> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return [];
+        }
+        // The first entry is always the main worktree
+        return (await getWorktrees(cwd)).map((worktree, index) => ({
+            path: worktree.path,
+            branch: worktree.branch,
+            head: worktree.head.substring(0, 7),
+            isMain: index === 0,
+            isCurrent: isSamePath(worktree.path, cwd),
+            locked: worktree.locked,
+            prunable: worktree.prunable,
+        }));
+    }
+
+    private async getSubmodules(): Promise<Submodule[]> {
+        const cwd = this.getCwd();
+        return cwd ? getSubmodules(cwd) : [];
+    }
+
+    private async getRemotes(): Promise<RemoteEntry[]> {
+        const cwd = this.getCwd();
+        return cwd ? getRemotes(cwd) : [];
+    }
+
+    private async getSession(): Promise<SequencerSession | null> {
+        const cwd = this.getCwd();
+        return cwd ? getSequencerSession(cwd) : null;
+    }
+
+    private async getBranches(worktrees: Worktree[]): Promise<Branch[]> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return [];
+        }
+        let stdout: string;
+        try {
+            ({ stdout } = await runGit(cwd, [
+                'for-each-ref',
+                `--format=${BRANCH_LIST_FORMAT}`,
+                'refs/heads',
+                'refs/remotes',
+            ]));
+        } catch {
+            return [];
+        }
+        const branches: Branch[] = parseBranchList(stdout).map((entry) => {
+            // Remote branches are listed under their remote, so the name leaves it out
+            const name = entry.isRemote ? entry.fullName.slice(entry.fullName.indexOf('/') + 1) : entry.fullName;
+            const worktree = entry.isRemote
+                ? undefined
+                : worktrees.find((w) => !w.isCurrent && w.branch === entry.fullName);
+            return { ...entry, name, worktreePath: worktree?.path };
         });
+        return branches;
     }
 }
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { buildHunkPatch, parseFilePatches, type DiffHunk } from './diffHunks';
+import { getCommitComposerHtml } from './webviewContent';
+import { getErrorMessage, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+import { getHeadState, type OperationJournal } from './operationJournal';
+
+export interface ComposerFile {
+    path: string;
+    hunks: DiffHunk[];
+    binary: boolean;
+    untracked: boolean;
+}
+
+export interface CommitComposerData {
+    staged: ComposerFile[];
+    unstaged: ComposerFile[];
+    // Full message of HEAD, used to prefill the form when amending; null on an unborn branch
+    headMessage: string | null;
+}
+
+interface CommitComposerMessage {
+    command:
+        | 'refresh'
+        | 'stageFile'
+        | 'unstageFile'
+        | 'stageHunk'
+        | 'unstageHunk'
+        | 'stageAll'
+        | 'unstageAll'
+        | 'openFile'
+        | 'commit';
+    path?: string;
+    hunkIndex?: number;
+    subject?: string;
+    body?: string;
+    amend?: boolean;
+    signoff?: boolean;
+}
+
+async function execGit(
+    cwd: string,
+    args: string[],
+    input?: string,
+): Promise<{ ok: boolean; stdout: string; stderr: string }> {
+    try {
+        const { stdout, stderr } = await runGit(cwd, ['-c', 'core.quotePath=false', ...args], { input });
+        return { ok: true, stdout, stderr };
+    } catch (error) {
+        return { ok: false, stdout: '', stderr: getErrorMessage(error) };
+    }
+}
+
+export class CommitComposerPanel {
+    private static currentPanel: CommitComposerPanel | undefined;
+    private _htmlSet = false;
+
+    public static createOrShow(extensionUri: vscode.Uri, cwd: string, journal: OperationJournal) {
+        if (CommitComposerPanel.currentPanel?._cwd === cwd) {
+            CommitComposerPanel.currentPanel._panel.reveal();
+            CommitComposerPanel.currentPanel.update();
+            return;
+        }
+        // Opened for another repository: replace it rather than showing two repositories' state at once
+        CommitComposerPanel.currentPanel?._panel.dispose();
+
+        const panel = vscode.window.createWebviewPanel('gitLeanCommitComposer', 'Commit', vscode.ViewColumn.One, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [extensionUri],
+        });
+        CommitComposerPanel.currentPanel = new CommitComposerPanel(panel, extensionUri, cwd, journal);
+    }
+
+    private constructor(
+        private readonly _panel: vscode.WebviewPanel,
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _cwd: string,
+        private readonly _journal: OperationJournal,
+    ) {
+        _panel.onDidDispose(() => {
+            CommitComposerPanel.currentPanel = undefined;
+        });
+        _panel.webview.onDidReceiveMessage((message: CommitComposerMessage) => this.handleMessage(message));
+        this.update();
+    }
+
+    private async handleMessage(message: CommitComposerMessage) {
+        switch (message.command) {
+            case 'refresh':
+                await this.update();
+                break;
+            case 'stageFile':
+                await this.runAndUpdate(['add', '--', message.path!], `Failed to stage ${message.path}`);
+                break;
+            case 'unstageFile':
+                await this.runAndUpdate(['reset', '-q', '--', message.path!], `Failed to unstage ${message.path}`);
+                break;
+            case 'stageHunk':
+                await this.applyHunk(message.path!, message.hunkIndex!, false);
+                break;
+            case 'unstageHunk':
+                await this.applyHunk(message.path!, message.hunkIndex!, true);
+                break;
+            case 'stageAll':
+                await this.runAndUpdate(['add', '-A'], 'Failed to stage changes');
+                break;
+            case 'unstageAll':
+                await this.runAndUpdate(['reset', '-q'], 'Failed to unstage changes');
+                break;
+            case 'openFile':
+                vscode.window.showTextDocument(vscode.Uri.file(path.join(this._cwd, message.path!)));
+                break;
+            case 'commit':
+                await this.commit(message.subject ?? '', message.body ?? '', !!message.amend, !!message.signoff);
+                break;
+        }
+    }
+
+    private async update() {
+        const [staged, unstaged, untracked, head] = await Promise.all([
+            execGit(this._cwd, ['diff', '--cached']),
+            execGit(this._cwd, ['diff']),
+            execGit(this._cwd, ['ls-files', '--others', '--exclude-standard', '-z']),
+            execGit(this._cwd, ['log', '-1', '--format=%B']),
+        ]);
+
+        const toFiles = (diff: string): ComposerFile[] =>
+            parseFilePatches(diff).map((file) => ({
+                path: file.path,
+                hunks: file.hunks,
+                binary: file.binary,
+                untracked: false,
+            }));
+        const untrackedFiles: ComposerFile[] = untracked.stdout
+            .split('\0')
+            .filter(Boolean)
+            .map((filePath) => ({ path: filePath, hunks: [], binary: false, untracked: true }));
+
+        const data: CommitComposerData = {
+            staged: toFiles(staged.stdout),
+            unstaged: [...toFiles(unstaged.stdout), ...untrackedFiles],
+            headMessage: head.ok ? head.stdout.trim() : null,
+        };
+
+        if (!this._htmlSet) {
+            this._panel.webview.html = getCommitComposerHtml(this._panel.webview, data, this._extensionUri);
+            this._htmlSet = true;
+        } else {
+            this._panel.webview.postMessage({ command: 'replaceComposer', data });
+        }
+    }
+
+    private async runAndUpdate(args: string[], errorPrefix: string, input?: string) {
+        const { ok, stderr } = await execGit(this._cwd, args, input);
+        if (!ok) {
+            showGitError(`${errorPrefix}: ${stderr}`);
+        }
+        await this.update();
+    }
+
+    // Rebuilds the hunk from a fresh diff instead of trusting the webview, which may be stale
+    private async applyHunk(filePath: string, hunkIndex: number, unstage: boolean) {
+        const diffArgs = unstage ? ['diff', '--cached', '--', filePath] : ['diff', '--', filePath];
+        const file = parseFilePatches((await execGit(this._cwd, diffArgs)).stdout)[0];
+        const patch = file ? buildHunkPatch(file, hunkIndex) : null;
+        if (!patch) {
+            vscode.window.showWarningMessage(`${filePath} changed since the view was loaded. Refreshing.`);
+            await this.update();
+            return;
+        }
+
+        const applyArgs = unstage ? ['apply', '--cached', '-R', '-'] : ['apply', '--cached', '-'];
+        await this.runAndUpdate(applyArgs, `Failed to ${unstage ? 'unstage' : 'stage'} hunk in ${filePath}`, patch);
+    }
+
+    private async commit(subject: string, body: string, amend: boolean, signoff: boolean) {
+        if (!subject.trim()) {
+            vscode.window.showWarningMessage('Enter a commit subject first.');
+            return;
+        }
+
+        const args = ['commit', '-m', subject.trim()];
+        if (body.trim()) {
+            args.push('-m', body.trim());
+        }
+        if (amend) {
+            args.push('--amend');
+        }
+        if (signoff) {
+            args.push('--signoff');
+        }
+
+        const before = amend ? await getHeadState(this._cwd) : null;
+        const { ok, stderr } = await execGit(this._cwd, args);
+        if (!ok) {
+            showGitError(`Failed to commit: ${stderr}`);
+            await this.update();
+            return;
+        }
+        if (amend) {
+            // Soft, so undoing leaves the amended changes staged
+            await this._journal.recordOperation(this._cwd, 'Amend HEAD commit', before, 'soft');
+        }
+        vscode.window.showInformationMessage(amend ? 'Commit amended' : 'Changes committed');
+        this._panel.dispose();
+    }
+}
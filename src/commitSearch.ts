@@ -0,0 +1,35 @@
+// What the graph's "search entire history" mode looks for:
+//   message  commit messages containing the text (git log --grep)
+//   author   author names or emails containing the text (git log --author)
+//   content  commits that add or remove the text (pickaxe, git log -S)
+//   regex    commits whose diff touches lines matching the regex (git log -G)
+//   hash     commits whose hash starts with the text
+export type CommitSearchMode = 'message' | 'author' | 'content' | 'regex' | 'hash';
+
+export interface CommitSearch {
+    mode: CommitSearchMode;
+    query: string;
+}
+
+// Git needs at least four hex digits to look up an abbreviated hash
+export function isHashPrefix(query: string): boolean {
+    return /^[0-9a-f]{4,40}$/i.test(query);
+}
+
+// The options that narrow `git log` down to the commits matching a search. Message and author searches
+// match the text literally and ignore case, like the filter over loaded commits does. Hash searches are
+// not a log filter and have no options.
+export function buildSearchArgs(search: CommitSearch): string[] {
+    switch (search.mode) {
+        case 'message':
+            return ['--regexp-ignore-case', '--fixed-strings', `--grep=${search.query}`];
+        case 'author':
+            return ['--regexp-ignore-case', '--fixed-strings', `--author=${search.query}`];
+        case 'content':
+            return [`-S${search.query}`];
+        case 'regex':
+            return [`-G${search.query}`];
+        case 'hash':
+            return [];
+    }
+}
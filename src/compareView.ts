@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { LOG_FORMAT, parseGitLogOutput, type GitCommit } from './gitParser';
+import { getCompareViewHtml } from './webviewContent';
+import { getErrorMessage, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+import { displayName, isDiffTooLarge, parseLeftRightCount, parseNumstat, type ChangedFile } from './comparison';
+
+const MAX_COMMITS_PER_SIDE = 500;
+
+// 'mergeBase' shows what the right side changed since it forked (git diff A...B), which is what merging it
+// would bring in; 'direct' compares the two trees as they are (git diff A B)
+export type CompareDiffMode = 'mergeBase' | 'direct';
+
+export interface CompareViewData {
+    left: string;
+    right: string;
+    // null when the two have no common history
+    mergeBase: GitCommit | null;
+    onlyLeft: GitCommit[];
+    onlyRight: GitCommit[];
+    // Counts of all unique commits; the lists stop at MAX_COMMITS_PER_SIDE
+    leftCount: number;
+    rightCount: number;
+    diffMode: CompareDiffMode;
+    files: ChangedFile[];
+    // null when the diff is too large to show; the view then lists the files
+    patch: string | null;
+}
+
+interface CompareViewMessage {
+    command: 'refresh' | 'swap' | 'setDiffMode' | 'showDetails';
+    diffMode?: CompareDiffMode;
+    hash?: string;
+}
+
+// Asks for the two sides of a comparison among the repository's branches and tags
+export async function pickComparison(cwd: string): Promise<[string, string] | undefined> {
+    const refs = await runGit(cwd, [
+        'for-each-ref',
+        '--format=%(refname:short)',
+        'refs/heads',
+        'refs/remotes',
+        'refs/tags',
+    ])
+        .then(({ stdout }) => stdout.split('\n').filter((ref) => ref && !ref.endsWith('/HEAD')))
+        .catch(() => [] as string[]);
+
+    const pick = async (placeHolder: string, exclude?: string) => {
+        const items = ['HEAD', ...refs].filter((ref) => ref !== exclude).map((ref) => ({ label: ref }));
+        return (await vscode.window.showQuickPick(items, { placeHolder }))?.label;
+    };
+    const left = await pick('Compare from (base)');
+    if (!left) {
+        return undefined;
+    }
+    const right = await pick(`Compare ${left} with`, left);
+    return right ? [left, right] : undefined;
+}
+
+export class ComparePanel {
+    private static currentPanel: ComparePanel | undefined;
+    private _htmlSet = false;
+    private _diffMode: CompareDiffMode = 'mergeBase';
+
+    public static async createOrShow(extensionUri: vscode.Uri, cwd: string, left: string, right: string) {
+        for (const rev of [left, right]) {
+            try {
+                await runGit(cwd, ['rev-parse', '--verify', '--quiet', `${rev}^{commit}`]);
+            } catch {
+                showGitError(`Cannot compare: '${displayName(rev)}' is not a commit`);
+                return;
+            }
+        }
+
+        const current = ComparePanel.currentPanel;
+        if (current?._cwd === cwd) {
+            current._left = left;
+            current._right = right;
+            current._panel.reveal();
+            await current.update();
+            return;
+        }
+        current?._panel.dispose();
+
+        const panel = vscode.window.createWebviewPanel('gitLeanCompare', 'Compare', vscode.ViewColumn.One, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [extensionUri],
+        });
+        ComparePanel.currentPanel = new ComparePanel(panel, extensionUri, cwd, left, right);
+    }
+
+    private constructor(
+        private readonly _panel: vscode.WebviewPanel,
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _cwd: string,
+        private _left: string,
+        private _right: string,
+    ) {
+        _panel.onDidDispose(() => {
+            ComparePanel.currentPanel = undefined;
+        });
+        _panel.webview.onDidReceiveMessage((message: CompareViewMessage) => this.handleMessage(message));
+        this.update();
+    }
+
+    private async handleMessage(message: CompareViewMessage) {
+        switch (message.command) {
+            case 'refresh':
+                await this.update();
+                break;
+            case 'swap':
+                [this._left, this._right] = [this._right, this._left];
+                await this.update();
+                break;
+            case 'setDiffMode':
+                this._diffMode = message.diffMode!;
+                await this.update();
+                break;
+            case 'showDetails':
+                vscode.commands.executeCommand('git-lean.showCommitDetails', message.hash);
+                break;
+        }
+    }
+
+    private async update() {
+        this._panel.title = `Compare ${displayName(this._left)} ↔ ${displayName(this._right)}`;
+        let data: CompareViewData;
+        try {
+            data = await this.load();
+        } catch (error) {
+            showGitError(`Failed to compare: ${getErrorMessage(error)}`);
+            return;
+        }
+
+        if (!this._htmlSet) {
+            this._panel.webview.html = getCompareViewHtml(this._panel.webview, data, this._extensionUri);
+            this._htmlSet = true;
+        } else {
+            this._panel.webview.postMessage({ command: 'replaceComparison', data });
+        }
+    }
+
+    private async load(): Promise<CompareViewData> {
+        const left = this._left;
+        const right = this._right;
+        const log = async (args: string[]) =>
+            parseGitLogOutput(
+                (await runGit(this._cwd, ['log', '--decorate=full', `--pretty=format:${LOG_FORMAT}`, ...args, '--']))
+                    .stdout,
+            );
+
+        // merge-base exits 1 when the histories are unrelated
+        const mergeBaseHash = await runGit(this._cwd, ['merge-base', left, right]).then(
+            ({ stdout }) => stdout.trim(),
+            () => '',
+        );
+        const mergeBase = mergeBaseHash ? ((await log(['-1', mergeBaseHash]))[0] ?? null) : null;
+
+        const { stdout: counts } = await runGit(this._cwd, [
+            'rev-list',
+            '--left-right',
+            '--count',
+            `${left}...${right}`,
+        ]);
+        const [leftCount, rightCount] = parseLeftRightCount(counts);
+
+        // Without a merge base there is nothing to diff against but the other side
+        const diffMode = mergeBase ? this._diffMode : 'direct';
+        const diffRange = diffMode === 'mergeBase' ? [`${left}...${right}`] : [left, right];
+        // The file list comes first, so a huge diff is never loaded
+        const files = parseNumstat((await runGit(this._cwd, ['diff', '--numstat', ...diffRange, '--'])).stdout);
+        const patch = isDiffTooLarge(files) ? null : (await runGit(this._cwd, ['diff', ...diffRange, '--'])).stdout;
+
+        return {
+            left: displayName(left),
+            right: displayName(right),
+            mergeBase,
+            onlyLeft: await log([`--max-count=${MAX_COMMITS_PER_SIDE}`, `${right}..${left}`]),
+            onlyRight: await log([`--max-count=${MAX_COMMITS_PER_SIDE}`, `${left}..${right}`]),
+            leftCount,
+            rightCount,
+            diffMode,
+            files,
+            patch,
+        };
+    }
+}
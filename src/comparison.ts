@@ -0,0 +1,41 @@
+// One changed file from `git diff --numstat`; the counts are null for binary files
+export interface ChangedFile {
+    // As git prints it; renames read like "old => new" or "dir/{old => new}/file"
+    path: string;
+    added: number | null;
+    deleted: number | null;
+}
+
+// Above either limit the compare view lists the changed files instead of loading the whole diff
+export const MAX_DIFF_FILES = 300;
+export const MAX_DIFF_LINES = 20000;
+
+// Hashes are shortened, full ref names are kept as given
+export function displayName(rev: string): string {
+    return /^[0-9a-f]{40}$/.test(rev) ? rev.substring(0, 7) : rev.replace(/^refs\/(heads|tags)\//, '');
+}
+
+// Parses `git rev-list --left-right --count A...B`: the commits only in A and only in B
+export function parseLeftRightCount(output: string): [number, number] {
+    const [left, right] = output.trim().split(/\s+/).map(Number);
+    return [left || 0, right || 0];
+}
+
+export function parseNumstat(output: string): ChangedFile[] {
+    return output
+        .split('\n')
+        .filter(Boolean)
+        .map((line) => {
+            const [added, deleted, ...path] = line.split('\t');
+            return {
+                path: path.join('\t'),
+                added: added === '-' ? null : Number(added),
+                deleted: deleted === '-' ? null : Number(deleted),
+            };
+        });
+}
+
+export function isDiffTooLarge(files: ChangedFile[]): boolean {
+    const lines = files.reduce((sum, file) => sum + (file.added ?? 0) + (file.deleted ?? 0), 0);
+    return files.length > MAX_DIFF_FILES || lines > MAX_DIFF_LINES;
+}
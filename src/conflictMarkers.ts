@@ -0,0 +1,128 @@
+export type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+export type ConflictSegment =
+    | { type: 'common'; lines: string[] }
+    | { type: 'conflict'; ours: string[]; base: string[]; theirs: string[] };
+
+type Section = 'ours' | 'base' | 'theirs';
+
+function isMarker(line: string, char: string): boolean {
+    const marker = char.repeat(7);
+    return line === marker || line.startsWith(marker + ' ') || line === marker + '\r';
+}
+
+// Splits text containing diff3-style conflict markers (as written by `git merge-file --diff3`)
+// into common and conflicting segments. Joining every line back with '\n' restores the text,
+// so a trailing newline is kept as an empty last line of the final common segment.
+export function parseConflictMarkers(text: string): ConflictSegment[] {
+    const segments: ConflictSegment[] = [];
+    let common: string[] = [];
+    let conflict: { ours: string[]; base: string[]; theirs: string[] } | null = null;
+    let section: Section = 'ours';
+    // Every line of the open conflict, markers included
+    let raw: string[] = [];
+
+    for (const line of text.split('\n')) {
+        if (!conflict) {
+            if (isMarker(line, '<')) {
+                if (common.length > 0) {
+                    segments.push({ type: 'common', lines: common });
+                    common = [];
+                }
+                conflict = { ours: [], base: [], theirs: [] };
+                section = 'ours';
+                raw = [line];
+            } else {
+                common.push(line);
+            }
+            continue;
+        }
+
+        raw.push(line);
+        if (isMarker(line, '|')) {
+            section = 'base';
+        } else if (isMarker(line, '=')) {
+            section = 'theirs';
+        } else if (isMarker(line, '>')) {
+            segments.push({ type: 'conflict', ...conflict });
+            conflict = null;
+        } else {
+            conflict[section].push(line);
+        }
+    }
+
+    if (conflict) {
+        // Unterminated conflict: keep the text verbatim, with the common text before it, rather than
+        // silently dropping it
+        const previous = segments[segments.length - 1];
+        if (previous?.type === 'common') {
+            segments.pop();
+            common = previous.lines;
+        }
+        common.push(...raw);
+    }
+    if (common.length > 0) {
+        segments.push({ type: 'common', lines: common });
+    }
+    return segments;
+}
+
+export function countConflicts(segments: ConflictSegment[]): number {
+    return segments.filter((s) => s.type === 'conflict').length;
+}
+
+// choices holds one entry per conflict segment, in order. Returns null while any conflict is undecided.
+export function resolveConflicts(segments: ConflictSegment[], choices: (ConflictChoice | null)[]): string | null {
+    const lines: string[] = [];
+    let conflictIndex = 0;
+    for (const segment of segments) {
+        if (segment.type === 'common') {
+            lines.push(...segment.lines);
+            continue;
+        }
+        const choice = choices[conflictIndex++];
+        if (!choice) {
+            return null;
+        }
+        if (choice === 'ours' || choice === 'both') {
+            lines.push(...segment.ours);
+        }
+        if (choice === 'theirs' || choice === 'both') {
+            lines.push(...segment.theirs);
+        }
+    }
+    return lines.join('\n');
+}
+
+// Carries the choices made for the conflicts shown onto the conflicts in the file now, matching them by
+// their two sides, in order. The base is left out since the file may be written without it. Conflicts
+// resolved by hand since are simply absent; returns null when a conflict in the file was not shown.
+export function matchConflictChoices(
+    shown: ConflictSegment[],
+    current: ConflictSegment[],
+    choices: (ConflictChoice | null)[],
+): (ConflictChoice | null)[] | null {
+    const shownConflicts = shown.flatMap((s) => (s.type === 'conflict' ? [s] : []));
+    const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+    const matched: (ConflictChoice | null)[] = [];
+    let next = 0;
+    for (const segment of current) {
+        if (segment.type === 'common') {
+            continue;
+        }
+        while (
+            next < shownConflicts.length &&
+            !(
+                sameLines(shownConflicts[next].ours, segment.ours) &&
+                sameLines(shownConflicts[next].theirs, segment.theirs)
+            )
+        ) {
+            next++;
+        }
+        if (next === shownConflicts.length) {
+            return null;
+        }
+        matched.push(choices[next++] ?? null);
+    }
+    return matched;
+}
@@ -0,0 +1,252 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseUnmergedFiles, type UnmergedFile } from './gitParser';
+import {
+    countConflicts,
+    matchConflictChoices,
+    parseConflictMarkers,
+    resolveConflicts,
+    type ConflictChoice,
+    type ConflictSegment,
+} from './conflictMarkers';
+import { getSequencerSession } from './sequencerSession';
+import { getConflictViewHtml } from './webviewContent';
+import { GitError, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+
+export interface ConflictFile {
+    path: string;
+    // 'content' files are shown hunk by hunk; the others can only be resolved as a whole
+    kind: 'content' | 'binary' | 'deleted';
+    hasOurs: boolean;
+    hasTheirs: boolean;
+    segments: ConflictSegment[];
+}
+
+export interface ConflictViewData {
+    operationLabel: string | null;
+    files: ConflictFile[];
+}
+
+interface ConflictViewMessage {
+    command: 'markResolved' | 'acceptFile' | 'openFile' | 'refresh' | 'continueOperation';
+    path?: string;
+    choices?: (ConflictChoice | null)[];
+    side?: 'ours' | 'theirs';
+}
+
+// Several commands here report through their exit code (merge-file counts conflicts), so failures
+// are returned rather than thrown
+async function execGit(cwd: string, args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+    try {
+        const { stdout, stderr } = await runGit(cwd, args);
+        return { code: 0, stdout, stderr };
+    } catch (error) {
+        if (error instanceof GitError) {
+            return { code: error.exitCode ?? -1, stdout: error.stdout, stderr: error.message };
+        }
+        return { code: -1, stdout: '', stderr: String(error) };
+    }
+}
+
+export class ConflictResolutionPanel {
+    private static currentPanel: ConflictResolutionPanel | undefined;
+    private _htmlSet = false;
+    // The conflicts last shown for each file, which the choices sent back refer to
+    private _shown = new Map<string, ConflictSegment[]>();
+
+    public static createOrShow(extensionUri: vscode.Uri, cwd: string) {
+        if (ConflictResolutionPanel.currentPanel?._cwd === cwd) {
+            ConflictResolutionPanel.currentPanel._panel.reveal();
+            ConflictResolutionPanel.currentPanel.update();
+            return;
+        }
+        // Opened for another repository: replace it rather than showing two repositories' state at once
+        ConflictResolutionPanel.currentPanel?._panel.dispose();
+
+        const panel = vscode.window.createWebviewPanel('gitLeanConflicts', 'Resolve Conflicts', vscode.ViewColumn.One, {
+            enableScripts: true,
+            localResourceRoots: [extensionUri],
+        });
+        ConflictResolutionPanel.currentPanel = new ConflictResolutionPanel(panel, extensionUri, cwd);
+    }
+
+    private constructor(
+        private readonly _panel: vscode.WebviewPanel,
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _cwd: string,
+    ) {
+        _panel.onDidDispose(() => {
+            ConflictResolutionPanel.currentPanel = undefined;
+        });
+        _panel.webview.onDidReceiveMessage((message: ConflictViewMessage) => this.handleMessage(message));
+        this.update();
+    }
+
+    private async handleMessage(message: ConflictViewMessage) {
+        switch (message.command) {
+            case 'refresh':
+                await this.update();
+                break;
+            case 'markResolved':
+                await this.markResolved(message.path!, message.choices ?? []);
+                break;
+            case 'acceptFile':
+                await this.acceptFile(message.path!, message.side!);
+                break;
+            case 'openFile':
+                vscode.window.showTextDocument(vscode.Uri.file(path.join(this._cwd, message.path!)));
+                break;
+            case 'continueOperation':
+                vscode.commands.executeCommand('git-lean.continueOperation');
+                break;
+        }
+    }
+
+    private async update() {
+        const session = await getSequencerSession(this._cwd);
+        const unmerged = parseUnmergedFiles((await execGit(this._cwd, ['ls-files', '-u'])).stdout);
+        const files = await Promise.all(unmerged.map((file) => this.loadFile(file)));
+        this._shown = new Map(files.map((file) => [file.path, file.segments]));
+        const data: ConflictViewData = {
+            operationLabel: session?.label ?? null,
+            files,
+        };
+
+        if (!this._htmlSet) {
+            this._panel.webview.html = getConflictViewHtml(this._panel.webview, data, this._extensionUri);
+            this._htmlSet = true;
+        } else {
+            this._panel.webview.postMessage({ command: 'replaceConflicts', data });
+        }
+    }
+
+    private async loadFile(file: UnmergedFile): Promise<ConflictFile> {
+        const hasOurs = file.stages.includes(2);
+        const hasTheirs = file.stages.includes(3);
+        const result: ConflictFile = { path: file.path, kind: 'deleted', hasOurs, hasTheirs, segments: [] };
+        if (!hasOurs || !hasTheirs) {
+            return result;
+        }
+
+        const merged = await this.mergeStages(file);
+        if (merged === null) {
+            return { ...result, kind: 'binary' };
+        }
+        return { ...result, kind: 'content', segments: parseConflictMarkers(merged) };
+    }
+
+    // Rebuilds the conflict from the index stages rather than reading the working tree, so hunks
+    // always carry the base version too, whatever merge.conflictStyle is set to.
+    private async mergeStages(file: UnmergedFile): Promise<string | null> {
+        const readStage = async (stage: number) =>
+            file.stages.includes(stage) ? (await execGit(this._cwd, ['show', `:${stage}:${file.path}`])).stdout : '';
+
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-lean-conflict-'));
+        try {
+            const oursPath = path.join(tmpDir, 'ours');
+            const basePath = path.join(tmpDir, 'base');
+            const theirsPath = path.join(tmpDir, 'theirs');
+            fs.writeFileSync(oursPath, await readStage(2));
+            fs.writeFileSync(basePath, await readStage(1));
+            fs.writeFileSync(theirsPath, await readStage(3));
+
+            // Exit code is the number of conflicts, or negative (255) on error such as binary input
+            const { code, stdout } = await execGit(this._cwd, [
+                'merge-file',
+                '-p',
+                '--diff3',
+                '-L',
+                'ours',
+                '-L',
+                'base',
+                '-L',
+                'theirs',
+                oursPath,
+                basePath,
+                theirsPath,
+            ]);
+            return code < 0 || code > 127 ? null : stdout;
+        } finally {
+            fs.rmSync(tmpDir, { recursive: true, force: true });
+        }
+    }
+
+    private async markResolved(filePath: string, choices: (ConflictChoice | null)[]) {
+        const absPath = path.join(this._cwd, filePath);
+
+        if (choices.some((c) => c)) {
+            if (choices.some((c) => !c)) {
+                vscode.window.showWarningMessage(`Choose a side for every conflict in ${filePath} first.`);
+                return;
+            }
+            // The choices go into the file as it is now, so edits made around the conflicts are kept. Its conflicts
+            // are matched to the ones shown by content, since the file may be written in another conflict style
+            // or have been resolved by hand in part. When one of them was never shown, the file is only rebuilt
+            // from the conflicts shown once that is confirmed.
+            const shown = this._shown.get(filePath) ?? [];
+            const current = fs.existsSync(absPath) ? parseConflictMarkers(fs.readFileSync(absPath, 'utf8')) : null;
+            const matched = current ? matchConflictChoices(shown, current, choices) : null;
+            let resolved = current && matched ? resolveConflicts(current, matched) : null;
+            if (resolved === null) {
+                const confirm = await vscode.window.showWarningMessage(
+                    `${filePath} was edited since the conflicts were shown. Replace it with the chosen sides?`,
+                    { modal: true, detail: 'Your edits to the file will be lost.' },
+                    'Replace',
+                );
+                if (confirm !== 'Replace') {
+                    return;
+                }
+                resolved = countConflicts(shown) === choices.length ? resolveConflicts(shown, choices) : null;
+            }
+            if (resolved === null) {
+                showGitError(`Failed to resolve ${filePath}: the conflicts shown are out of date, refresh the view`);
+                return;
+            }
+            fs.writeFileSync(absPath, resolved);
+        } else if (fs.existsSync(absPath) && /^<{7}( |$)/m.test(fs.readFileSync(absPath, 'utf8'))) {
+            const confirm = await vscode.window.showWarningMessage(
+                `${filePath} still contains conflict markers. Mark it resolved anyway?`,
+                'Mark Resolved',
+                'Cancel',
+            );
+            if (confirm !== 'Mark Resolved') {
+                return;
+            }
+        }
+
+        await this.stage(filePath);
+    }
+
+    private async acceptFile(filePath: string, side: 'ours' | 'theirs') {
+        const unmerged = parseUnmergedFiles((await execGit(this._cwd, ['ls-files', '-u', '--', filePath])).stdout)[0];
+        const exists = unmerged?.stages.includes(side === 'ours' ? 2 : 3);
+
+        if (!exists) {
+            // Accepting the side that deleted the file
+            const { code, stderr } = await execGit(this._cwd, ['rm', '--', filePath]);
+            if (code !== 0) {
+                showGitError(`Failed to remove ${filePath}: ${stderr}`);
+            }
+            await this.update();
+            return;
+        }
+
+        const { code, stderr } = await execGit(this._cwd, ['checkout', `--${side}`, '--', filePath]);
+        if (code !== 0) {
+            showGitError(`Failed to accept ${side} for ${filePath}: ${stderr}`);
+            return;
+        }
+        await this.stage(filePath);
+    }
+
+    private async stage(filePath: string) {
+        const { code, stderr } = await execGit(this._cwd, ['add', '--', filePath]);
+        if (code !== 0) {
+            showGitError(`Failed to mark ${filePath} as resolved: ${stderr}`);
+        }
+        await this.update();
+    }
+}
@@ -0,0 +1,100 @@
+export interface DiffHunk {
+    // The "@@ -a,b +c,d @@" line
+    header: string;
+    lines: string[];
+}
+
+export interface FilePatch {
+    path: string;
+    // Everything before the first hunk: "diff --git", index, mode and ---/+++ lines
+    header: string[];
+    hunks: DiffHunk[];
+    binary: boolean;
+}
+
+const C_ESCAPES: Record<string, number> = { a: 7, b: 8, t: 9, n: 10, v: 11, f: 12, r: 13, '"': 34, '\\': 92 };
+
+// Undoes git's C-style quoting of paths with unusual characters: "a/t\303\251st\tfile" is a/tést<TAB>file
+function unquotePath(path: string): string {
+    if (!path.startsWith('"') || !path.endsWith('"')) {
+        return path;
+    }
+    const bytes: number[] = [];
+    // By code point, so characters git left unquoted keep their surrogate pairs
+    const chars = Array.from(path.slice(1, -1));
+    for (let i = 0; i < chars.length; i++) {
+        const octal = chars.slice(i + 1, i + 4).join('');
+        if (chars[i] !== '\\') {
+            bytes.push(...Buffer.from(chars[i], 'utf8'));
+        } else if (/^[0-7]{3}$/.test(octal)) {
+            bytes.push(parseInt(octal, 8));
+            i += 3;
+        } else {
+            bytes.push(C_ESCAPES[chars[i + 1]] ?? chars[i + 1].charCodeAt(0));
+            i++;
+        }
+    }
+    return Buffer.from(bytes).toString('utf8');
+}
+
+// The path of a "--- a/..." or "+++ b/..." line. Git ends the line with a tab when the path has a space.
+function pathFromFileLine(line: string): string {
+    return unquotePath(line.slice(4).replace(/\t$/, '')).slice(2);
+}
+
+function pathFromHeader(header: string[]): string {
+    const newPath = header.find((line) => line.startsWith('+++ '));
+    if (newPath && newPath !== '+++ /dev/null') {
+        return pathFromFileLine(newPath);
+    }
+    const oldPath = header.find((line) => line.startsWith('--- '));
+    if (oldPath && oldPath !== '--- /dev/null') {
+        return pathFromFileLine(oldPath);
+    }
+    // No ---/+++ lines for binary files and pure mode changes
+    const match = header[0].match(/^diff --git (?:a\/.*?|"a\/.*?") (b\/.*|"b\/.*")$/);
+    return match ? unquotePath(match[1]).slice(2) : header[0];
+}
+
+// Splits `git diff` output into one entry per file, each with its hunks, so a single hunk can
+// be turned back into a patch that `git apply` accepts.
+export function parseFilePatches(diff: string): FilePatch[] {
+    const text = diff.endsWith('\n') ? diff.slice(0, -1) : diff;
+    if (!text.startsWith('diff --git ')) {
+        return [];
+    }
+
+    return text
+        .split(/^(?=diff --git )/m)
+        .filter((section) => section.trim())
+        .map((section) => {
+            const lines = section.split('\n');
+            if (lines[lines.length - 1] === '') {
+                lines.pop();
+            }
+            const firstHunk = lines.findIndex((line) => line.startsWith('@@'));
+            const header = firstHunk === -1 ? lines : lines.slice(0, firstHunk);
+            const hunks: DiffHunk[] = [];
+            if (firstHunk !== -1) {
+                for (const line of lines.slice(firstHunk)) {
+                    if (line.startsWith('@@')) {
+                        hunks.push({ header: line, lines: [] });
+                    } else {
+                        hunks[hunks.length - 1].lines.push(line);
+                    }
+                }
+            }
+            const binary = header.some((line) => line.startsWith('Binary files ') || line === 'GIT binary patch');
+            return { path: pathFromHeader(header), header, hunks, binary };
+        });
+}
+
+// The file header plus one hunk. Line numbers are left as they are: `git apply` locates the hunk
+// by its old-side position, which still matches the index when the other hunks are not applied.
+export function buildHunkPatch(file: FilePatch, hunkIndex: number): string | null {
+    const hunk = file.hunks[hunkIndex];
+    if (!hunk) {
+        return null;
+    }
+    return [...file.header, hunk.header, ...hunk.lines, ''].join('\n');
+}
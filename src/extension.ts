@@ -1,23 +1,47 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
 import { GitGraphViewProvider } from './gitGraphView';
 import { BranchWebviewProvider } from './branchWebviewProvider';
 import { BranchTreeItem } from './branchTreeProvider';
+import { validateRefName } from './refNames';
+import { StashOperations } from './stashOperations';
+import { TagOperations } from './tagOperations';
+import { GitError, getErrorMessage, runGit } from './gitRunner';
+import { registerGitLog, showGitError } from './gitLog';
+import { RepositoryManager } from './repositoryManager';
+import { WorktreeOperations, findWorktreeForBranch, getWorktrees } from './worktreeOperations';
+import { SubmoduleOperations } from './submoduleOperations';
+import { ComparePanel, pickComparison } from './compareView';
+import { BranchOperations, deleteLocalBranches } from './branchOperations';
+import { RemoteOperations } from './remoteOperations';
 
 export function activate(context: vscode.ExtensionContext) {
-    const graphProvider = new GitGraphViewProvider(context.extensionUri);
-    const branchProvider = new BranchWebviewProvider(context.extensionUri);
+    registerGitLog(context);
+
+    const repositories = new RepositoryManager(context.workspaceState);
+    context.subscriptions.push(repositories);
+    repositories.discover();
+
+    const graphProvider = new GitGraphViewProvider(context.extensionUri, context.workspaceState, repositories);
+    const branchProvider = new BranchWebviewProvider(context.extensionUri, repositories);
 
     context.subscriptions.push(vscode.window.registerWebviewViewProvider(GitGraphViewProvider.viewType, graphProvider));
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider(BranchWebviewProvider.viewType, branchProvider),
     );
 
-    branchProvider.onBranchSelected = (branch) => graphProvider.filterByBranch(branch);
+    const stashOps = new StashOperations(() => branchProvider.refresh(), repositories);
+    const tagOps = new TagOperations(() => branchProvider.refresh(), repositories);
+    const worktreeOps = new WorktreeOperations(() => branchProvider.refresh(), repositories);
+    const submoduleOps = new SubmoduleOperations(() => branchProvider.refresh(), repositories);
+    const branchOps = new BranchOperations(() => branchProvider.refresh(), repositories);
+    const remoteOps = new RemoteOperations(() => branchProvider.refresh(), repositories);
+    context.subscriptions.push(remoteOps.startAutoFetch());
+
+    branchProvider.onBranchesSelected = (branches) => graphProvider.filterByRefs(branches);
 
     context.subscriptions.push(
         vscode.commands.registerCommand('git-lean.showGraph', () => {
-            GitGraphViewProvider.createOrShow(context.extensionUri);
+            GitGraphViewProvider.createOrShow(context.extensionUri, context.workspaceState, repositories);
         }),
     );
 
@@ -57,20 +81,29 @@ export function activate(context: vscode.ExtensionContext) {
             if (!branchName) {
                 return;
             }
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+            const cwd = repositories.selected;
+            if (!cwd) {
                 return;
             }
-
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.execFile('git', ['checkout', branchName], { cwd }, (error, _stdout, _stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Failed to checkout branch: ${error.message}`);
-                    return;
+            const worktree = await findWorktreeForBranch(cwd, branchName);
+            if (worktree) {
+                const choice = await vscode.window.showWarningMessage(
+                    `'${branchName}' is already checked out in the worktree at ${worktree.path}.`,
+                    'Open Worktree',
+                );
+                if (choice === 'Open Worktree') {
+                    await worktreeOps.openWorktree(worktree.path);
                 }
-                vscode.window.showInformationMessage(`Switched to branch '${branchName}'`);
-                branchProvider.refresh();
-            });
+                return;
+            }
+            try {
+                await runGit(cwd, ['checkout', branchName]);
+            } catch (error) {
+                showGitError(`Failed to checkout branch: ${getErrorMessage(error)}`);
+                return;
+            }
+            vscode.window.showInformationMessage(`Switched to branch '${branchName}'`);
+            branchProvider.refresh();
         }),
     );
 
@@ -80,6 +113,22 @@ export function activate(context: vscode.ExtensionContext) {
             if (!branchName) {
                 return;
             }
+            const cwd = repositories.selected;
+            if (!cwd) {
+                return;
+            }
+            const worktree = await findWorktreeForBranch(cwd, branchName);
+            if (worktree) {
+                const choice = await vscode.window.showWarningMessage(
+                    `'${branchName}' is checked out in the worktree at ${worktree.path}. Remove the worktree before deleting the branch.`,
+                    'Remove Worktree',
+                );
+                if (choice === 'Remove Worktree') {
+                    await worktreeOps.removeWorktree(worktree.path);
+                }
+                return;
+            }
+
             const confirm = await vscode.window.showWarningMessage(
                 `Are you sure you want to delete branch '${branchName}'?`,
                 'Yes',
@@ -90,39 +139,30 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
-                return;
-            }
-
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.execFile('git', ['branch', '-d', branchName], { cwd }, async (error, _stdout, stderr) => {
-                if (error) {
-                    if (stderr.includes('not fully merged')) {
-                        const forceConfirm = await vscode.window.showWarningMessage(
-                            `Branch '${branchName}' is not fully merged. Force delete anyway?`,
-                            'Force Delete',
-                            'Cancel',
-                        );
-                        if (forceConfirm !== 'Force Delete') {
-                            return;
-                        }
-                        cp.execFile('git', ['branch', '-D', branchName], { cwd }, (err2, _stdout2, stderr2) => {
-                            if (err2) {
-                                vscode.window.showErrorMessage(`Failed to delete branch: ${err2.message}\n${stderr2}`);
-                                return;
-                            }
-                            vscode.window.showInformationMessage(`Deleted branch '${branchName}'`);
-                            branchProvider.refresh();
-                        });
-                        return;
-                    }
-                    vscode.window.showErrorMessage(`Failed to delete branch: ${error.message}\n${stderr}`);
+            try {
+                await runGit(cwd, ['branch', '-d', branchName]);
+            } catch (error) {
+                if (!(error instanceof GitError && error.stderr.includes('not fully merged'))) {
+                    showGitError(`Failed to delete branch: ${getErrorMessage(error)}`);
                     return;
                 }
-                vscode.window.showInformationMessage(`Deleted branch '${branchName}'`);
-                branchProvider.refresh();
-            });
+                const forceConfirm = await vscode.window.showWarningMessage(
+                    `Branch '${branchName}' is not fully merged. Force delete anyway?`,
+                    'Force Delete',
+                    'Cancel',
+                );
+                if (forceConfirm !== 'Force Delete') {
+                    return;
+                }
+                try {
+                    await runGit(cwd, ['branch', '-D', branchName]);
+                } catch (forceError) {
+                    showGitError(`Failed to delete branch: ${getErrorMessage(forceError)}`);
+                    return;
+                }
+            }
+            vscode.window.showInformationMessage(`Deleted branch '${branchName}'`);
+            branchProvider.refresh();
         }),
     );
 
@@ -133,85 +173,83 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('git-lean.pull', () => {
-            const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!cwd) {
-                return;
-            }
-            cp.execFile('git', ['pull'], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Pull failed: ${stderr || error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage('Pull successful');
+        vscode.commands.registerCommand('git-lean.fetch', (remoteName?: unknown) =>
+            remoteOps.fetch(typeof remoteName === 'string' ? remoteName : undefined),
+        ),
+    );
+
+    context.subscriptions.push(vscode.commands.registerCommand('git-lean.fetchAll', () => remoteOps.fetchAll()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('git-lean.addRemote', () => remoteOps.addRemote()));
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.renameRemote', (remoteName: string) =>
+            remoteOps.renameRemote(remoteName),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.removeRemote', (remoteName: string) =>
+            remoteOps.removeRemote(remoteName),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.editRemoteUrl', (remoteName: string) =>
+            remoteOps.editRemoteUrl(remoteName),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.pull', async () => {
+            const options = await remoteOps.pickPullOptions(false);
+            if (options) {
+                await graphProvider.pull(options);
                 branchProvider.refresh();
-            });
+            }
         }),
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('git-lean.push', () => {
-            const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!cwd) {
-                return;
-            }
-            cp.execFile('git', ['push'], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Push failed: ${stderr || error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage('Push successful');
+        vscode.commands.registerCommand('git-lean.pullWithOptions', async () => {
+            const options = await remoteOps.pickPullOptions(true);
+            if (options) {
+                await graphProvider.pull(options);
                 branchProvider.refresh();
-            });
+            }
         }),
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('git-lean.pushForce', async () => {
-            const confirm = await vscode.window.showWarningMessage(
-                'Force push will overwrite remote history. Are you sure?',
-                'Force Push',
-                'Cancel',
-            );
-            if (confirm !== 'Force Push') {
-                return;
+        vscode.commands.registerCommand('git-lean.pullBranch', async (branchTreeItem: BranchTreeItem) => {
+            if (branchTreeItem.branchName) {
+                await remoteOps.pullBranch(branchTreeItem.branchName);
             }
-            const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!cwd) {
-                return;
+        }),
+    );
+
+    context.subscriptions.push(vscode.commands.registerCommand('git-lean.push', () => remoteOps.push()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('git-lean.pushTo', () => remoteOps.pushTo()));
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.pushBranch', async (branchTreeItem: BranchTreeItem) => {
+            if (branchTreeItem.branchName) {
+                await remoteOps.pushBranch(branchTreeItem.branchName);
             }
-            cp.execFile('git', ['push', '--force-with-lease'], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Force push failed: ${stderr || error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage('Force push successful');
-                branchProvider.refresh();
-            });
         }),
     );
 
+    context.subscriptions.push(vscode.commands.registerCommand('git-lean.pushForce', () => remoteOps.pushForce()));
+
     context.subscriptions.push(
         vscode.commands.registerCommand('git-lean.rebaseBranch', async (branchTreeItem: BranchTreeItem) => {
             const targetBranch = branchTreeItem.branchName;
             if (!targetBranch) {
                 return;
             }
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
-                return;
-            }
-            const cwd = workspaceFolders[0].uri.fsPath;
-
-            cp.execFile('git', ['rebase', targetBranch], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    cp.execFile('git', ['rebase', '--abort'], { cwd }, () => {});
-                    vscode.window.showErrorMessage(`Rebase failed: ${stderr || error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage(`Rebased onto '${targetBranch}' successfully`);
-                branchProvider.refresh();
-            });
+            await graphProvider.rebaseCurrentBranch(targetBranch);
+            branchProvider.refresh();
         }),
     );
 
@@ -221,33 +259,168 @@ export function activate(context: vscode.ExtensionContext) {
             if (!sourceBranch) {
                 return;
             }
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+            await graphProvider.mergeIntoCurrentBranch(sourceBranch);
+            branchProvider.refresh();
+        }),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.continueOperation', () => graphProvider.continueOperation()),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.skipOperation', () => graphProvider.skipOperation()),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.abortOperation', () => graphProvider.abortOperation()),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.selectRepository', () => repositories.pickRepository()),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.showReflog', () => graphProvider.showReflog()),
+    );
+
+    // Called with two branches or commits from the views, or from the palette to pick them
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.compare', async (left?: unknown, right?: unknown) => {
+            const cwd = repositories.selected;
+            if (!cwd) {
                 return;
             }
-            const cwd = workspaceFolders[0].uri.fsPath;
-
-            cp.execFile('git', ['merge', sourceBranch], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Merge failed: ${stderr || error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage(`Merged '${sourceBranch}' successfully`);
-                branchProvider.refresh();
-            });
+            const sides =
+                typeof left === 'string' && typeof right === 'string' ? [left, right] : await pickComparison(cwd);
+            if (sides) {
+                await ComparePanel.createOrShow(context.extensionUri, cwd, sides[0], sides[1]);
+            }
         }),
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.showCommitDetails', (commitHash: string) =>
+            graphProvider.showCommitDetails(commitHash),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.undoLastOperation', () => graphProvider.undoLastOperation()),
+    );
+
+    context.subscriptions.push(vscode.commands.registerCommand('git-lean.stash', () => stashOps.createStash()));
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.applyStash', (stashRef: string) => stashOps.applyStash(stashRef)),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.popStash', (stashRef: string) => stashOps.popStash(stashRef)),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.dropStash', (stashRef: string) => stashOps.dropStash(stashRef)),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.branchFromStash', (stashRef: string) =>
+            stashOps.branchFromStash(stashRef),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.showStash', (stashRef: string) =>
+            graphProvider.showStashDetails(stashRef),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.createTag', (commitHash: string) => tagOps.createTag(commitHash)),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.deleteTag', (tagName: string) => tagOps.deleteTag(tagName)),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.pushTag', (tagName: string) => tagOps.pushTag(tagName)),
+    );
+
+    context.subscriptions.push(vscode.commands.registerCommand('git-lean.pushAllTags', () => tagOps.pushAllTags()));
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.addWorktree', (item?: string | BranchTreeItem) =>
+            worktreeOps.addWorktree(typeof item === 'string' ? item : item?.branchName),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.removeWorktree', (worktreePath: string) =>
+            worktreeOps.removeWorktree(worktreePath),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.pruneWorktrees', () => worktreeOps.pruneWorktrees()),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.openWorktree', (worktreePath: string) =>
+            worktreeOps.openWorktree(worktreePath),
+        ),
+    );
+
+    // Submodule commands act on one submodule when given its path (from the branches view), otherwise on all
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.initSubmodule', (path?: unknown) =>
+            submoduleOps.initSubmodule(typeof path === 'string' ? path : undefined),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.updateSubmodule', (path?: unknown) =>
+            submoduleOps.updateSubmodule(typeof path === 'string' ? path : undefined),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.syncSubmodule', (path?: unknown) =>
+            submoduleOps.syncSubmodule(typeof path === 'string' ? path : undefined),
+        ),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.openCommitComposer', () => graphProvider.openCommitComposer()),
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.showConflicts', () => graphProvider.showConflicts()),
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('git-lean.deleteMultipleBranches', async (branchNames: string[]) => {
             if (!branchNames || branchNames.length === 0) {
                 return;
             }
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+            const cwd = repositories.selected;
+            if (!cwd) {
                 return;
             }
-            const cwd = workspaceFolders[0].uri.fsPath;
+
+            // Git refuses to delete a branch checked out in another worktree; leave those out up front
+            const worktrees = await getWorktrees(cwd);
+            const checkedOut = branchNames.filter((name) => worktrees.some((worktree) => worktree.branch === name));
+            if (checkedOut.length > 0) {
+                vscode.window.showWarningMessage(
+                    `Skipping ${checkedOut.length === 1 ? `'${checkedOut[0]}', which is` : `${checkedOut.length} branches`} checked out in a worktree`,
+                    { detail: checkedOut.join(', ') },
+                );
+                branchNames = branchNames.filter((name) => !checkedOut.includes(name));
+                if (branchNames.length === 0) {
+                    return;
+                }
+            }
 
             const label = branchNames.length === 1 ? `branch '${branchNames[0]}'` : `${branchNames.length} branches`;
             const confirm = await vscode.window.showWarningMessage(
@@ -260,68 +433,15 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const tryDelete = (
-                name: string,
-                force: boolean,
-            ): Promise<{ name: string; notMerged: boolean; error?: string }> =>
-                new Promise((resolve) => {
-                    cp.execFile('git', ['branch', force ? '-D' : '-d', name], { cwd }, (err, _stdout, stderr) => {
-                        if (err) {
-                            if (!force && stderr.includes('not fully merged')) {
-                                resolve({ name, notMerged: true });
-                            } else {
-                                resolve({ name, notMerged: false, error: stderr || err.message });
-                            }
-                        } else {
-                            resolve({ name, notMerged: false });
-                        }
-                    });
-                });
-
-            const results = await Promise.all(branchNames.map((name) => tryDelete(name, false)));
-            const notMerged = results.filter((r) => r.notMerged).map((r) => r.name);
-            const failed = results.filter((r) => !r.notMerged && r.error);
-            const deletedCount = results.filter((r) => !r.notMerged && !r.error).length;
-
-            if (failed.length > 0) {
-                vscode.window.showErrorMessage(`Failed to delete: ${failed.map((r) => r.name).join(', ')}`);
-            }
-
-            if (notMerged.length > 0) {
-                const notMergedLabel =
-                    notMerged.length === 1 ? `Branch '${notMerged[0]}' is` : `${notMerged.length} branches are`;
-                const forceConfirm = await vscode.window.showWarningMessage(
-                    `${notMergedLabel} not fully merged. Force delete?`,
-                    { detail: notMerged.join(', ') },
-                    'Force Delete',
-                    'Cancel',
-                );
-                if (forceConfirm === 'Force Delete') {
-                    const forceResults = await Promise.all(notMerged.map((name) => tryDelete(name, true)));
-                    const forceDeleted = forceResults.filter((r) => !r.error).length;
-                    const forceFailed = forceResults.filter((r) => r.error);
-                    if (forceFailed.length > 0) {
-                        vscode.window.showErrorMessage(
-                            `Failed to force delete: ${forceFailed.map((r) => r.name).join(', ')}`,
-                        );
-                    }
-                    const total = deletedCount + forceDeleted;
-                    if (total > 0) {
-                        vscode.window.showInformationMessage(`Deleted ${total} branch${total > 1 ? 'es' : ''}`);
-                    }
-                } else if (deletedCount > 0) {
-                    vscode.window.showInformationMessage(
-                        `Deleted ${deletedCount} branch${deletedCount > 1 ? 'es' : ''}`,
-                    );
-                }
-            } else if (deletedCount > 0) {
-                vscode.window.showInformationMessage(`Deleted ${deletedCount} branch${deletedCount > 1 ? 'es' : ''}`);
-            }
-
+            await deleteLocalBranches(cwd, branchNames);
             branchProvider.refresh();
         }),
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('git-lean.cleanUpBranches', () => branchOps.cleanUpBranches()),
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('git-lean.createBranch', async (branchTreeItem: BranchTreeItem) => {
             const sourceBranch = branchTreeItem.branchName;
@@ -331,35 +451,25 @@ export function activate(context: vscode.ExtensionContext) {
             const newBranchName = await vscode.window.showInputBox({
                 prompt: `Create new branch from '${sourceBranch}'`,
                 placeHolder: 'New branch name',
-                validateInput: (value) => {
-                    if (!value || !value.trim()) {
-                        return 'Branch name cannot be empty';
-                    }
-                    if (/[\s~^:?*\[\\]|\.\./.test(value)) {
-                        return 'Invalid branch name';
-                    }
-                    return null;
-                },
+                validateInput: (value) => validateRefName(value),
             });
 
             if (!newBranchName) {
                 return;
             }
 
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders) {
+            const cwd = repositories.selected;
+            if (!cwd) {
                 return;
             }
-
-            const cwd = workspaceFolders[0].uri.fsPath;
-            cp.execFile('git', ['checkout', '-b', newBranchName, sourceBranch], { cwd }, (error, _stdout, stderr) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Failed to create branch: ${stderr || error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage(`Created and switched to branch '${newBranchName}'`);
-                branchProvider.refresh();
-            });
+            try {
+                await runGit(cwd, ['checkout', '-b', newBranchName, sourceBranch]);
+            } catch (error) {
+                showGitError(`Failed to create branch: ${getErrorMessage(error)}`);
+                return;
+            }
+            vscode.window.showInformationMessage(`Created and switched to branch '${newBranchName}'`);
+            branchProvider.refresh();
         }),
     );
 }
@@ -1,40 +1,138 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import { GitOperations } from './gitOperations';
-import { getHtmlForWebview, getCommitDetailsHtml } from './webviewContent';
+import { getHtmlForWebview, getCommitDetailsHtml, getRebaseEditorHtml, type CommitDetailsData } from './webviewContent';
+import type { RebaseTodoEntry } from './rebaseTodo';
+import { getSequencerSession, type SequencerSession } from './sequencerSession';
+import { ConflictResolutionPanel } from './conflictView';
+import { CommitComposerPanel } from './commitComposer';
+import { GitError, runGit } from './gitRunner';
+import { OperationJournal } from './operationJournal';
+import { ReflogPanel } from './reflogView';
+import type { RepositoryManager } from './repositoryManager';
+import type { CommitSearch } from './commitSearch';
+import { DEFAULT_LOG_FILTERS, type LogFilters } from './logFilters';
+import type { PullOptions } from './pushPull';
 
 const PAGE_SIZE = 200;
 
+// Untracked files are diffed one by one, so only this many, up to this many bytes in all, are shown
+const MAX_UNTRACKED_FILES = 100;
+const MAX_UNTRACKED_BYTES = 2 * 1024 * 1024;
+
+// What an unborn HEAD is diffed against
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+// Filter bar settings per repository root
+const FILTERS_KEY = 'gitLean.logFilters';
+
 interface WebviewMessage {
     command: string;
     commitHash?: string;
     newMessage?: string;
     hashes?: string[];
     parentHash?: string;
+    repository?: string;
+    search?: CommitSearch;
+    filters?: LogFilters;
+    // Tags search results so the webview can drop pages of a search it has moved on from
+    searchId?: number;
+}
+
+interface RebaseEditorMessage {
+    command: 'startRebase' | 'cancel';
+    entries?: RebaseTodoEntry[];
 }
 
 export class GitGraphViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'gitLeanGraphView';
     private static currentPanel: vscode.WebviewPanel | undefined;
     private _view?: vscode.WebviewView;
-    private _watcher?: vscode.FileSystemWatcher;
-    private _filterBranch: string | null = null;
+    private readonly _disposables: vscode.Disposable[] = [];
+    // Refs picked in the branches view per repository root, so switching repositories and back keeps them.
+    // The graph shows just those refs together, or HEAD when there are none.
+    private readonly _filterRefsByRepo = new Map<string, string[]>();
     private _loadedCount = 0;
+    private _search: { id: number; search: CommitSearch; loadedCount: number } | null = null;
     private readonly _gitOps: GitOperations;
+    private readonly _journal: OperationJournal;
     private _refreshTimer?: ReturnType<typeof setTimeout>;
     private _initialized = false;
 
-    constructor(private readonly _extensionUri: vscode.Uri) {
-        this._gitOps = new GitOperations(() => this.refresh());
-        this.setupGitWatcher();
+    constructor(
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _workspaceState: vscode.Memento,
+        private readonly _repositories: RepositoryManager,
+    ) {
+        this._journal = new OperationJournal(_workspaceState);
+        this._gitOps = new GitOperations(() => this.refresh(), this._journal, _repositories);
+        this._disposables.push(
+            _repositories.onDidChangeRepository((root) => {
+                if (root === _repositories.selected) {
+                    this.debouncedRefresh();
+                }
+            }),
+            _repositories.onDidChangeSelection(() => this.reload()),
+        );
+    }
+
+    private get _filterRefs(): string[] {
+        const cwd = this._repositories.selected;
+        return cwd ? (this._filterRefsByRepo.get(cwd) ?? []) : [];
     }
 
-    public filterByBranch(branch: string | null) {
-        this._filterBranch = branch;
+    public filterByRefs(refs: string[]) {
+        const cwd = this._repositories.selected;
+        if (cwd) {
+            this._filterRefsByRepo.set(cwd, refs);
+        }
+        this.refresh();
+    }
+
+    private get _filters(): LogFilters {
+        const cwd = this._repositories.selected;
+        const saved = cwd ? this._workspaceState.get<Record<string, LogFilters>>(FILTERS_KEY, {})[cwd] : undefined;
+        return { ...DEFAULT_LOG_FILTERS, ...saved };
+    }
+
+    private async setFilters(filters: LogFilters) {
+        const cwd = this._repositories.selected;
+        if (!cwd) {
+            return;
+        }
+        const saved = this._workspaceState.get<Record<string, LogFilters>>(FILTERS_KEY, {});
+        await this._workspaceState.update(FILTERS_KEY, { ...saved, [cwd]: filters });
         this.refresh();
     }
 
-    public static createOrShow(extensionUri: vscode.Uri) {
+    private async pickFilterPath() {
+        const cwd = this._repositories.selected;
+        if (!cwd) {
+            return;
+        }
+        const uris = await vscode.window.showOpenDialog({
+            defaultUri: vscode.Uri.file(cwd),
+            canSelectFiles: true,
+            canSelectFolders: true,
+            openLabel: 'Filter',
+        });
+        if (!uris?.length) {
+            return;
+        }
+        const relative = path.relative(cwd, uris[0].fsPath);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            vscode.window.showWarningMessage(`'${uris[0].fsPath}' is outside the repository`);
+            return;
+        }
+        // Git pathspecs use forward slashes; picking the root itself clears the filter
+        await this.setFilters({ ...this._filters, path: relative.split(path.sep).join('/') });
+    }
+
+    public static createOrShow(
+        extensionUri: vscode.Uri,
+        workspaceState: vscode.Memento,
+        repositories: RepositoryManager,
+    ) {
         const column = vscode.window.activeTextEditor ? vscode.window.activeTextEditor.viewColumn : undefined;
 
         if (GitGraphViewProvider.currentPanel) {
@@ -54,11 +152,12 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
 
         GitGraphViewProvider.currentPanel = panel;
 
-        const provider = new GitGraphViewProvider(extensionUri);
+        const provider = new GitGraphViewProvider(extensionUri, workspaceState, repositories);
         provider.updateWebview(panel.webview);
 
         panel.onDidDispose(() => {
             GitGraphViewProvider.currentPanel = undefined;
+            provider.dispose();
         });
 
         panel.webview.onDidReceiveMessage((message) => provider.handleMessage(message, panel.webview));
@@ -89,6 +188,19 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             case 'loadMoreCommits':
                 this.loadMoreCommits(webview);
                 break;
+            case 'searchCommits':
+                this._search = { id: message.searchId!, search: message.search!, loadedCount: 0 };
+                this.loadMoreSearchResults(webview);
+                break;
+            case 'loadMoreSearchResults':
+                this.loadMoreSearchResults(webview);
+                break;
+            case 'setLogFilters':
+                this.setFilters(message.filters!);
+                break;
+            case 'pickFilterPath':
+                this.pickFilterPath();
+                break;
             case 'editCommitMessage':
                 this._gitOps.editCommitMessage(message.commitHash!, message.newMessage!);
                 break;
@@ -122,25 +234,59 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
             case 'dropCommits':
                 this._gitOps.dropCommits(message.hashes!, message.parentHash!);
                 break;
+            case 'interactiveRebase':
+                this.openRebaseEditor(message.hashes!, message.parentHash!);
+                break;
             case 'showCommitDetails':
                 this.showCommitDetails(message.commitHash!);
                 break;
+            case 'continueOperation':
+                this._gitOps.continueOperation();
+                break;
+            case 'skipOperation':
+                this._gitOps.skipOperation();
+                break;
+            case 'abortOperation':
+                this._gitOps.abortOperation();
+                break;
+            case 'createTag':
+                vscode.commands.executeCommand('git-lean.createTag', message.commitHash);
+                break;
+            case 'compareCommits':
+                // Hashes come newest first; the older commit is the base
+                vscode.commands.executeCommand('git-lean.compare', message.hashes![1], message.hashes![0]);
+                break;
+            case 'addWorktree':
+                vscode.commands.executeCommand('git-lean.addWorktree', message.commitHash);
+                break;
+            case 'showWorkingTreeChanges':
+                this.showWorkingTreeChanges();
+                break;
+            case 'openCommitComposer':
+                this.openCommitComposer();
+                break;
+            case 'stashWorkingTree':
+                vscode.commands.executeCommand('git-lean.stash');
+                break;
+            case 'discardWorkingTree':
+                this._gitOps.discardWorkingTree();
+                break;
+            case 'showConflicts':
+                this.showConflicts();
+                break;
+            case 'selectRepository':
+                this._repositories.select(message.repository!);
+                break;
         }
     }
 
-    private setupGitWatcher() {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            return;
+    // A different repository means different commits, so the view starts over instead of patching in place
+    private reload() {
+        if (this._view) {
+            this.updateWebview(this._view.webview);
+        } else if (GitGraphViewProvider.currentPanel) {
+            this.updateWebview(GitGraphViewProvider.currentPanel.webview);
         }
-
-        this._watcher = vscode.workspace.createFileSystemWatcher(
-            new vscode.RelativePattern(workspaceFolders[0], '.git/**'),
-        );
-
-        this._watcher.onDidChange(() => this.debouncedRefresh());
-        this._watcher.onDidCreate(() => this.debouncedRefresh());
-        this._watcher.onDidDelete(() => this.debouncedRefresh());
     }
 
     private debouncedRefresh() {
@@ -154,16 +300,21 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
         if (!this._initialized) {
             return;
         }
-        const commits = await this._gitOps.getGitLog(this._filterBranch, 0, PAGE_SIZE);
+        const filters = this._filters;
+        const commits = await this._gitOps.getGitLog(this._filterRefs, filters, 0, PAGE_SIZE);
+        const session = await this.getSession();
+        const workingTree = await this._gitOps.getWorkingTreeStatus();
         this._loadedCount = commits.length;
         const hasMore = commits.length === PAGE_SIZE;
-        const msg = { command: 'replaceCommits', commits, hasMore };
+        const msg = { command: 'replaceCommits', commits, hasMore, session, workingTree, filters };
         this._view?.webview.postMessage(msg);
         GitGraphViewProvider.currentPanel?.webview.postMessage(msg);
     }
 
     public dispose() {
-        this._watcher?.dispose();
+        for (const disposable of this._disposables) {
+            disposable.dispose();
+        }
     }
 
     // Delegated public methods so extension.ts commands can still call them on the provider
@@ -187,59 +338,263 @@ export class GitGraphViewProvider implements vscode.WebviewViewProvider {
         return this._gitOps.resetToCommit(commitHash);
     }
 
+    public async rebaseCurrentBranch(targetBranch: string) {
+        return this._gitOps.rebaseCurrentBranch(targetBranch);
+    }
+
+    public async mergeIntoCurrentBranch(sourceBranch: string) {
+        return this._gitOps.mergeIntoCurrentBranch(sourceBranch);
+    }
+
+    public async pull(options: PullOptions) {
+        return this._gitOps.pull(options);
+    }
+
+    public async undoLastOperation() {
+        return this._gitOps.undoLastOperation();
+    }
+
+    public async continueOperation() {
+        return this._gitOps.continueOperation();
+    }
+
+    public async skipOperation() {
+        return this._gitOps.skipOperation();
+    }
+
+    public async abortOperation() {
+        return this._gitOps.abortOperation();
+    }
+
+    public showConflicts() {
+        const cwd = this._repositories.selected;
+        if (!cwd) {
+            return;
+        }
+        ConflictResolutionPanel.createOrShow(this._extensionUri, cwd);
+    }
+
+    public openCommitComposer() {
+        const cwd = this._repositories.selected;
+        if (!cwd) {
+            return;
+        }
+        CommitComposerPanel.createOrShow(this._extensionUri, cwd, this._journal);
+    }
+
+    public showReflog() {
+        const cwd = this._repositories.selected;
+        if (!cwd) {
+            return;
+        }
+        ReflogPanel.createOrShow(this._extensionUri, cwd);
+    }
+
+    private async getSession(): Promise<SequencerSession | null> {
+        const cwd = this._repositories.selected;
+        return cwd ? getSequencerSession(cwd) : null;
+    }
+
     public async showCommitDetails(commitHash: string) {
-        const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const cwd = this._repositories.selected;
         if (!cwd) {
             return;
         }
 
-        const exec = (cmd: string, opts?: cp.ExecOptions) =>
-            new Promise<string>((resolve) => {
-                cp.exec(cmd, { cwd, ...opts }, (_err, stdout) => resolve(stdout ? String(stdout) : ''));
-            });
+        const patch = await this.exec(cwd, ['show', commitHash]);
+        await this.openCommitDetails(cwd, commitHash, `Commit ${commitHash.substring(0, 7)}`, patch);
+    }
 
-        const metaLines = (await exec(`git log -1 --format="%H%n%ae%n%an%n%aI%n%cI%n%s" ${commitHash}`)).split('\n');
-        const body = (await exec(`git log -1 --format="%b" ${commitHash}`)).trim();
-        const patch = await exec(`git show ${commitHash}`, { maxBuffer: 10 * 1024 * 1024 });
+    public async showStashDetails(stashRef: string) {
+        const cwd = this._repositories.selected;
+        if (!cwd) {
+            return;
+        }
 
-        const [
-            fullHash = commitHash,
-            authorEmail = '',
-            authorName = '',
-            authorDate = '',
-            commitDate = '',
-            subject = '',
-        ] = metaLines;
+        // A stash is a merge commit, so `git show` would print a combined diff; ask git stash for the real one.
+        // --include-untracked needs git 2.32; older versions fall back to tracked changes only.
+        let patch = await this.exec(cwd, ['stash', 'show', '-p', '--include-untracked', stashRef]);
+        if (!patch) {
+            patch = await this.exec(cwd, ['stash', 'show', '-p', stashRef]);
+        }
+        // parsePatch expects the diff to follow a commit header, as in `git show` output
+        await this.openCommitDetails(cwd, stashRef, stashRef, `${stashRef}\n${patch}`);
+    }
 
-        const panel = vscode.window.createWebviewPanel(
-            'gitLeanCommitDetails',
-            `Commit ${commitHash.substring(0, 7)}`,
-            vscode.ViewColumn.One,
-            { enableScripts: true },
+    public async showWorkingTreeChanges() {
+        const cwd = this._repositories.selected;
+        if (!cwd) {
+            return;
+        }
+
+        const status = await this._gitOps.getWorkingTreeStatus();
+        const head = await runGit(cwd, ['rev-parse', '--verify', '--quiet', 'HEAD']).then(
+            () => 'HEAD',
+            () => EMPTY_TREE,
         );
+        const tracked = await this.exec(cwd, ['diff', head]);
+        // Untracked files have no diff against HEAD; diff them against an empty file instead
+        const untracked = (await this.exec(cwd, ['ls-files', '--others', '--exclude-standard', '-z']))
+            .split('\0')
+            .filter(Boolean);
+        const untrackedDiffs: string[] = [];
+        let bytes = 0;
+        for (const file of untracked.slice(0, MAX_UNTRACKED_FILES)) {
+            const size = await fs.promises.stat(path.join(cwd, file)).then(
+                (stats) => stats.size,
+                () => 0,
+            );
+            if (bytes + size > MAX_UNTRACKED_BYTES) {
+                break;
+            }
+            bytes += size;
+            untrackedDiffs.push(await this.exec(cwd, ['diff', '--no-index', '--', '/dev/null', file]));
+        }
+        const omitted = untracked.length - untrackedDiffs.length;
+
+        const counts = status
+            ? `${status.staged} staged, ${status.unstaged} unstaged, ${status.untracked} untracked`
+            : '';
+        const body =
+            omitted > 0
+                ? `${counts}\n${omitted} untracked file${omitted > 1 ? 's are' : ' is'} not shown: too many or too large.`
+                : counts;
+        this.showDetailsPanel('Uncommitted Changes', {
+            fullHash: '',
+            authorEmail: '',
+            authorName: '',
+            authorDate: '',
+            commitDate: '',
+            subject: 'Uncommitted changes',
+            body,
+            // parsePatch expects the diff to follow a commit header, as in `git show` output
+            patch: `\n${tracked}${untrackedDiffs.join('')}`,
+        });
+    }
+
+    // Output is wanted even on a non-zero exit: `git diff --no-index` exits 1 whenever files differ
+    private async exec(cwd: string, args: string[]): Promise<string> {
+        try {
+            return (await runGit(cwd, args)).stdout;
+        } catch (error) {
+            return error instanceof GitError ? error.stdout : '';
+        }
+    }
+
+    private async openCommitDetails(cwd: string, rev: string, title: string, patch: string) {
+        const metaLines = (await this.exec(cwd, ['log', '-1', '--format=%H%n%ae%n%an%n%aI%n%cI%n%s', rev])).split('\n');
+        const body = (await this.exec(cwd, ['log', '-1', '--format=%b', rev])).trim();
+
+        const [fullHash = rev, authorEmail = '', authorName = '', authorDate = '', commitDate = '', subject = ''] =
+            metaLines;
+
+        this.showDetailsPanel(title, {
+            fullHash,
+            authorEmail,
+            authorName,
+            authorDate,
+            commitDate,
+            subject,
+            body,
+            patch,
+        });
+    }
+
+    private showDetailsPanel(title: string, data: CommitDetailsData) {
+        const panel = vscode.window.createWebviewPanel('gitLeanCommitDetails', title, vscode.ViewColumn.One, {
+            enableScripts: true,
+        });
 
         panel.webview.options = { enableScripts: true, localResourceRoots: [this._extensionUri] };
-        panel.webview.html = getCommitDetailsHtml(
-            panel.webview,
-            { fullHash, authorEmail, authorName, authorDate, commitDate, subject, body, patch },
-            this._extensionUri,
+        panel.webview.html = getCommitDetailsHtml(panel.webview, data, this._extensionUri);
+    }
+
+    public async openRebaseEditor(hashes: string[], parentHash: string) {
+        if (!parentHash) {
+            vscode.window.showErrorMessage('Cannot rebase: oldest selected commit has no parent.');
+            return;
+        }
+
+        // hashes are newest-first and consecutive, so parent..newest is exactly the selection
+        const commits = await this._gitOps.getCommitRange(parentHash, hashes[0]);
+        if (commits.length === 0) {
+            return;
+        }
+        const entries: RebaseTodoEntry[] = commits.map((c) => ({
+            hash: c.hash,
+            shortHash: c.shortHash,
+            action: 'pick',
+            message: c.message,
+        }));
+
+        const panel = vscode.window.createWebviewPanel(
+            'gitLeanRebaseEditor',
+            `Interactive Rebase (${entries.length} commits)`,
+            vscode.ViewColumn.One,
+            { enableScripts: true, localResourceRoots: [this._extensionUri] },
         );
+        panel.webview.html = getRebaseEditorHtml(panel.webview, { parentHash, entries }, this._extensionUri);
+
+        panel.webview.onDidReceiveMessage(async (message: RebaseEditorMessage) => {
+            if (message.command === 'startRebase') {
+                if (await this._gitOps.interactiveRebase(parentHash, message.entries!)) {
+                    panel.dispose();
+                }
+            } else if (message.command === 'cancel') {
+                panel.dispose();
+            }
+        });
     }
 
     private async updateWebview(webview: vscode.Webview) {
         this._initialized = false;
         this._loadedCount = 0;
-        const commits = await this._gitOps.getGitLog(this._filterBranch, 0, PAGE_SIZE);
+        const filters = this._filters;
+        const commits = await this._gitOps.getGitLog(this._filterRefs, filters, 0, PAGE_SIZE);
+        const session = await this.getSession();
+        const workingTree = await this._gitOps.getWorkingTreeStatus();
         this._loadedCount = commits.length;
         const hasMore = commits.length === PAGE_SIZE;
-        webview.html = getHtmlForWebview(webview, commits, hasMore, this._extensionUri);
+        webview.html = getHtmlForWebview(
+            webview,
+            commits,
+            hasMore,
+            session,
+            workingTree,
+            filters,
+            this._repositories.getSelection(),
+            this._extensionUri,
+        );
         this._initialized = true;
     }
 
     private async loadMoreCommits(webview: vscode.Webview) {
-        const commits = await this._gitOps.getGitLog(this._filterBranch, this._loadedCount, PAGE_SIZE);
+        const commits = await this._gitOps.getGitLog(this._filterRefs, this._filters, this._loadedCount, PAGE_SIZE);
         this._loadedCount += commits.length;
         const hasMore = commits.length === PAGE_SIZE;
         webview.postMessage({ command: 'appendCommits', commits, hasMore });
     }
+
+    private async loadMoreSearchResults(webview: vscode.Webview) {
+        const current = this._search;
+        if (!current) {
+            return;
+        }
+        const commits = await this._gitOps.searchCommits(
+            this._filterRefs,
+            this._filters,
+            current.search,
+            current.loadedCount,
+            PAGE_SIZE,
+        );
+        current.loadedCount += commits.length;
+        const hasMore = commits.length === PAGE_SIZE;
+        webview.postMessage({
+            command: 'searchResults',
+            searchId: current.id,
+            commits,
+            hasMore,
+            append: current.loadedCount > commits.length,
+        });
+    }
 }
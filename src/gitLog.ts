@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import { formatGitCommand, onGitInvocation, type GitInvocation } from './gitRunner';
+
+let channel: vscode.LogOutputChannel | undefined;
+
+function logInvocation(log: vscode.LogOutputChannel, invocation: GitInvocation) {
+    const status = invocation.exitCode === null ? 'did not exit' : `exit ${invocation.exitCode}`;
+    const line = `${formatGitCommand(invocation.args)}  (${invocation.durationMs} ms, ${status}, cwd ${invocation.cwd})`;
+    const stderr = invocation.stderr.trimEnd();
+    const details = stderr ? `\n${stderr.replace(/^/gm, '    ')}` : '';
+
+    if (invocation.exitCode === 0) {
+        log.info(line + details);
+    } else {
+        log.error(line + details);
+    }
+}
+
+// Creates the "Git Lean" output channel and records every git command the extension runs in it
+export function registerGitLog(context: vscode.ExtensionContext) {
+    const log = vscode.window.createOutputChannel('Git Lean', { log: true });
+    channel = log;
+    const unsubscribe = onGitInvocation((invocation) => logInvocation(log, invocation));
+
+    context.subscriptions.push(
+        log,
+        { dispose: unsubscribe },
+        vscode.commands.registerCommand('git-lean.showLog', () => log.show(true)),
+    );
+}
+
+// Error notification with a button that opens the command log. Not awaited by callers: the
+// promise only settles when the notification is dismissed.
+export function showGitError(message: string) {
+    vscode.window.showErrorMessage(message, 'Show Log').then((choice) => {
+        if (choice === 'Show Log') {
+            channel?.show(true);
+        }
+    });
+}
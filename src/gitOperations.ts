@@ -1,43 +1,183 @@
 import * as vscode from 'vscode';
-import * as cp from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { parseGitLogOutput, type GitCommit } from './gitParser';
+import {
+    LOG_FORMAT,
+    parseGitLogOutput,
+    parseStatusPorcelainV2,
+    type GitCommit,
+    type WorkingTreeStatus,
+} from './gitParser';
+import {
+    ACTION_PROGRESS_LABELS,
+    OPERATION_LABELS,
+    canSkip,
+    getSequencerActionArgs,
+    getSequencerSession,
+    type SequencerAction,
+    type SequencerOperation,
+} from './sequencerSession';
+import {
+    amendMessageLine,
+    formatRebaseTodo,
+    messageFileName,
+    rewordMessageFiles,
+    validateRebaseTodo,
+    type RebaseTodoEntry,
+} from './rebaseTodo';
+import { getErrorMessage, runGit, type GitResult } from './gitRunner';
+import { showGitError } from './gitLog';
+import {
+    checkUndo,
+    getHeadState,
+    shortRefName,
+    type HeadState,
+    type OperationJournal,
+    type UndoMode,
+} from './operationJournal';
+import type { RepositoryManager } from './repositoryManager';
+import { buildSearchArgs, isHashPrefix, type CommitSearch } from './commitSearch';
+import {
+    buildLogArgs,
+    buildParentWalkArgs,
+    hidesCommits,
+    parseParentWalk,
+    simplifyParents,
+    type ListedHistory,
+    type LogFilters,
+} from './logFilters';
+import { buildPullArgs, type PullOptions } from './pushPull';
+import { claimRepository, runGitWithProgress, showRepositoryBusy } from './gitProgress';
 
-export type { GitCommit } from './gitParser';
+export type { GitCommit, WorkingTreeStatus } from './gitParser';
 
 export class GitOperations {
-    constructor(private readonly onRefresh: () => void) {}
+    // What the current filters list and the parents they are linked through; see getListedHistory
+    private listedHistory: { key: string; history: ListedHistory } | undefined;
+
+    constructor(
+        private readonly onRefresh: () => void,
+        private readonly journal: OperationJournal,
+        private readonly repositories: RepositoryManager,
+    ) {}
 
     private getCwd(): string | null {
-        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+        return this.repositories.selected;
     }
 
-    async getGitLog(filterBranch: string | null, skip = 0, limit = 200): Promise<GitCommit[]> {
-        return new Promise((resolve) => {
-            const cwd = this.getCwd();
-            if (!cwd) {
-                resolve([]);
-                return;
+    // Lists a page of the graph of the selected refs (or HEAD) narrowed down by the filter bar. searchArgs
+    // narrow it further to the commits matching a search.
+    async getGitLog(
+        filterRefs: string[],
+        filters: LogFilters,
+        skip = 0,
+        limit = 200,
+        searchArgs: string[] = [],
+    ): Promise<GitCommit[]> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return [];
+        }
+
+        const page = { skip, limit };
+        const args = [
+            'log',
+            '--decorate=full',
+            `--pretty=format:${LOG_FORMAT}`,
+            ...buildLogArgs(filterRefs, filters, page, searchArgs),
+        ];
+
+        try {
+            const { stdout } = await runGit(cwd, args);
+            const commits = parseGitLogOutput(stdout);
+            if (!hidesCommits(filters) && searchArgs.length === 0) {
+                return simplifyParents(commits, filters);
             }
+            return simplifyParents(
+                commits,
+                filters,
+                await this.getListedHistory(cwd, filterRefs, filters, skip, searchArgs),
+            );
+        } catch (error) {
+            showGitError(`Git error: ${getErrorMessage(error)}`);
+            return [];
+        }
+    }
 
-            const branchArg = filterBranch ? ` ${filterBranch}` : '';
-            const skipArg = skip > 0 ? ` --skip=${skip}` : '';
-            const gitCommand = `git log${branchArg}${skipArg} --max-count=${limit} --pretty=format:"%H|%h|%P|%an|%ai|%D|%s" --date-order`;
+    // Both walk the whole history, so they are read with the first page and reused for the following ones
+    // until the filters, the refs or HEAD change
+    private async getListedHistory(
+        cwd: string,
+        filterRefs: string[],
+        filters: LogFilters,
+        skip: number,
+        searchArgs: string[],
+    ): Promise<ListedHistory> {
+        const head = await runGit(cwd, ['rev-parse', '--verify', '--quiet', 'HEAD']).then(
+            ({ stdout }) => stdout.trim(),
+            () => '',
+        );
+        const key = JSON.stringify([cwd, head, filterRefs, filters, searchArgs]);
+        if (skip > 0 && this.listedHistory?.key === key) {
+            return this.listedHistory.history;
+        }
 
-            cp.exec(gitCommand, { cwd, maxBuffer: 100 * 1024 * 1024 }, (error, stdout) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Git error: ${error.message}`);
-                    resolve([]);
-                    return;
-                }
+        const [{ stdout: listed }, { stdout: walk }] = await Promise.all([
+            runGit(cwd, ['log', '--pretty=format:%H', ...buildLogArgs(filterRefs, filters, null, searchArgs)]),
+            runGit(cwd, ['rev-list', ...buildParentWalkArgs(filterRefs, filters)]),
+        ]);
+        const history = { listed: new Set(listed.split('\n').filter(Boolean)), parents: parseParentWalk(walk) };
+        this.listedHistory = { key, history };
+        return history;
+    }
 
-                const commits = parseGitLogOutput(stdout);
+    // Searches the whole history of the graph's refs (or HEAD) within the filters, a page at a time. A hash
+    // search looks through every commit in the repository instead and returns all matches in its first page.
+    async searchCommits(
+        filterRefs: string[],
+        filters: LogFilters,
+        search: CommitSearch,
+        skip = 0,
+        limit = 200,
+    ): Promise<GitCommit[]> {
+        if (search.mode !== 'hash') {
+            return this.getGitLog(filterRefs, filters, skip, limit, buildSearchArgs(search));
+        }
 
-                resolve(commits);
+        const cwd = this.getCwd();
+        if (!cwd || skip > 0 || !isHashPrefix(search.query)) {
+            return [];
+        }
+        try {
+            const { stdout } = await runGit(cwd, ['rev-parse', `--disambiguate=${search.query.toLowerCase()}`]);
+            // The prefix can also match trees and blobs
+            const candidates = stdout.split('\n').filter(Boolean);
+            const { stdout: types } = await runGit(cwd, ['cat-file', '--batch-check=%(objectname) %(objecttype)'], {
+                input: candidates.join('\n') + '\n',
             });
-        });
+            const commits = types
+                .split('\n')
+                .map((line) => line.split(' '))
+                .filter(([hash, type]) => hash && type === 'commit')
+                .map(([hash]) => hash);
+            if (commits.length === 0) {
+                return [];
+            }
+            const { stdout: log } = await runGit(cwd, [
+                'log',
+                '--no-walk',
+                '--decorate=full',
+                `--pretty=format:${LOG_FORMAT}`,
+                ...commits,
+                '--',
+            ]);
+            // The matches are unrelated commits; only links between them are drawn
+            return simplifyParents(parseGitLogOutput(log), filters, { listed: new Set(commits), parents: new Map() });
+        } catch (error) {
+            showGitError(`Search failed: ${getErrorMessage(error)}`);
+            return [];
+        }
     }
 
     async editCommitMessage(commitHash: string, newMessage?: string) {
@@ -49,21 +189,20 @@ export class GitOperations {
             return;
         }
 
-        const headHash = await new Promise<string>((resolve) => {
-            cp.exec('git rev-parse HEAD', { cwd }, (err, stdout) => resolve(err ? '' : stdout.trim()));
-        });
+        const before = await getHeadState(cwd);
+        const label = `Edit message of ${commitHash.substring(0, 7)}`;
 
-        const escaped = newMessage.replace(/"/g, '\\"');
-
-        if (commitHash === headHash) {
-            cp.exec(`git commit --amend -m "${escaped}"`, { cwd }, (error) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Failed to edit commit message: ${error.message}`);
-                    return;
-                }
-                vscode.window.showInformationMessage('Commit message updated successfully');
-                this.onRefresh();
-            });
+        if (commitHash === before?.hash) {
+            try {
+                await runGit(cwd, ['commit', '--amend', '-m', newMessage]);
+            } catch (error) {
+                showGitError(`Failed to edit commit message: ${getErrorMessage(error)}`);
+                return;
+            }
+            // Soft, so undoing also keeps anything that was staged when the message was edited
+            await this.recordOperation(cwd, label, before, 'soft');
+            vscode.window.showInformationMessage('Commit message updated successfully');
+            this.onRefresh();
         } else {
             const seqEditorScript = `
 const fs = require('fs');
@@ -73,45 +212,80 @@ const lines = fs.readFileSync(file, 'utf8').split('\\n');
 const result = lines.map(line => {
     const parts = line.trim().split(/\\s+/);
     if ((parts[0] === 'pick' || parts[0] === 'p') && parts[1] && targetHash.startsWith(parts[1])) {
-        return 'reword ' + parts.slice(1).join(' ');
+        return line + '\\n' + ${JSON.stringify(amendMessageLine(messageFileName(0)))};
     }
     return line;
 });
 fs.writeFileSync(file, result.join('\\n'));
 `;
-            const msgEditorScript = `
-const fs = require('fs');
-fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
-`;
-
-            const tmpDir = os.tmpdir();
-            const seqEditorPath = path.join(tmpDir, 'git-lean-seq-editor.js');
-            const msgEditorPath = path.join(tmpDir, 'git-lean-msg-editor.js');
-            fs.writeFileSync(seqEditorPath, seqEditorScript);
-            fs.writeFileSync(msgEditorPath, msgEditorScript);
 
-            const env = {
-                ...process.env,
-                GIT_SEQUENCE_EDITOR: `node "${seqEditorPath}"`,
-                GIT_EDITOR: `node "${msgEditorPath}"`,
-            };
-
-            cp.exec(`git rebase -i ${commitHash}~1`, { cwd, env }, (error, _stdout, stderr) => {
-                try {
-                    fs.unlinkSync(seqEditorPath);
-                } catch {}
-                try {
-                    fs.unlinkSync(msgEditorPath);
-                } catch {}
-                if (error) {
-                    cp.exec('git rebase --abort', { cwd }, () => {});
-                    vscode.window.showErrorMessage(`Failed to edit commit message: ${error.message}\n${stderr}`);
+            try {
+                const finished = await this.runWithTodoEditor(
+                    cwd,
+                    ['rebase', '-i', `${commitHash}~1`],
+                    'Editing commit message…',
+                    seqEditorScript,
+                    { [messageFileName(0)]: newMessage + '\n' },
+                );
+                if (!finished) {
+                    this.onRefresh();
                     return;
                 }
-                vscode.window.showInformationMessage('Commit message updated successfully');
-                this.onRefresh();
-            });
+            } catch (error) {
+                await this.handleSequencerFailure(
+                    cwd,
+                    `Failed to edit commit message: ${getErrorMessage(error)}`,
+                    true,
+                );
+                return;
+            }
+            await this.recordOperation(cwd, label, before);
+            vscode.window.showInformationMessage('Commit message updated successfully');
+            this.onRefresh();
+        }
+    }
+
+    async getWorkingTreeStatus(): Promise<WorkingTreeStatus | null> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return null;
+        }
+        try {
+            const { stdout } = await runGit(cwd, ['status', '--porcelain=v2']);
+            return parseStatusPorcelainV2(stdout);
+        } catch {
+            return null;
+        }
+    }
+
+    async discardWorkingTree() {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            'Discard all uncommitted changes, including untracked files? This cannot be undone.',
+            'Discard All',
+            'Cancel',
+        );
+        if (confirm !== 'Discard All') {
+            return;
+        }
+
+        try {
+            await runGit(cwd, ['reset', '--hard', 'HEAD']);
+        } catch (error) {
+            showGitError(`Failed to discard changes: ${getErrorMessage(error)}`);
+            return;
+        }
+        try {
+            await runGit(cwd, ['clean', '-fd']);
+            vscode.window.showInformationMessage('Discarded all uncommitted changes');
+        } catch (error) {
+            showGitError(`Discarded tracked changes, but failed to remove untracked files: ${getErrorMessage(error)}`);
         }
+        this.onRefresh();
     }
 
     async amendCommit() {
@@ -129,14 +303,17 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
             return;
         }
 
-        cp.execFile('git', ['commit', '--amend', '--no-edit'], { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to amend commit: ${stderr || error.message}`);
-                return;
-            }
-            vscode.window.showInformationMessage('Commit amended successfully');
-            this.onRefresh();
-        });
+        const before = await getHeadState(cwd);
+        try {
+            await runGit(cwd, ['commit', '--amend', '--no-edit']);
+        } catch (error) {
+            showGitError(`Failed to amend commit: ${getErrorMessage(error)}`);
+            return;
+        }
+        // Soft, so undoing leaves the amended changes staged instead of throwing them away
+        await this.recordOperation(cwd, 'Amend HEAD commit', before, 'soft');
+        vscode.window.showInformationMessage('Commit amended successfully');
+        this.onRefresh();
     }
 
     async cherryPickCommit(commitHash: string) {
@@ -145,14 +322,17 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
             return;
         }
 
-        cp.exec(`git cherry-pick ${commitHash}`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to cherry-pick commit: ${error.message}\n${stderr}`);
+        try {
+            if (!(await runGitWithProgress(cwd, ['cherry-pick', commitHash], 'Cherry-picking…'))) {
+                this.onRefresh();
                 return;
             }
-            vscode.window.showInformationMessage('Commit cherry-picked successfully');
-            this.onRefresh();
-        });
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Failed to cherry-pick commit: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage('Commit cherry-picked successfully');
+        this.onRefresh();
     }
 
     async copyCommitHash(commitHash: string) {
@@ -175,19 +355,22 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
             return;
         }
 
-        cp.exec(`git revert ${commitHash} --no-edit`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to revert commit: ${error.message}\n${stderr}`);
+        try {
+            if (!(await runGitWithProgress(cwd, ['revert', '--no-edit', commitHash], 'Reverting…'))) {
+                this.onRefresh();
                 return;
             }
-            vscode.window.showInformationMessage('Commit reverted successfully');
-            this.onRefresh();
-        });
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Failed to revert commit: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage('Commit reverted successfully');
+        this.onRefresh();
     }
 
     async dropCommit(commitHash: string) {
         const confirm = await vscode.window.showWarningMessage(
-            `Are you sure you want to permanently drop commit ${commitHash.substring(0, 7)}? This cannot be undone.`,
+            `Are you sure you want to drop commit ${commitHash.substring(0, 7)}? Use Undo Last Operation to bring it back.`,
             'Drop',
             'Cancel',
         );
@@ -200,22 +383,34 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
             return;
         }
 
-        cp.exec(`git rebase --onto ${commitHash}^ ${commitHash}`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to drop commit: ${error.message}\n${stderr}`);
+        const before = await getHeadState(cwd);
+        try {
+            if (
+                !(await runGitWithProgress(cwd, ['rebase', '--onto', `${commitHash}^`, commitHash], 'Dropping commit…'))
+            ) {
+                this.onRefresh();
                 return;
             }
-            vscode.window.showInformationMessage('Commit dropped successfully');
-            this.onRefresh();
-        });
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Failed to drop commit: ${getErrorMessage(error)}`);
+            return;
+        }
+        await this.recordOperation(cwd, `Drop commit ${commitHash.substring(0, 7)}`, before);
+        vscode.window.showInformationMessage('Commit dropped successfully');
+        this.onRefresh();
     }
 
     async resetToCommit(commitHash: string) {
         const resetType = await vscode.window.showQuickPick(
             [
-                { label: 'Soft', description: 'Keep changes staged', value: '--soft' },
-                { label: 'Mixed', description: 'Keep changes unstaged', value: '--mixed' },
-                { label: 'Hard', description: 'Discard all changes', value: '--hard' },
+                { label: 'Soft', description: 'Keep changes staged', value: '--soft', undoMode: 'soft' as UndoMode },
+                {
+                    label: 'Mixed',
+                    description: 'Keep changes unstaged',
+                    value: '--mixed',
+                    undoMode: 'mixed' as UndoMode,
+                },
+                { label: 'Hard', description: 'Discard all changes', value: '--hard', undoMode: 'hard' as UndoMode },
             ],
             { placeHolder: 'Select reset type' },
         );
@@ -237,14 +432,21 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
             return;
         }
 
-        cp.exec(`git reset ${resetType.value} ${commitHash}`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to reset: ${error.message}\n${stderr}`);
-                return;
-            }
-            vscode.window.showInformationMessage(`Reset to commit ${commitHash.substring(0, 7)} successfully`);
-            this.onRefresh();
-        });
+        const before = await getHeadState(cwd);
+        try {
+            await runGit(cwd, ['reset', resetType.value, commitHash]);
+        } catch (error) {
+            showGitError(`Failed to reset: ${getErrorMessage(error)}`);
+            return;
+        }
+        await this.recordOperation(
+            cwd,
+            `Reset (${resetType.label.toLowerCase()}) to ${commitHash.substring(0, 7)}`,
+            before,
+            resetType.undoMode,
+        );
+        vscode.window.showInformationMessage(`Reset to commit ${commitHash.substring(0, 7)} successfully`);
+        this.onRefresh();
     }
 
     async squashCommits(hashes: string[], parentHash: string) {
@@ -267,27 +469,26 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
             return;
         }
 
-        const headHash = await new Promise<string>((resolve) => {
-            cp.exec('git rev-parse HEAD', { cwd }, (err, stdout) => resolve(err ? '' : stdout.trim()));
-        });
+        const before = await getHeadState(cwd);
+        const label = `Squash ${hashes.length} commits`;
 
-        if (hashes[0] === headHash) {
+        if (hashes[0] === before?.hash) {
             // Selection ends at HEAD — simple reset + commit
-            const escaped = newMessage.replace(/"/g, '\\"');
-            cp.exec(`git reset --soft ${parentHash}`, { cwd }, (error) => {
-                if (error) {
-                    vscode.window.showErrorMessage(`Failed to squash: ${error.message}`);
-                    return;
-                }
-                cp.exec(`git commit -m "${escaped}"`, { cwd }, (err2) => {
-                    if (err2) {
-                        vscode.window.showErrorMessage(`Failed to commit squash: ${err2.message}`);
-                        return;
-                    }
-                    vscode.window.showInformationMessage(`Squashed ${hashes.length} commits successfully`);
-                    this.onRefresh();
-                });
-            });
+            try {
+                await runGit(cwd, ['reset', '--soft', parentHash]);
+            } catch (error) {
+                showGitError(`Failed to squash: ${getErrorMessage(error)}`);
+                return;
+            }
+            try {
+                await runGit(cwd, ['commit', '-m', newMessage]);
+            } catch (error) {
+                showGitError(`Failed to commit squash: ${getErrorMessage(error)}`);
+                return;
+            }
+            await this.recordOperation(cwd, label, before);
+            vscode.window.showInformationMessage(`Squashed ${hashes.length} commits successfully`);
+            this.onRefresh();
         } else {
             // Selection is in the middle — use interactive rebase with scripted editors.
             // hashes[hashes.length-1] is the oldest selected (stays 'pick');
@@ -299,49 +500,42 @@ const fs = require('fs');
 const file = process.argv[2];
 const squashHashes = ${JSON.stringify(squashableHashes)};
 const lines = fs.readFileSync(file, 'utf8').split('\\n');
-const result = lines.map(line => {
+let lastSquash = -1;
+const result = lines.map((line, i) => {
     const parts = line.trim().split(/\\s+/);
     if ((parts[0] === 'pick' || parts[0] === 'p') && parts[1]) {
         if (squashHashes.some(h => h.startsWith(parts[1]))) {
+            lastSquash = i;
             return 'squash ' + parts.slice(1).join(' ');
         }
     }
     return line;
 });
+if (lastSquash !== -1) {
+    result[lastSquash] += '\\n' + ${JSON.stringify(amendMessageLine(messageFileName(0)))};
+}
 fs.writeFileSync(file, result.join('\\n'));
 `;
-            const msgEditorScript = `
-const fs = require('fs');
-fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
-`;
-
-            const tmpDir = os.tmpdir();
-            const seqEditorPath = path.join(tmpDir, 'git-lean-seq-editor.js');
-            const msgEditorPath = path.join(tmpDir, 'git-lean-msg-editor.js');
-            fs.writeFileSync(seqEditorPath, seqEditorScript);
-            fs.writeFileSync(msgEditorPath, msgEditorScript);
 
-            const env = {
-                ...process.env,
-                GIT_SEQUENCE_EDITOR: `node "${seqEditorPath}"`,
-                GIT_EDITOR: `node "${msgEditorPath}"`,
-            };
-
-            cp.exec(`git rebase -i ${parentHash}`, { cwd, env }, (error, _stdout, stderr) => {
-                try {
-                    fs.unlinkSync(seqEditorPath);
-                } catch {}
-                try {
-                    fs.unlinkSync(msgEditorPath);
-                } catch {}
-                if (error) {
-                    cp.exec('git rebase --abort', { cwd }, () => {});
-                    vscode.window.showErrorMessage(`Failed to squash: ${error.message}\n${stderr}`);
+            try {
+                const finished = await this.runWithTodoEditor(
+                    cwd,
+                    ['rebase', '-i', parentHash],
+                    'Squashing…',
+                    seqEditorScript,
+                    { [messageFileName(0)]: newMessage + '\n' },
+                );
+                if (!finished) {
+                    this.onRefresh();
                     return;
                 }
-                vscode.window.showInformationMessage(`Squashed ${hashes.length} commits successfully`);
-                this.onRefresh();
-            });
+            } catch (error) {
+                await this.handleSequencerFailure(cwd, `Failed to squash: ${getErrorMessage(error)}`, true);
+                return;
+            }
+            await this.recordOperation(cwd, label, before);
+            vscode.window.showInformationMessage(`Squashed ${hashes.length} commits successfully`);
+            this.onRefresh();
         }
     }
 
@@ -361,14 +555,23 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
         }
 
         // hashes are newest-first; revert in that order so each revert applies cleanly
-        cp.exec(`git revert ${hashes.join(' ')} --no-edit`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to revert commits: ${error.message}\n${stderr}`);
+        try {
+            if (
+                !(await runGitWithProgress(
+                    cwd,
+                    ['revert', '--no-edit', ...hashes],
+                    `Reverting ${hashes.length} commits…`,
+                ))
+            ) {
+                this.onRefresh();
                 return;
             }
-            vscode.window.showInformationMessage(`Reverted ${hashes.length} commits successfully`);
-            this.onRefresh();
-        });
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Failed to revert commits: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Reverted ${hashes.length} commits successfully`);
+        this.onRefresh();
     }
 
     async dropCommits(hashes: string[], parentHash: string) {
@@ -378,7 +581,7 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
         }
 
         const confirm = await vscode.window.showWarningMessage(
-            `Are you sure you want to permanently drop ${hashes.length} commits? This cannot be undone.`,
+            `Are you sure you want to drop ${hashes.length} commits? Use Undo Last Operation to bring them back.`,
             'Drop',
             'Cancel',
         );
@@ -392,14 +595,25 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
         }
 
         // hashes[0] is newest; rebase everything after it onto parentHash, dropping the whole range
-        cp.exec(`git rebase --onto ${parentHash} ${hashes[0]}`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to drop commits: ${error.message}\n${stderr}`);
+        const before = await getHeadState(cwd);
+        try {
+            if (
+                !(await runGitWithProgress(
+                    cwd,
+                    ['rebase', '--onto', parentHash, hashes[0]],
+                    `Dropping ${hashes.length} commits…`,
+                ))
+            ) {
+                this.onRefresh();
                 return;
             }
-            vscode.window.showInformationMessage(`Dropped ${hashes.length} commits successfully`);
-            this.onRefresh();
-        });
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Failed to drop commits: ${getErrorMessage(error)}`);
+            return;
+        }
+        await this.recordOperation(cwd, `Drop ${hashes.length} commits`, before);
+        vscode.window.showInformationMessage(`Dropped ${hashes.length} commits successfully`);
+        this.onRefresh();
     }
 
     async cherryPickRange(hashes: string[]) {
@@ -409,14 +623,427 @@ fs.writeFileSync(process.argv[2], ${JSON.stringify(newMessage + '\n')});
         }
 
         // hashes are newest-first; cherry-pick oldest to newest
-        const ordered = [...hashes].reverse().join(' ');
-        cp.exec(`git cherry-pick ${ordered}`, { cwd }, (error, _stdout, stderr) => {
-            if (error) {
-                vscode.window.showErrorMessage(`Failed to cherry-pick: ${error.message}\n${stderr}`);
+        try {
+            const result = await runGitWithProgress(
+                cwd,
+                ['cherry-pick', ...[...hashes].reverse()],
+                `Cherry-picking ${hashes.length} commits…`,
+            );
+            if (!result) {
+                this.onRefresh();
+                return;
+            }
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Failed to cherry-pick: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Cherry-picked ${hashes.length} commits successfully`);
+        this.onRefresh();
+    }
+
+    async getCommitRange(parentHash: string, newestHash: string): Promise<GitCommit[]> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return [];
+        }
+
+        try {
+            const { stdout } = await runGit(cwd, [
+                'log',
+                '--reverse',
+                '--decorate=full',
+                `--pretty=format:${LOG_FORMAT}`,
+                `${parentHash}..${newestHash}`,
+            ]);
+            return parseGitLogOutput(stdout);
+        } catch {
+            return [];
+        }
+    }
+
+    async interactiveRebase(parentHash: string, entries: RebaseTodoEntry[]): Promise<boolean> {
+        const validationError = validateRebaseTodo(entries);
+        if (validationError) {
+            vscode.window.showErrorMessage(validationError);
+            return false;
+        }
+
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return false;
+        }
+
+        // The todo git generates also lists any commits above the edited range; those lines are kept
+        // and only the range is replaced, in place, with the edited entries.
+        const seqEditorScript = `
+const fs = require('fs');
+const file = process.argv[2];
+const rangeHashes = ${JSON.stringify(entries.map((e) => e.hash))};
+const todo = ${JSON.stringify(formatRebaseTodo(entries))};
+const lines = fs.readFileSync(file, 'utf8').split('\\n');
+const result = [];
+let inserted = false;
+for (const line of lines) {
+    const parts = line.trim().split(/\\s+/);
+    if ((parts[0] === 'pick' || parts[0] === 'p') && parts[1] && rangeHashes.some(h => h.startsWith(parts[1]))) {
+        if (!inserted) {
+            result.push(...todo);
+            inserted = true;
+        }
+        continue;
+    }
+    result.push(line);
+}
+fs.writeFileSync(file, result.join('\\n'));
+`;
+        const before = await getHeadState(cwd);
+        try {
+            const finished = await this.runWithTodoEditor(
+                cwd,
+                ['rebase', '-i', parentHash],
+                'Rebasing…',
+                seqEditorScript,
+                rewordMessageFiles(entries),
+            );
+            if (!finished) {
+                this.onRefresh();
+                return false;
+            }
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Interactive rebase failed: ${getErrorMessage(error)}`, true);
+            return false;
+        }
+        await this.recordOperation(cwd, `Interactive rebase of ${entries.length} commits`, before);
+        vscode.window.showInformationMessage(`Rebased ${entries.length} commits successfully`);
+        this.onRefresh();
+        return true;
+    }
+
+    async rebaseCurrentBranch(targetBranch: string): Promise<void> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const before = await getHeadState(cwd);
+        try {
+            if (!(await runGitWithProgress(cwd, ['rebase', targetBranch], `Rebasing onto ${targetBranch}…`))) {
+                this.onRefresh();
+                return;
+            }
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Rebase failed: ${getErrorMessage(error)}`, true);
+            return;
+        }
+        await this.recordOperation(cwd, `Rebase onto '${targetBranch}'`, before);
+        vscode.window.showInformationMessage(`Rebased onto '${targetBranch}' successfully`);
+        this.onRefresh();
+    }
+
+    async mergeIntoCurrentBranch(sourceBranch: string): Promise<void> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const before = await getHeadState(cwd);
+        try {
+            if (!(await runGitWithProgress(cwd, ['merge', sourceBranch], `Merging ${sourceBranch}…`))) {
+                this.onRefresh();
                 return;
             }
-            vscode.window.showInformationMessage(`Cherry-picked ${hashes.length} commits successfully`);
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Merge failed: ${getErrorMessage(error)}`);
+            return;
+        }
+        await this.recordOperation(cwd, `Merge '${sourceBranch}'`, before);
+        vscode.window.showInformationMessage(`Merged '${sourceBranch}' successfully`);
+        this.onRefresh();
+    }
+
+    // A merge or rebase pull can stop on conflicts like any other merge or rebase
+    async pull(options: PullOptions): Promise<void> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const before = await getHeadState(cwd);
+        // --progress makes the fetch part report progress without a terminal
+        try {
+            if (!(await runGitWithProgress(cwd, [...buildPullArgs(options), '--progress'], 'Pulling…'))) {
+                this.onRefresh();
+                return;
+            }
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `Pull failed: ${getErrorMessage(error)}`);
+            return;
+        }
+        await this.recordOperation(cwd, 'Pull', before);
+        vscode.window.showInformationMessage('Pull successful');
+        this.onRefresh();
+    }
+
+    async undoLastOperation() {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const entry = this.journal.latest(cwd);
+        if (!entry) {
+            vscode.window.showInformationMessage('Nothing to undo');
+            return;
+        }
+        const session = await getSequencerSession(cwd);
+        if (session) {
+            vscode.window.showWarningMessage(
+                `Finish or abort the ${OPERATION_LABELS[session.operation].toLowerCase()} in progress before undoing.`,
+            );
+            return;
+        }
+        const head = await getHeadState(cwd);
+        const problem = head ? checkUndo(entry, head) : 'HEAD cannot be resolved';
+        if (problem) {
+            vscode.window.showWarningMessage(`Cannot undo "${entry.label}": ${problem}.`);
+            return;
+        }
+        try {
+            await runGit(cwd, ['cat-file', '-e', `${entry.before}^{commit}`]);
+        } catch {
+            vscode.window.showWarningMessage(
+                `Cannot undo "${entry.label}": commit ${entry.before.substring(0, 7)} no longer exists.`,
+            );
+            await this.journal.remove(entry);
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Undo "${entry.label}"? ${shortRefName(entry.ref)} will be moved back from ${entry.after.substring(0, 7)} to ${entry.before.substring(0, 7)}.`,
+            'Undo',
+            'Cancel',
+        );
+        if (confirm !== 'Undo') {
+            return;
+        }
+
+        const release = claimRepository(cwd, 'Undoing…');
+        if (!release) {
+            showRepositoryBusy(cwd);
+            return;
+        }
+        try {
+            if (entry.undoMode !== 'hard') {
+                try {
+                    await runGit(cwd, ['reset', `--${entry.undoMode}`, entry.before]);
+                } catch (error) {
+                    showGitError(`Failed to undo: ${getErrorMessage(error)}`);
+                    return;
+                }
+            } else if (!(await this.hardResetKeepingChanges(cwd, entry))) {
+                return;
+            }
+        } finally {
+            release();
+        }
+
+        await this.journal.remove(entry);
+        vscode.window.showInformationMessage(`Undid "${entry.label}"`);
+        this.onRefresh();
+    }
+
+    // A hard reset would throw away uncommitted work, so it is stashed first and re-applied on top
+    // of the restored commit. If it no longer applies cleanly it stays in the stash list.
+    private async hardResetKeepingChanges(cwd: string, entry: { label: string; before: string }): Promise<boolean> {
+        // Of cwd, not the selected repository, which can have changed while the undo was being confirmed
+        let status: WorkingTreeStatus;
+        try {
+            status = parseStatusPorcelainV2((await runGit(cwd, ['status', '--porcelain=v2'])).stdout);
+        } catch (error) {
+            showGitError(`Failed to read uncommitted changes before undoing: ${getErrorMessage(error)}`);
+            return false;
+        }
+        const dirty = status.staged + status.unstaged + status.untracked + status.conflicted > 0;
+
+        if (dirty) {
+            try {
+                await runGit(cwd, [
+                    'stash',
+                    'push',
+                    '--include-untracked',
+                    '-m',
+                    `Git Lean: before undoing ${entry.label}`,
+                ]);
+            } catch (error) {
+                showGitError(`Failed to stash uncommitted changes before undoing: ${getErrorMessage(error)}`);
+                return false;
+            }
+        }
+
+        try {
+            await runGit(cwd, ['reset', '--hard', entry.before]);
+        } catch (error) {
+            if (dirty) {
+                await runGit(cwd, ['stash', 'pop']).catch(() => undefined);
+            }
+            showGitError(`Failed to undo: ${getErrorMessage(error)}`);
+            this.onRefresh();
+            return false;
+        }
+
+        if (dirty) {
+            try {
+                await runGit(cwd, ['stash', 'pop']);
+            } catch {
+                vscode.window.showWarningMessage(
+                    'Your uncommitted changes did not apply cleanly on the restored commit. They are kept in stash@{0}.',
+                );
+            }
+        }
+        return true;
+    }
+
+    async continueOperation() {
+        return this.runSessionAction('continue');
+    }
+
+    async skipOperation() {
+        return this.runSessionAction('skip');
+    }
+
+    async abortOperation() {
+        return this.runSessionAction('abort');
+    }
+
+    private async runSessionAction(action: SequencerAction) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const session = await getSequencerSession(cwd);
+        if (!session) {
+            vscode.window.showInformationMessage('No rebase, merge, cherry-pick or revert is in progress');
             this.onRefresh();
+            return;
+        }
+
+        const label = OPERATION_LABELS[session.operation];
+        if (action === 'continue' && session.conflictedFiles.length > 0) {
+            const count = session.conflictedFiles.length;
+            vscode.window.showWarningMessage(
+                `Resolve and stage ${count} conflicted file${count > 1 ? 's' : ''} before continuing the ${label.toLowerCase()}.`,
+            );
+            return;
+        }
+        if (action === 'skip' && !canSkip(session.operation)) {
+            vscode.window.showWarningMessage(
+                `A ${label.toLowerCase()} cannot be skipped. Continue or abort it instead.`,
+            );
+            return;
+        }
+
+        try {
+            if (!(await this.runSequencerAction(cwd, session.operation, action))) {
+                this.onRefresh();
+                return;
+            }
+        } catch (error) {
+            await this.handleSequencerFailure(cwd, `${label} --${action} failed: ${getErrorMessage(error)}`);
+            return;
+        }
+        this.onRefresh();
+
+        // Continuing or skipping can stop again on the next conflicting commit
+        const next = await getSequencerSession(cwd);
+        if (next) {
+            return;
+        }
+        const done = action === 'abort' ? 'aborted' : 'completed';
+        vscode.window.showInformationMessage(`${label} ${done}`);
+    }
+
+    // Continues, skips or aborts the operation in progress, keeping the prepared commit message instead of
+    // waiting on an editor that never opens. Resolves to null when cancelled or another operation was running.
+    private runSequencerAction(
+        cwd: string,
+        operation: SequencerOperation,
+        action: SequencerAction,
+    ): Promise<GitResult | null> {
+        const title = `${ACTION_PROGRESS_LABELS[action]} ${OPERATION_LABELS[operation].toLowerCase()}…`;
+        return runGitWithProgress(cwd, getSequencerActionArgs(operation, action), title, {
+            env: { ...process.env, GIT_EDITOR: 'true' },
         });
     }
+
+    // Operations that stop on conflicts and are finished from the session banner are not recorded
+    private async recordOperation(cwd: string, label: string, before: HeadState | null, undoMode: UndoMode = 'hard') {
+        await this.journal.recordOperation(cwd, label, before, undoMode);
+    }
+
+    // Runs an interactive rebase with a node script standing in for the todo editor. New commit messages are
+    // written next to the todo, into rebase-merge, where the todo's amend lines read them; git keeps them until
+    // the rebase ends, so they survive stopping on a conflict and continuing later. Any other editor git opens
+    // keeps the message it prepared. Returns false when it was cancelled or another operation was running.
+    private async runWithTodoEditor(
+        cwd: string,
+        args: string[],
+        title: string,
+        seqEditorScript: string,
+        messageFiles: Record<string, string> = {},
+    ): Promise<boolean> {
+        const seqEditorPath = path.join(os.tmpdir(), 'git-lean-seq-editor.js');
+        fs.writeFileSync(
+            seqEditorPath,
+            `
+const messageFiles = ${JSON.stringify(messageFiles)};
+for (const [name, message] of Object.entries(messageFiles)) {
+    require('fs').writeFileSync(require('path').join(require('path').dirname(process.argv[2]), name), message);
+}
+${seqEditorScript}`,
+        );
+
+        const env = {
+            ...process.env,
+            GIT_SEQUENCE_EDITOR: `node "${seqEditorPath}"`,
+            GIT_EDITOR: 'true',
+        };
+
+        try {
+            return (await runGitWithProgress(cwd, args, title, { env })) !== null;
+        } finally {
+            try {
+                fs.unlinkSync(seqEditorPath);
+            } catch {}
+        }
+    }
+
+    // Leaves a conflicted operation in progress so it can be resolved and continued from the
+    // session banner. Any other failure is reported, and a half-started rebase is rolled back
+    // when abortRebase is set.
+    private async handleSequencerFailure(cwd: string, errorMessage: string, abortRebase = false): Promise<void> {
+        const session = await getSequencerSession(cwd);
+        if (session && session.conflictedFiles.length > 0) {
+            this.onRefresh();
+            const label = OPERATION_LABELS[session.operation];
+            const count = session.conflictedFiles.length;
+            // Not awaited: the toast stays up until dismissed, and the session banner works meanwhile
+            vscode.window
+                .showWarningMessage(
+                    `${label} stopped with conflicts in ${count} file${count > 1 ? 's' : ''}. Resolve them, then continue or abort from the Git Lean banner.`,
+                    'Abort',
+                )
+                .then((choice) => {
+                    if (choice === 'Abort') {
+                        this.abortOperation();
+                    }
+                });
+            return;
+        }
+
+        if (abortRebase && session?.operation === 'rebase') {
+            await this.runSequencerAction(cwd, 'rebase', 'abort').catch(() => null);
+        }
+        showGitError(errorMessage);
+    }
 }
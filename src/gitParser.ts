@@ -5,9 +5,16 @@ export interface GitCommit {
     date: string;
     author: string;
     parents: string[];
+    // Drawn in the graph instead of parents when they differ: the nearest listed ancestors while filters
+    // hide commits, or only the first parent
+    graphParents?: string[];
     refs: string[];
 }
 
+// Used with --decorate=full, so %D lists full ref names and remote branches are told apart by refs/remotes/
+export const LOG_FORMAT = '%H|%h|%P|%an|%ai|%D|%s';
+
+// Parses `git log --pretty=format:<LOG_FORMAT>`
 export function parseGitLogOutput(stdout: string): GitCommit[] {
     return stdout
         .split('\n')
@@ -34,3 +41,349 @@ export function parseGitLogOutput(stdout: string): GitCommit[] {
             };
         });
 }
+
+export interface UnmergedFile {
+    path: string;
+    // Index stages present for the path: 1 = common ancestor, 2 = ours, 3 = theirs
+    stages: number[];
+}
+
+// Parses `git ls-files -u` output: "<mode> <object> <stage>\t<path>", one line per stage
+export function parseUnmergedFiles(stdout: string): UnmergedFile[] {
+    const files = new Map<string, number[]>();
+    for (const line of stdout.split('\n')) {
+        const tab = line.indexOf('\t');
+        if (tab === -1) {
+            continue;
+        }
+        const stage = Number(line.slice(0, tab).trim().split(/\s+/)[2]);
+        const filePath = line.slice(tab + 1);
+        if (!files.has(filePath)) {
+            files.set(filePath, []);
+        }
+        files.get(filePath)!.push(stage);
+    }
+    return [...files.entries()].map(([path, stages]) => ({ path, stages: stages.sort() }));
+}
+
+export interface StashEntry {
+    ref: string;
+    index: number;
+    branch: string;
+    message: string;
+    date: string;
+}
+
+// Parses `git stash list --format=%gd|%ci|%gs`. The reflog subject is "On <branch>: <message>"
+// for stashes with a message and "WIP on <branch>: <hash> <subject>" for the rest.
+export function parseStashList(stdout: string): StashEntry[] {
+    return stdout
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => {
+            const [ref, date, ...subjectParts] = line.split('|');
+            const subject = subjectParts.join('|').trim();
+            const match = subject.match(/^(?:WIP on|On) ([^:]+): (.*)$/);
+            const indexMatch = ref.match(/\{(\d+)\}/);
+            return {
+                ref: ref.trim(),
+                index: indexMatch ? Number(indexMatch[1]) : 0,
+                branch: match ? match[1] : '',
+                message: match ? match[2] : subject,
+                date: new Date(date).toLocaleString(),
+            };
+        });
+}
+
+export interface BranchEntry {
+    // Short name, e.g. "main" or "origin/main"
+    fullName: string;
+    isRemote: boolean;
+    isHead: boolean;
+    // Short name of the tracked branch, null when none is configured
+    upstream: string | null;
+    // Commits not on the upstream / only on the upstream
+    ahead: number;
+    behind: number;
+    // The upstream is configured but no longer exists, e.g. deleted on the remote and pruned
+    upstreamGone: boolean;
+    // date is relative ("3 days ago"), timestamp in seconds since the epoch
+    lastCommit: { hash: string; date: string; timestamp: number; author: string; subject: string };
+}
+
+export const BRANCH_LIST_FORMAT =
+    '%(refname)|%(HEAD)|%(symref)|%(upstream:short)|%(upstream:track,nobracket)|%(objectname:short)|%(committerdate:relative)|%(committerdate:unix)|%(authorname)|%(contents:subject)';
+
+// Parses `git for-each-ref refs/heads refs/remotes --format=<BRANCH_LIST_FORMAT>`. Symbolic refs such as
+// origin/HEAD are left out. The track field reads "ahead 1, behind 2", "gone" or nothing when up to date.
+export function parseBranchList(stdout: string): BranchEntry[] {
+    return stdout
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => line.split('|'))
+        .filter(([, , symref]) => !symref)
+        .map(([refname, head, , upstream, track, hash, date, timestamp, author, ...subjectParts]) => {
+            const isRemote = refname.startsWith('refs/remotes/');
+            return {
+                fullName: refname.replace(/^refs\/(heads|remotes)\//, ''),
+                isRemote,
+                isHead: head === '*',
+                upstream: upstream || null,
+                ahead: Number(/ahead (\d+)/.exec(track)?.[1] ?? 0),
+                behind: Number(/behind (\d+)/.exec(track)?.[1] ?? 0),
+                upstreamGone: track === 'gone',
+                lastCommit: { hash, date, timestamp: Number(timestamp), author, subject: subjectParts.join('|') },
+            };
+        });
+}
+
+export interface TagEntry {
+    name: string;
+    annotated: boolean;
+    // Short hash of the commit the tag points at (peeled for annotated tags)
+    commit: string;
+    date: string;
+    message: string;
+}
+
+export const TAG_LIST_FORMAT =
+    '%(refname:short)|%(objecttype)|%(objectname:short)|%(*objectname:short)|%(creatordate:iso8601)|%(contents:subject)';
+
+// Parses `git for-each-ref refs/tags --format=<TAG_LIST_FORMAT>`
+export function parseTagList(stdout: string): TagEntry[] {
+    return stdout
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => {
+            const [name, objectType, objectName, peeledName, date, ...subjectParts] = line.split('|');
+            const annotated = objectType === 'tag';
+            return {
+                name: name.trim(),
+                annotated,
+                commit: (annotated ? peeledName : objectName).trim(),
+                date: date ? new Date(date).toLocaleString() : '',
+                message: annotated ? subjectParts.join('|').trim() : '',
+            };
+        });
+}
+
+export interface WorkingTreeStatus {
+    staged: number;
+    unstaged: number;
+    untracked: number;
+    conflicted: number;
+}
+
+// Parses `git status --porcelain=v2`. Ordinary (1) and rename/copy (2) entries carry an XY pair where
+// '.' means unchanged, so one file can count as both staged and unstaged.
+export function parseStatusPorcelainV2(stdout: string): WorkingTreeStatus {
+    const status: WorkingTreeStatus = { staged: 0, unstaged: 0, untracked: 0, conflicted: 0 };
+    for (const line of stdout.split('\n')) {
+        const kind = line.charAt(0);
+        if (kind === '1' || kind === '2') {
+            const [x, y] = line.slice(2, 4);
+            if (x !== '.') {
+                status.staged++;
+            }
+            if (y !== '.') {
+                status.unstaged++;
+            }
+        } else if (kind === 'u') {
+            status.conflicted++;
+        } else if (kind === '?') {
+            status.untracked++;
+        }
+    }
+    return status;
+}
+
+export interface ReflogEntry {
+    hash: string;
+    shortHash: string;
+    // e.g. HEAD@{3} or main@{0}
+    selector: string;
+    // What moved the ref: commit, commit (amend), rebase (finish), checkout, reset, ...
+    action: string;
+    message: string;
+    date: string;
+}
+
+export const REFLOG_FORMAT = '%H|%h|%gd|%ci|%gs';
+
+// Parses `git reflog show --format=<REFLOG_FORMAT>`. The reflog subject is "<action>: <message>".
+export function parseReflog(stdout: string): ReflogEntry[] {
+    return stdout
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => {
+            const [hash, shortHash, selector, date, ...subjectParts] = line.split('|');
+            const subject = subjectParts.join('|').trim();
+            const separator = subject.indexOf(': ');
+            return {
+                hash: hash.trim(),
+                shortHash: shortHash.trim(),
+                selector: selector.trim(),
+                action: separator === -1 ? subject : subject.slice(0, separator),
+                message: separator === -1 ? '' : subject.slice(separator + 2),
+                date: date ? new Date(date).toLocaleString() : '',
+            };
+        });
+}
+
+// Picks the commit hashes out of `git fsck --lost-found` (or --unreachable) output, skipping blobs and trees
+export function parseDanglingCommits(stdout: string): string[] {
+    const hashes: string[] = [];
+    for (const line of stdout.split('\n')) {
+        const match = /^(?:dangling|unreachable) commit ([0-9a-f]+)/.exec(line.trim());
+        if (match) {
+            hashes.push(match[1]);
+        }
+    }
+    return hashes;
+}
+
+export interface WorktreeEntry {
+    path: string;
+    head: string;
+    // Short branch name, or null when the worktree has a detached HEAD or is bare
+    branch: string | null;
+    bare: boolean;
+    locked: boolean;
+    // Its directory is gone; `git worktree prune` would remove it
+    prunable: boolean;
+}
+
+// Parses `git worktree list --porcelain`: one block of "key value" lines per worktree, separated by blank
+// lines, the main worktree first
+export function parseWorktreeList(stdout: string): WorktreeEntry[] {
+    const worktrees: WorktreeEntry[] = [];
+    let current: WorktreeEntry | null = null;
+    for (const line of stdout.split('\n')) {
+        const space = line.indexOf(' ');
+        const key = space === -1 ? line : line.slice(0, space);
+        const value = space === -1 ? '' : line.slice(space + 1);
+        if (key === 'worktree') {
+            current = { path: value, head: '', branch: null, bare: false, locked: false, prunable: false };
+            worktrees.push(current);
+        } else if (!current) {
+            continue;
+        } else if (key === 'HEAD') {
+            current.head = value;
+        } else if (key === 'branch') {
+            current.branch = value.replace(/^refs\/heads\//, '');
+        } else if (key === 'bare') {
+            current.bare = true;
+        } else if (key === 'locked') {
+            current.locked = true;
+        } else if (key === 'prunable') {
+            current.prunable = true;
+        }
+    }
+    return worktrees;
+}
+
+export type SubmoduleState = 'uninitialized' | 'current' | 'modified' | 'conflict';
+
+export interface SubmoduleEntry {
+    path: string;
+    commit: string;
+    // 'modified' means the checked-out commit differs from the one the superproject records
+    state: SubmoduleState;
+    // `git describe` of the commit, e.g. "heads/main" or "v1.2.0-3-gabc1234"; absent when not initialized
+    describe: string | null;
+}
+
+const SUBMODULE_STATES: Record<string, SubmoduleState> = {
+    ' ': 'current',
+    '-': 'uninitialized',
+    '+': 'modified',
+    U: 'conflict',
+};
+
+// Parses `git submodule status`, one "<state><sha> <path> (<describe>)" line per submodule. The sha is the
+// checked-out commit; with --cached it is the commit recorded in the index instead.
+export function parseSubmoduleStatus(stdout: string): SubmoduleEntry[] {
+    const submodules: SubmoduleEntry[] = [];
+    for (const line of stdout.split('\n')) {
+        const match = /^([ +\-U])([0-9a-f]+) (.+?)(?: \((.*)\))?$/.exec(line);
+        if (match) {
+            submodules.push({
+                path: match[3],
+                commit: match[2],
+                state: SUBMODULE_STATES[match[1]],
+                describe: match[4] ?? null,
+            });
+        }
+    }
+    return submodules;
+}
+
+// Paths of the submodules `git status --porcelain=v2` reports with modified or untracked content. Their
+// entries carry an "S<c><m><u>" token where m and u flag tracked changes and untracked files.
+export function parseDirtySubmodules(stdout: string): string[] {
+    const paths: string[] = [];
+    for (const line of stdout.split('\n')) {
+        const fields = line.split(' ');
+        if (fields[0] !== '1' || !fields[2]?.startsWith('S')) {
+            continue;
+        }
+        if (fields[2][2] === 'M' || fields[2][3] === 'U') {
+            paths.push(fields.slice(8).join(' '));
+        }
+    }
+    return paths;
+}
+
+export interface RemoteEntry {
+    name: string;
+    fetchUrl: string;
+    // Differs from fetchUrl only when a push URL is configured
+    pushUrl: string;
+}
+
+// Parses `git remote -v`: a "<name>\t<url> (fetch)" and a "<name>\t<url> (push)" line per remote
+export function parseRemoteList(stdout: string): RemoteEntry[] {
+    const remotes = new Map<string, RemoteEntry>();
+    for (const line of stdout.split('\n')) {
+        const match = /^(\S+)\t(.*) \((fetch|push)\)$/.exec(line);
+        if (!match) {
+            continue;
+        }
+        const [, name, url, kind] = match;
+        const remote = remotes.get(name) ?? { name, fetchUrl: url, pushUrl: url };
+        if (kind === 'fetch') {
+            remote.fetchUrl = url;
+        } else {
+            remote.pushUrl = url;
+        }
+        remotes.set(name, remote);
+    }
+    return [...remotes.values()];
+}
+
+export interface GitProgress {
+    // e.g. "Receiving objects" or "Rebasing"
+    phase: string;
+    // null for phases that only count, like "Enumerating objects: 1234"
+    percent: number | null;
+}
+
+// Finds the latest progress line in git's stderr so far. With --progress git rewrites its current line
+// using \r, as in "Receiving objects:  45% (450/1000), 1.20 MiB | 2.00 MiB/s" or "remote: Counting
+// objects: 12% (3/25)"; rebases write "Rebasing (3/10)". A line still being written is ignored.
+export function parseGitProgress(stderr: string): GitProgress | null {
+    const lines = stderr.replace(/\x1b\[K/g, '').split(/[\r\n]/);
+    // The last element is whatever follows the final \r or \n
+    for (let i = lines.length - 2; i >= 0; i--) {
+        const line = lines[i].trim();
+        const rebasing = /^Rebasing \((\d+)\/(\d+)\)/.exec(line);
+        if (rebasing) {
+            return { phase: 'Rebasing', percent: Math.floor((Number(rebasing[1]) * 100) / Number(rebasing[2])) };
+        }
+        const phase = /^(?:remote: )?([A-Z][A-Za-z ]*?):\s+(?:(\d+)%|\d+)/.exec(line);
+        if (phase) {
+            return { phase: phase[1], percent: phase[2] === undefined ? null : Number(phase[2]) };
+        }
+    }
+    return null;
+}
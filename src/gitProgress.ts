@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { parseGitProgress } from './gitParser';
+import { GitError, runGit, type GitResult, type GitRunOptions } from './gitRunner';
+
+interface RunningOperation {
+    title: string;
+    // Whether it shows a notification with a Cancel button
+    cancellable: boolean;
+}
+
+// Repository root → the long-running operation holding it
+const runningOperations = new Map<string, RunningOperation>();
+
+// Claims the repository for a long-running operation. Returns the function that releases it, or undefined
+// when another operation already holds it.
+export function claimRepository(cwd: string, title: string, cancellable = false): (() => void) | undefined {
+    if (runningOperations.has(cwd)) {
+        return undefined;
+    }
+    runningOperations.set(cwd, { title, cancellable });
+    return () => runningOperations.delete(cwd);
+}
+
+// Tells the user which operation is holding the repository when claimRepository failed
+export function showRepositoryBusy(cwd: string): void {
+    const running = runningOperations.get(cwd);
+    if (!running) {
+        return;
+    }
+    const title = running.title.replace(/…$/, '');
+    vscode.window.showWarningMessage(
+        running.cancellable
+            ? `Wait for "${title}" to finish, or cancel it, before starting another git operation in this repository.`
+            : `Wait for "${title}" to finish before starting another git operation in this repository.`,
+    );
+}
+
+// Runs a git command that can take a while (fetch, pull, push, rebase, merge, cherry-pick) behind a
+// notification that shows git's progress and has a Cancel button, which kills git. Only one such command
+// runs per repository at a time. Resolves to null when the user cancelled or another operation was still
+// running, after saying so; rejects with the GitError when git fails.
+export async function runGitWithProgress(
+    cwd: string,
+    args: string[],
+    title: string,
+    options: GitRunOptions = {},
+): Promise<GitResult | null> {
+    const release = claimRepository(cwd, title, true);
+    if (!release) {
+        showRepositoryBusy(cwd);
+        return null;
+    }
+
+    try {
+        return await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+            async (progress, token) => {
+                const controller = new AbortController();
+                const cancellation = token.onCancellationRequested(() => controller.abort());
+                // Only the tail is needed to find the latest progress line
+                let stderr = '';
+                let reported = '';
+                try {
+                    return await runGit(cwd, args, {
+                        ...options,
+                        signal: controller.signal,
+                        onStderr: (chunk) => {
+                            stderr = (stderr + chunk).slice(-1000);
+                            const latest = parseGitProgress(stderr);
+                            const message = latest
+                                ? `${latest.phase}${latest.percent === null ? '' : ` ${latest.percent}%`}`
+                                : '';
+                            if (message !== reported) {
+                                reported = message;
+                                progress.report({ message });
+                            }
+                        },
+                    });
+                } catch (error) {
+                    if (error instanceof GitError && error.cancelled) {
+                        vscode.window.showInformationMessage(error.message);
+                        return null;
+                    }
+                    throw error;
+                } finally {
+                    cancellation.dispose();
+                }
+            },
+        );
+    } finally {
+        release();
+    }
+}
@@ -0,0 +1,109 @@
+import * as cp from 'child_process';
+
+export interface GitRunOptions {
+    env?: NodeJS.ProcessEnv;
+    // Written to git's stdin, e.g. a patch for `git apply -`
+    input?: string;
+    signal?: AbortSignal;
+    // Milliseconds before git is killed; no limit by default since rebases and pushes can take a while
+    timeout?: number;
+    maxBuffer?: number;
+    // Called with stderr as it arrives, for git's --progress output; the full stderr is still collected
+    onStderr?: (chunk: string) => void;
+}
+
+export interface GitResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+}
+
+export interface GitInvocation {
+    cwd: string;
+    args: string[];
+    // null when git could not be started, was cancelled or timed out
+    exitCode: number | null;
+    durationMs: number;
+    stderr: string;
+}
+
+const DEFAULT_MAX_BUFFER = 100 * 1024 * 1024;
+
+export class GitError extends Error {
+    constructor(
+        message: string,
+        readonly args: string[],
+        readonly exitCode: number | null,
+        readonly stdout: string,
+        readonly stderr: string,
+        readonly cancelled = false,
+        readonly timedOut = false,
+    ) {
+        super(message);
+        this.name = 'GitError';
+    }
+}
+
+const invocationListeners = new Set<(invocation: GitInvocation) => void>();
+
+// Called after every git invocation, successful or not. Returns a function that removes the listener.
+export function onGitInvocation(listener: (invocation: GitInvocation) => void): () => void {
+    invocationListeners.add(listener);
+    return () => invocationListeners.delete(listener);
+}
+
+// Runs git with an argument vector, never through a shell, so refs and messages are passed to git as is.
+// Resolves on exit code 0 and rejects with a GitError carrying stdout, stderr and the exit code otherwise.
+export function runGit(cwd: string, args: string[], options: GitRunOptions = {}): Promise<GitResult> {
+    const started = Date.now();
+
+    return new Promise((resolve, reject) => {
+        const child = cp.execFile(
+            'git',
+            args,
+            {
+                cwd,
+                env: options.env,
+                signal: options.signal,
+                timeout: options.timeout,
+                maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+                windowsHide: true,
+            },
+            (error, stdout, stderr) => {
+                const exitCode = error ? (typeof error.code === 'number' ? error.code : null) : 0;
+                for (const listener of invocationListeners) {
+                    listener({ cwd, args, exitCode, durationMs: Date.now() - started, stderr });
+                }
+
+                if (!error) {
+                    resolve({ stdout, stderr, exitCode: 0 });
+                    return;
+                }
+                const cancelled = error.name === 'AbortError';
+                const timedOut = !cancelled && error.killed === true && !!options.timeout;
+                const message = cancelled
+                    ? `git ${args[0]} was cancelled`
+                    : timedOut
+                      ? `git ${args[0]} timed out after ${options.timeout} ms`
+                      : stderr.trim() || error.message;
+                reject(new GitError(message, args, exitCode, stdout, stderr, cancelled, timedOut));
+            },
+        );
+        if (options.onStderr) {
+            const onStderr = options.onStderr;
+            child.stderr?.on('data', (chunk: string | Buffer) => onStderr(String(chunk)));
+        }
+        // Always close stdin so nothing can hang waiting for input
+        child.stdin?.end(options.input);
+    });
+}
+
+export function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Renders an argument vector the way it could be typed in a shell, for logs and bug reports
+export function formatGitCommand(args: string[]): string {
+    const quoted = args.map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`));
+    return ['git', ...quoted].join(' ');
+}
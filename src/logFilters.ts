@@ -0,0 +1,168 @@
+import type { GitCommit } from './gitParser';
+
+// Filters from the graph's filter bar, saved per repository
+export interface LogFilters {
+    // File or folder, relative to the repository root; empty for the whole tree
+    path: string;
+    // Matched as substrings of the author name or email; a commit by any of them is shown
+    authors: string[];
+    // YYYY-MM-DD, or empty
+    since: string;
+    until: string;
+    firstParent: boolean;
+    noMerges: boolean;
+    // Show every branch and tag instead of only HEAD; branches picked in the branches view take precedence
+    allRefs: boolean;
+}
+
+export const DEFAULT_LOG_FILTERS: LogFilters = {
+    path: '',
+    authors: [],
+    since: '',
+    until: '',
+    firstParent: false,
+    noMerges: false,
+    allRefs: false,
+};
+
+// Filters that leave out commits in the middle of the history, so the parents git reports for the
+// remaining ones can be commits that are never listed
+export function hidesCommits(filters: LogFilters): boolean {
+    return !!filters.path || filters.authors.length > 0 || !!filters.since || !!filters.until || filters.noMerges;
+}
+
+export interface LogPage {
+    skip: number;
+    limit: number;
+}
+
+// Everything after `git log --pretty=...` for one page of the graph of refs (HEAD when empty), or for all
+// of it without a page. extraArgs (a search) go with the filters.
+export function buildLogArgs(
+    refs: string[],
+    filters: LogFilters,
+    page: LogPage | null,
+    extraArgs: string[] = [],
+): string[] {
+    const args = page ? [`--max-count=${page.limit}`, '--date-order'] : ['--date-order'];
+
+    if (filters.authors.length > 0) {
+        args.push('--regexp-ignore-case', '--fixed-strings', ...filters.authors.map((author) => `--author=${author}`));
+    }
+    if (filters.since) {
+        args.push(`--since=${filters.since}`);
+    }
+    if (filters.until) {
+        args.push(`--until=${filters.until} 23:59:59`);
+    }
+    if (filters.firstParent) {
+        args.push('--first-parent');
+    }
+    if (filters.noMerges) {
+        args.push('--no-merges');
+    }
+    args.push(...extraArgs);
+    if (page && page.skip > 0) {
+        args.push(`--skip=${page.skip}`);
+    }
+    args.push(...rangeArgs(refs, filters.allRefs, filters.path));
+    return args;
+}
+
+// Everything after `git rev-list` for the real parents of every commit in the graph of refs, ignoring the
+// filters that hide commits (the path too), so hidden parents can be traced back to listed ancestors
+export function buildParentWalkArgs(refs: string[], filters: LogFilters): string[] {
+    const args = ['--parents'];
+    if (filters.firstParent) {
+        args.push('--first-parent');
+    }
+    // Unlike git log, rev-list needs a starting point
+    args.push(...(refs.length === 0 && !filters.allRefs ? ['HEAD'] : []), ...rangeArgs(refs, filters.allRefs, ''));
+    return args;
+}
+
+function rangeArgs(refs: string[], allRefs: boolean, path: string): string[] {
+    const args: string[] = [];
+    if (refs.length > 0) {
+        args.push(...refs);
+    } else if (allRefs) {
+        args.push('--all');
+    }
+    // Keeps a ref that happens to match a file name from being read as a path
+    args.push('--');
+    if (path) {
+        args.push(path);
+    }
+    return args;
+}
+
+// Parses `git rev-list --parents` output: commit hash → parent hashes
+export function parseParentWalk(output: string): Map<string, string[]> {
+    const parents = new Map<string, string[]>();
+    for (const line of output.split('\n')) {
+        const [hash, ...rest] = line.trim().split(' ');
+        if (hash) {
+            parents.set(hash, rest);
+        }
+    }
+    return parents;
+}
+
+// What simplifyParents needs to link commits across hidden ones: every commit the filters list, on any
+// page, and the unfiltered parents from buildParentWalkArgs
+export interface ListedHistory {
+    listed: Set<string>;
+    parents: Map<string, string[]>;
+}
+
+// Sets the graph parents of a page of commits from buildLogArgs so the graph only connects listed
+// commits; the real parents stay as they are for the operations on them. With --first-parent only the
+// first parent is drawn. Given the history, as when filters or a search hide commits, each hidden parent
+// is replaced by its nearest listed ancestors, and dropped when it has none.
+export function simplifyParents(commits: GitCommit[], filters: LogFilters, history?: ListedHistory): GitCommit[] {
+    if (history) {
+        const nearest = new Map<string, string[]>();
+        return commits.map((commit) => {
+            const parents = filters.firstParent ? commit.parents.slice(0, 1) : commit.parents;
+            const linked = parents.flatMap((parent) => nearestListed(parent, filters.firstParent, history, nearest));
+            return { ...commit, graphParents: [...new Set(linked)] };
+        });
+    }
+    if (filters.firstParent) {
+        return commits.map((commit) => ({ ...commit, graphParents: commit.parents.slice(0, 1) }));
+    }
+    return commits;
+}
+
+// The listed commits reached first on every path down from hash (itself when listed). Memoised in nearest;
+// walks with its own stack, as hidden stretches of history can be far longer than the call stack allows.
+function nearestListed(
+    hash: string,
+    firstParent: boolean,
+    history: ListedHistory,
+    nearest: Map<string, string[]>,
+): string[] {
+    const stack = [hash];
+    while (stack.length > 0) {
+        const current = stack[stack.length - 1];
+        if (nearest.has(current)) {
+            stack.pop();
+            continue;
+        }
+        if (history.listed.has(current)) {
+            nearest.set(current, [current]);
+            stack.pop();
+            continue;
+        }
+        // rev-list --first-parent still prints every parent
+        const parents = (history.parents.get(current) ?? []).slice(0, firstParent ? 1 : undefined);
+        const pending = parents.filter((parent) => !nearest.has(parent));
+        if (pending.length > 0) {
+            stack.push(...pending);
+            continue;
+        }
+        nearest.set(current, [...new Set(parents.flatMap((parent) => nearest.get(parent)!))]);
+        stack.pop();
+    }
+    return nearest.get(hash)!;
+}
@@ -0,0 +1,103 @@
+import type * as vscode from 'vscode';
+import { runGit } from './gitRunner';
+
+// How an undo puts the old commit back: soft and mixed resets left the old content in the working tree,
+// so undoing them only moves the ref back; everything else restores the old tree with a hard reset.
+export type UndoMode = 'soft' | 'mixed' | 'hard';
+
+export interface HeadState {
+    // Full ref HEAD points at, e.g. refs/heads/main, or HEAD itself when detached
+    ref: string;
+    hash: string;
+}
+
+export interface JournalEntry {
+    // Shown in the undo confirmation, e.g. "Drop commit 1a2b3c4"
+    label: string;
+    cwd: string;
+    ref: string;
+    before: string;
+    after: string;
+    undoMode: UndoMode;
+    timestamp: number;
+}
+
+const STATE_KEY = 'gitLean.operationJournal';
+const MAX_ENTRIES = 50;
+
+export function shortRefName(ref: string): string {
+    return ref.replace(/^refs\/heads\//, '');
+}
+
+// Returns why the entry can no longer be undone safely, or null when HEAD is still where the operation left it
+export function checkUndo(entry: JournalEntry, head: HeadState): string | null {
+    if (head.ref !== entry.ref) {
+        return entry.ref === 'HEAD'
+            ? 'it was done on a detached HEAD and a branch is checked out now'
+            : `it was done on '${shortRefName(entry.ref)}', which is not checked out`;
+    }
+    if (head.hash !== entry.after) {
+        return `'${shortRefName(entry.ref)}' has moved since (now at ${head.hash.substring(0, 7)}, expected ${entry.after.substring(0, 7)})`;
+    }
+    return null;
+}
+
+// null when HEAD does not resolve, e.g. on an unborn branch
+export async function getHeadState(cwd: string): Promise<HeadState | null> {
+    let hash: string;
+    try {
+        hash = (await runGit(cwd, ['rev-parse', 'HEAD'])).stdout.trim();
+    } catch {
+        return null;
+    }
+    try {
+        return { ref: (await runGit(cwd, ['symbolic-ref', '-q', 'HEAD'])).stdout.trim(), hash };
+    } catch {
+        return { ref: 'HEAD', hash };
+    }
+}
+
+// Records the ref values around every history-rewriting operation so the last one can be undone.
+// Only the hashes are kept; the old commits themselves stay reachable through the reflog.
+export class OperationJournal {
+    constructor(private readonly state: vscode.Memento) {}
+
+    private entries(): JournalEntry[] {
+        return this.state.get<JournalEntry[]>(STATE_KEY, []);
+    }
+
+    latest(cwd: string): JournalEntry | undefined {
+        return this.entries()
+            .filter((entry) => entry.cwd === cwd)
+            .pop();
+    }
+
+    async record(entry: JournalEntry): Promise<void> {
+        await this.state.update(STATE_KEY, [...this.entries(), entry].slice(-MAX_ENTRIES));
+    }
+
+    // Records an operation that moved HEAD from before to where it is now. Nothing is recorded when HEAD did not
+    // move or another ref is checked out afterwards.
+    async recordOperation(cwd: string, label: string, before: HeadState | null, undoMode: UndoMode): Promise<void> {
+        const after = await getHeadState(cwd);
+        if (!before || !after || before.ref !== after.ref || before.hash === after.hash) {
+            return;
+        }
+        await this.record({
+            label,
+            cwd,
+            ref: before.ref,
+            before: before.hash,
+            after: after.hash,
+            undoMode,
+            timestamp: Date.now(),
+        });
+    }
+
+    async remove(entry: JournalEntry): Promise<void> {
+        await this.state.update(
+            STATE_KEY,
+            this.entries().filter((e) => !(e.cwd === entry.cwd && e.timestamp === entry.timestamp)),
+        );
+    }
+}
@@ -0,0 +1,53 @@
+// How `git pull` integrates the fetched commits; 'gitConfig' leaves it to pull.rebase and pull.ff
+export type PullStrategy = 'gitConfig' | 'merge' | 'rebase' | 'ffOnly';
+
+export interface PullOptions {
+    strategy: PullStrategy;
+    // Stash uncommitted changes before the pull and re-apply them afterwards
+    autostash: boolean;
+}
+
+export interface PushOptions {
+    remote: string;
+    // Local branch to push
+    branch: string;
+    // Branch on the remote; usually the same name
+    remoteBranch: string;
+    setUpstream: boolean;
+    // Also push every local tag
+    tags: boolean;
+    forceWithLease: boolean;
+}
+
+const STRATEGY_ARGS: Record<PullStrategy, string[]> = {
+    gitConfig: [],
+    merge: ['--no-rebase'],
+    rebase: ['--rebase'],
+    ffOnly: ['--ff-only'],
+};
+
+export function buildPullArgs(options: PullOptions): string[] {
+    return ['pull', ...STRATEGY_ARGS[options.strategy], ...(options.autostash ? ['--autostash'] : [])];
+}
+
+export function buildPushArgs(options: PushOptions): string[] {
+    const args = ['push'];
+    if (options.setUpstream) {
+        args.push('--set-upstream');
+    }
+    if (options.tags) {
+        args.push('--tags');
+    }
+    if (options.forceWithLease) {
+        args.push('--force-with-lease');
+    }
+    // A full ref on the remote side, so a new branch is created even when the name is also a tag there
+    args.push(options.remote, `refs/heads/${options.branch}:refs/heads/${options.remoteBranch}`);
+    return args;
+}
+
+// Updates a branch that is not checked out from its upstream. git only allows fast-forwards here, which
+// is the only update that needs no working tree.
+export function buildFetchIntoBranchArgs(remote: string, remoteBranch: string, branch: string): string[] {
+    return ['fetch', remote, `refs/heads/${remoteBranch}:refs/heads/${branch}`];
+}
@@ -0,0 +1,53 @@
+export type RebaseAction = 'pick' | 'reword' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoEntry {
+    hash: string;
+    shortHash: string;
+    action: RebaseAction;
+    message: string;
+    // Only used when action is 'reword'
+    newMessage?: string;
+}
+
+// Entries are in todo order (oldest first). Returns an error message, or null if git will accept the list.
+export function validateRebaseTodo(entries: RebaseTodoEntry[]): string | null {
+    const kept = entries.filter((e) => e.action !== 'drop');
+    if (kept.length === 0) {
+        return 'At least one commit must be kept. Use Drop Commits to remove the whole range.';
+    }
+    if (kept[0].action === 'squash' || kept[0].action === 'fixup') {
+        return `Cannot ${kept[0].action} ${kept[0].shortHash}: there is no earlier commit to combine it with.`;
+    }
+    const emptyReword = entries.find((e) => e.action === 'reword' && !e.newMessage?.trim());
+    if (emptyReword) {
+        return `Commit message for ${emptyReword.shortHash} cannot be empty.`;
+    }
+    return null;
+}
+
+// Git's own reword asks an editor for the message when it reaches the commit, which nothing answers once a
+// rebase that stopped on a conflict is continued from the session banner. Instead each new message is
+// written to a file in git's rebase-merge directory, which goes away when the rebase ends, and an exec line
+// right after the pick amends the commit with it.
+export function messageFileName(index: number): string {
+    return `git-lean-message-${index}`;
+}
+
+export function amendMessageLine(fileName: string): string {
+    return `exec git commit --amend --allow-empty --no-verify --quiet -F "$(git rev-parse --git-path rebase-merge)/${fileName}"`;
+}
+
+// The files the todo from formatRebaseTodo expects next to it, by name
+export function rewordMessageFiles(entries: RebaseTodoEntry[]): Record<string, string> {
+    return Object.fromEntries(
+        entries.flatMap((e, i) => (e.action === 'reword' ? [[messageFileName(i), e.newMessage!.trim() + '\n']] : [])),
+    );
+}
+
+export function formatRebaseTodo(entries: RebaseTodoEntry[]): string[] {
+    return entries.flatMap((e, i) =>
+        e.action === 'reword'
+            ? [`pick ${e.hash} ${e.message}`, amendMessageLine(messageFileName(i))]
+            : [`${e.action} ${e.hash} ${e.message}`],
+    );
+}
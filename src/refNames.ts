@@ -0,0 +1,11 @@
+// Validation for names typed into "new branch" / "new tag" input boxes. Git has more rules
+// (see `git check-ref-format`), but these are the ones people actually hit.
+export function validateRefName(value: string | undefined, kind = 'Branch'): string | null {
+    if (!value || !value.trim()) {
+        return `${kind} name cannot be empty`;
+    }
+    if (/[\s~^:?*\[\\]|\.\./.test(value)) {
+        return `Invalid ${kind.toLowerCase()} name`;
+    }
+    return null;
+}
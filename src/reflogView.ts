@@ -0,0 +1,183 @@
+import * as vscode from 'vscode';
+import {
+    LOG_FORMAT,
+    REFLOG_FORMAT,
+    parseDanglingCommits,
+    parseGitLogOutput,
+    parseReflog,
+    type GitCommit,
+    type ReflogEntry,
+} from './gitParser';
+import { validateRefName } from './refNames';
+import { getReflogViewHtml } from './webviewContent';
+import { getErrorMessage, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+
+const MAX_REFLOG_ENTRIES = 500;
+const MAX_LOST_COMMITS = 200;
+
+export interface ReflogViewData {
+    // HEAD followed by every local branch, as full ref names
+    refs: string[];
+    selectedRef: string;
+    entries: ReflogEntry[];
+    // null until a scan has been run; fsck walks the whole object database, so it is not done on open
+    lostCommits: GitCommit[] | null;
+}
+
+interface ReflogViewMessage {
+    command: 'refresh' | 'selectRef' | 'scanLostCommits' | 'showDetails' | 'createBranch' | 'resetHere';
+    ref?: string;
+    hash?: string;
+}
+
+export class ReflogPanel {
+    private static currentPanel: ReflogPanel | undefined;
+    private _htmlSet = false;
+    private _selectedRef = 'HEAD';
+    private _lostCommits: GitCommit[] | null = null;
+
+    public static createOrShow(extensionUri: vscode.Uri, cwd: string) {
+        if (ReflogPanel.currentPanel?._cwd === cwd) {
+            ReflogPanel.currentPanel._panel.reveal();
+            ReflogPanel.currentPanel.update();
+            return;
+        }
+        // Opened for another repository: replace it rather than showing two repositories' state at once
+        ReflogPanel.currentPanel?._panel.dispose();
+
+        const panel = vscode.window.createWebviewPanel('gitLeanReflog', 'Reflog', vscode.ViewColumn.One, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [extensionUri],
+        });
+        ReflogPanel.currentPanel = new ReflogPanel(panel, extensionUri, cwd);
+    }
+
+    private constructor(
+        private readonly _panel: vscode.WebviewPanel,
+        private readonly _extensionUri: vscode.Uri,
+        private readonly _cwd: string,
+    ) {
+        _panel.onDidDispose(() => {
+            ReflogPanel.currentPanel = undefined;
+        });
+        _panel.webview.onDidReceiveMessage((message: ReflogViewMessage) => this.handleMessage(message));
+        this.update();
+    }
+
+    private async handleMessage(message: ReflogViewMessage) {
+        switch (message.command) {
+            case 'refresh':
+                await this.update();
+                break;
+            case 'selectRef':
+                this._selectedRef = message.ref!;
+                await this.update();
+                break;
+            case 'scanLostCommits':
+                await this.scanLostCommits();
+                break;
+            case 'showDetails':
+                vscode.commands.executeCommand('git-lean.showCommitDetails', message.hash);
+                break;
+            case 'createBranch':
+                await this.createBranch(message.hash!);
+                break;
+            case 'resetHere':
+                await vscode.commands.executeCommand('git-lean.resetToCommit', message.hash);
+                await this.update();
+                break;
+        }
+    }
+
+    private async update() {
+        let refs = ['HEAD'];
+        try {
+            const { stdout } = await runGit(this._cwd, ['for-each-ref', '--format=%(refname)', 'refs/heads']);
+            refs = ['HEAD', ...stdout.split('\n').filter(Boolean)];
+        } catch {}
+        if (!refs.includes(this._selectedRef)) {
+            this._selectedRef = 'HEAD';
+        }
+
+        let entries: ReflogEntry[] = [];
+        try {
+            const { stdout } = await runGit(this._cwd, [
+                'reflog',
+                'show',
+                `--format=${REFLOG_FORMAT}`,
+                `--max-count=${MAX_REFLOG_ENTRIES}`,
+                this._selectedRef,
+                '--',
+            ]);
+            entries = parseReflog(stdout);
+        } catch {
+            // A ref without a reflog (e.g. created by a fetch with core.logAllRefUpdates off) just shows as empty
+        }
+
+        const data: ReflogViewData = { refs, selectedRef: this._selectedRef, entries, lostCommits: this._lostCommits };
+        if (!this._htmlSet) {
+            this._panel.webview.html = getReflogViewHtml(this._panel.webview, data, this._extensionUri);
+            this._htmlSet = true;
+        } else {
+            this._panel.webview.postMessage({ command: 'replaceReflog', data });
+        }
+    }
+
+    private async scanLostCommits() {
+        let hashes: string[];
+        try {
+            const { stdout } = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Scanning for lost commits…' },
+                () => runGit(this._cwd, ['fsck', '--lost-found', '--no-progress']),
+            );
+            hashes = parseDanglingCommits(stdout);
+        } catch (error) {
+            showGitError(`Failed to scan for lost commits: ${getErrorMessage(error)}`);
+            return;
+        }
+
+        this._lostCommits = [];
+        if (hashes.length > 0) {
+            try {
+                // --no-walk lists just the given commits, newest first
+                const { stdout } = await runGit(this._cwd, [
+                    'log',
+                    '--no-walk',
+                    '--decorate=full',
+                    `--pretty=format:${LOG_FORMAT}`,
+                    ...hashes.slice(0, MAX_LOST_COMMITS),
+                    '--',
+                ]);
+                this._lostCommits = parseGitLogOutput(stdout);
+            } catch (error) {
+                showGitError(`Failed to read lost commits: ${getErrorMessage(error)}`);
+            }
+        }
+        await this.update();
+    }
+
+    // Recovery only creates the branch; checking it out is left to the user
+    private async createBranch(hash: string) {
+        const branchName = await vscode.window.showInputBox({
+            prompt: `Create a branch at ${hash.substring(0, 7)}`,
+            placeHolder: 'New branch name',
+            validateInput: (value) => validateRefName(value),
+        });
+        if (!branchName) {
+            return;
+        }
+
+        try {
+            await runGit(this._cwd, ['branch', branchName, hash]);
+        } catch (error) {
+            showGitError(`Failed to create branch: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Created branch '${branchName}' at ${hash.substring(0, 7)}`);
+        // The commit is reachable again, so it is no longer lost
+        this._lostCommits = this._lostCommits?.filter((commit) => commit.hash !== hash) ?? null;
+        await this.update();
+    }
+}
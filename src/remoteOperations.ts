@@ -0,0 +1,505 @@
+import * as vscode from 'vscode';
+import { parseRemoteList, type RemoteEntry } from './gitParser';
+import { validateRefName } from './refNames';
+import { GitError, getErrorMessage, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+import type { RepositoryManager } from './repositoryManager';
+import { claimRepository, runGitWithProgress } from './gitProgress';
+import { buildFetchIntoBranchArgs, buildPushArgs, type PullOptions, type PullStrategy } from './pushPull';
+import { findWorktreeForBranch } from './worktreeOperations';
+
+interface Upstream {
+    remote: string;
+    branch: string;
+}
+
+const PULL_STRATEGIES: { label: string; description: string; strategy: PullStrategy }[] = [
+    { label: 'Merge', description: 'git pull --no-rebase', strategy: 'merge' },
+    { label: 'Rebase', description: 'git pull --rebase', strategy: 'rebase' },
+    { label: 'Fast-forward Only', description: 'git pull --ff-only', strategy: 'ffOnly' },
+    {
+        label: 'As Configured in Git',
+        description: 'git pull, following pull.rebase and pull.ff',
+        strategy: 'gitConfig',
+    },
+];
+
+export async function getRemotes(cwd: string): Promise<RemoteEntry[]> {
+    try {
+        const { stdout } = await runGit(cwd, ['remote', '-v']);
+        return parseRemoteList(stdout);
+    } catch {
+        return [];
+    }
+}
+
+async function getCurrentBranch(cwd: string): Promise<string | null> {
+    try {
+        return (await runGit(cwd, ['symbolic-ref', '--short', '-q', 'HEAD'])).stdout.trim() || null;
+    } catch {
+        return null;
+    }
+}
+
+// The remote branch a local branch tracks; null without an upstream or when it tracks another local branch
+async function getUpstream(cwd: string, branch: string): Promise<Upstream | null> {
+    try {
+        const { stdout } = await runGit(cwd, [
+            'for-each-ref',
+            '--format=%(upstream:remotename)|%(upstream:remoteref)',
+            `refs/heads/${branch}`,
+        ]);
+        const [remote, remoteRef] = stdout.trim().split('|');
+        if (!remote || remote === '.' || !remoteRef?.startsWith('refs/heads/')) {
+            return null;
+        }
+        return { remote, branch: remoteRef.slice('refs/heads/'.length) };
+    } catch {
+        return null;
+    }
+}
+
+async function hasUncommittedChanges(cwd: string): Promise<boolean> {
+    try {
+        // Untracked files are left alone by both pull and --autostash
+        const { stdout } = await runGit(cwd, ['status', '--porcelain', '--untracked-files=no']);
+        return stdout.trim() !== '';
+    } catch {
+        return false;
+    }
+}
+
+export class RemoteOperations {
+    constructor(
+        private readonly onRefresh: () => void,
+        private readonly repositories: RepositoryManager,
+    ) {}
+
+    private getCwd(): string | null {
+        return this.repositories.selected;
+    }
+
+    // Fetches one remote, or the current branch's remote (usually origin) when none is given
+    async fetch(remote?: string) {
+        await this.run(
+            remote ? ['fetch', remote] : ['fetch'],
+            remote ? `Fetching ${remote}…` : 'Fetching…',
+            remote ? `Fetched ${remote}` : 'Fetch successful',
+            'Fetch failed',
+        );
+    }
+
+    // Also removes remote-tracking branches whose branch was deleted on the remote
+    async fetchAll() {
+        await this.run(['fetch', '--all', '--prune'], 'Fetching all remotes…', 'Fetched all remotes', 'Fetch failed');
+    }
+
+    // Uses gitLean.pullStrategy and gitLean.pullAutostash unless the strategy is 'ask' or alwaysAsk is set, in
+    // which case the strategy is picked and stashing is offered when there are uncommitted changes
+    async pickPullOptions(alwaysAsk: boolean): Promise<PullOptions | undefined> {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return undefined;
+        }
+        const config = vscode.workspace.getConfiguration('gitLean');
+        const configured = config.get<PullStrategy | 'ask'>('pullStrategy', 'ask');
+        const autostash = config.get<boolean>('pullAutostash', false);
+        if (!alwaysAsk && configured !== 'ask') {
+            return { strategy: configured, autostash };
+        }
+
+        const picked = await vscode.window.showQuickPick(PULL_STRATEGIES, {
+            title: 'Pull',
+            placeHolder:
+                'How should the incoming commits be combined with yours? (gitLean.pullStrategy sets a default)',
+        });
+        if (!picked) {
+            return undefined;
+        }
+        if (autostash || !(await hasUncommittedChanges(cwd))) {
+            return { strategy: picked.strategy, autostash };
+        }
+        const choice = await vscode.window.showWarningMessage(
+            'You have uncommitted changes. Stash them during the pull and re-apply them afterwards?',
+            'Stash and Pull',
+            'Pull Without Stashing',
+        );
+        return choice ? { strategy: picked.strategy, autostash: choice === 'Stash and Pull' } : undefined;
+    }
+
+    // Pushes the current branch, offering to publish it when it has no upstream yet
+    async push() {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const branch = await getCurrentBranch(cwd);
+        if (!branch) {
+            vscode.window.showErrorMessage('Cannot push: HEAD is detached. Create a branch first.');
+            return;
+        }
+        // A plain push, so push.default and a configured push remote still apply
+        if (await getUpstream(cwd, branch)) {
+            await this.run(['push'], 'Pushing…', 'Push successful', 'Push failed');
+        } else {
+            await this.publish(cwd, branch);
+        }
+    }
+
+    async pushForce() {
+        const confirm = await vscode.window.showWarningMessage(
+            'Force push will overwrite remote history. Are you sure?',
+            'Force Push',
+            'Cancel',
+        );
+        if (confirm !== 'Force Push') {
+            return;
+        }
+        await this.run(['push', '--force-with-lease'], 'Force pushing…', 'Force push successful', 'Force push failed');
+    }
+
+    // Pushes any local branch to its upstream without checking it out
+    async pushBranch(branch: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const upstream = await getUpstream(cwd, branch);
+        if (!upstream) {
+            await this.publish(cwd, branch);
+            return;
+        }
+        await this.run(
+            buildPushArgs({
+                remote: upstream.remote,
+                branch,
+                remoteBranch: upstream.branch,
+                setUpstream: false,
+                tags: false,
+                forceWithLease: false,
+            }),
+            `Pushing ${branch}…`,
+            `Pushed '${branch}' to ${upstream.remote}/${upstream.branch}`,
+            'Push failed',
+        );
+    }
+
+    // Pushes the current branch to a chosen remote and branch name, optionally with tags
+    async pushTo() {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const branch = await getCurrentBranch(cwd);
+        if (!branch) {
+            vscode.window.showErrorMessage('Cannot push: HEAD is detached. Create a branch first.');
+            return;
+        }
+        const remote = await this.pickRemote(cwd, `Push '${branch}' to which remote?`);
+        if (!remote) {
+            return;
+        }
+        const upstream = await getUpstream(cwd, branch);
+        const remoteBranch = await vscode.window.showInputBox({
+            title: `Push '${branch}' to ${remote}`,
+            prompt: 'Branch name on the remote',
+            value: upstream?.remote === remote ? upstream.branch : branch,
+            validateInput: (value) => validateRefName(value),
+        });
+        if (!remoteBranch) {
+            return;
+        }
+        const options = await vscode.window.showQuickPick(
+            [
+                {
+                    label: 'Set as Upstream',
+                    description: '--set-upstream',
+                    picked: !upstream,
+                    option: 'setUpstream' as const,
+                },
+                { label: 'Push Tags', description: '--tags', picked: false, option: 'tags' as const },
+                {
+                    label: 'Force with Lease',
+                    description: '--force-with-lease',
+                    picked: false,
+                    option: 'forceWithLease' as const,
+                },
+            ],
+            {
+                title: `Push '${branch}' to ${remote}/${remoteBranch.trim()}`,
+                placeHolder: 'Options',
+                canPickMany: true,
+            },
+        );
+        if (!options) {
+            return;
+        }
+        const chosen = new Set(options.map((item) => item.option));
+        await this.run(
+            buildPushArgs({
+                remote,
+                branch,
+                remoteBranch: remoteBranch.trim(),
+                setUpstream: chosen.has('setUpstream'),
+                tags: chosen.has('tags'),
+                forceWithLease: chosen.has('forceWithLease'),
+            }),
+            `Pushing ${branch}…`,
+            `Pushed '${branch}' to ${remote}/${remoteBranch.trim()}`,
+            'Push failed',
+        );
+    }
+
+    // Fast-forwards a branch that is not checked out to its upstream
+    async pullBranch(branch: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const upstream = await getUpstream(cwd, branch);
+        if (!upstream) {
+            vscode.window.showErrorMessage(`'${branch}' has no upstream branch to pull from`);
+            return;
+        }
+        // git refuses to fetch into a branch checked out in another worktree, whose files would fall behind
+        const worktree = await findWorktreeForBranch(cwd, branch);
+        if (worktree) {
+            vscode.window.showWarningMessage(
+                `'${branch}' is checked out in the worktree at ${worktree.path}. Pull it from that worktree.`,
+            );
+            return;
+        }
+        const [command, ...rest] = buildFetchIntoBranchArgs(upstream.remote, upstream.branch, branch);
+        try {
+            if (!(await runGitWithProgress(cwd, [command, '--progress', ...rest], `Pulling ${branch}…`))) {
+                return;
+            }
+        } catch (error) {
+            if (error instanceof GitError && error.stderr.includes('non-fast-forward')) {
+                vscode.window.showWarningMessage(
+                    `'${branch}' and ${upstream.remote}/${upstream.branch} have diverged. Check out '${branch}' to merge or rebase.`,
+                );
+            } else {
+                showGitError(`Pull failed: ${getErrorMessage(error)}`);
+            }
+            return;
+        }
+        vscode.window.showInformationMessage(`Updated '${branch}' from ${upstream.remote}/${upstream.branch}`);
+        this.onRefresh();
+    }
+
+    async addRemote() {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const existing = (await getRemotes(cwd)).map((remote) => remote.name);
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Name of the new remote',
+            placeHolder: existing.includes('origin') ? 'e.g. upstream or fork' : 'origin',
+            validateInput: (value) =>
+                existing.includes(value.trim())
+                    ? `Remote '${value.trim()}' already exists`
+                    : validateRefName(value, 'Remote'),
+        });
+        if (!name) {
+            return;
+        }
+        const url = await vscode.window.showInputBox({
+            prompt: `URL of '${name.trim()}'`,
+            placeHolder: 'https://… or git@…',
+            validateInput: (value) => (value.trim() ? null : 'URL cannot be empty'),
+        });
+        if (!url) {
+            return;
+        }
+
+        try {
+            await runGit(cwd, ['remote', 'add', name.trim(), url.trim()]);
+        } catch (error) {
+            showGitError(`Failed to add remote: ${getErrorMessage(error)}`);
+            return;
+        }
+        this.onRefresh();
+        const choice = await vscode.window.showInformationMessage(`Added remote '${name.trim()}'`, 'Fetch');
+        if (choice === 'Fetch') {
+            await this.fetch(name.trim());
+        }
+    }
+
+    async renameRemote(oldName: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const existing = (await getRemotes(cwd)).map((remote) => remote.name);
+
+        const newName = await vscode.window.showInputBox({
+            prompt: `Rename remote '${oldName}'`,
+            value: oldName,
+            validateInput: (value) =>
+                value.trim() !== oldName && existing.includes(value.trim())
+                    ? `Remote '${value.trim()}' already exists`
+                    : validateRefName(value, 'Remote'),
+        });
+        if (!newName || newName.trim() === oldName) {
+            return;
+        }
+
+        // Also renames the remote-tracking branches and updates branches that track them
+        try {
+            await runGit(cwd, ['remote', 'rename', oldName, newName.trim()]);
+        } catch (error) {
+            showGitError(`Failed to rename remote: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Renamed remote '${oldName}' to '${newName.trim()}'`);
+        this.onRefresh();
+    }
+
+    async removeRemote(name: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const confirm = await vscode.window.showWarningMessage(
+            `Remove remote '${name}'? Its remote-tracking branches are removed too; branches on the remote are not touched.`,
+            'Remove',
+            'Cancel',
+        );
+        if (confirm !== 'Remove') {
+            return;
+        }
+
+        try {
+            await runGit(cwd, ['remote', 'remove', name]);
+        } catch (error) {
+            showGitError(`Failed to remove remote: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Removed remote '${name}'`);
+        this.onRefresh();
+    }
+
+    async editRemoteUrl(name: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const remote = (await getRemotes(cwd)).find((r) => r.name === name);
+        if (!remote) {
+            return;
+        }
+
+        const url = await vscode.window.showInputBox({
+            prompt: `URL of '${name}'`,
+            value: remote.fetchUrl,
+            validateInput: (value) => (value.trim() ? null : 'URL cannot be empty'),
+        });
+        if (!url || url.trim() === remote.fetchUrl) {
+            return;
+        }
+
+        // set-url leaves a separately configured push URL alone
+        try {
+            await runGit(cwd, ['remote', 'set-url', name, url.trim()]);
+        } catch (error) {
+            showGitError(`Failed to change remote URL: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Changed the URL of '${name}'`);
+        this.onRefresh();
+    }
+
+    // Fetches all remotes of the selected repository every gitLean.autoFetchInterval minutes (0 turns it off).
+    // Failures only go to the output channel, so an offline machine is not interrupted every few minutes.
+    startAutoFetch(): vscode.Disposable {
+        let timer: ReturnType<typeof setInterval> | undefined;
+        const schedule = () => {
+            clearInterval(timer);
+            const minutes = vscode.workspace.getConfiguration('gitLean').get<number>('autoFetchInterval', 0);
+            timer = minutes > 0 ? setInterval(() => this.autoFetch(), minutes * 60_000) : undefined;
+        };
+        schedule();
+        const configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('gitLean.autoFetchInterval')) {
+                schedule();
+            }
+        });
+        return new vscode.Disposable(() => {
+            clearInterval(timer);
+            configListener.dispose();
+        });
+    }
+
+    // Skipped while another operation, or the previous background fetch, is running in the repository
+    private async autoFetch() {
+        const cwd = this.getCwd();
+        const release = cwd ? claimRepository(cwd, 'Fetching in the background…') : undefined;
+        if (!cwd || !release) {
+            return;
+        }
+        try {
+            await runGit(cwd, ['fetch', '--all', '--prune']);
+            this.onRefresh();
+        } catch {
+            // Logged by runGit
+        } finally {
+            release();
+        }
+    }
+
+    private async publish(cwd: string, branch: string) {
+        const remote = await this.pickRemote(cwd, `'${branch}' has no upstream branch. Publish it to which remote?`);
+        if (!remote) {
+            return;
+        }
+        await this.run(
+            buildPushArgs({
+                remote,
+                branch,
+                remoteBranch: branch,
+                setUpstream: true,
+                tags: false,
+                forceWithLease: false,
+            }),
+            `Publishing ${branch}…`,
+            `Published '${branch}' to ${remote}`,
+            'Push failed',
+        );
+    }
+
+    // Asks even when there is only one remote, since publishing a branch should be a deliberate choice
+    private async pickRemote(cwd: string, placeHolder: string): Promise<string | undefined> {
+        const remotes = await getRemotes(cwd);
+        if (remotes.length === 0) {
+            vscode.window.showErrorMessage('This repository has no remotes');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            remotes.map((remote) => ({ label: remote.name, description: remote.pushUrl })),
+            { placeHolder },
+        );
+        return picked?.label;
+    }
+
+    private async run(args: string[], progress: string, done: string, failed: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        // Both fetch and push only report progress to a terminal unless asked
+        const [command, ...rest] = args;
+        try {
+            if (!(await runGitWithProgress(cwd, [command, '--progress', ...rest], progress))) {
+                return;
+            }
+        } catch (error) {
+            showGitError(`${failed}: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(done);
+        this.onRefresh();
+    }
+}
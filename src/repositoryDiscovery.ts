@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGit } from './gitRunner';
+
+export interface Repository {
+    root: string;
+    // Path shown in the repository pickers, relative to the workspace folder it was found in
+    label: string;
+}
+
+// Walks down from dir looking for `.git` entries: a directory for ordinary repositories, a file for
+// submodules and linked worktrees. Hidden directories and node_modules are not entered.
+export async function scanForRepositories(dir: string, maxDepth: number): Promise<string[]> {
+    const found: string[] = [];
+
+    const walk = async (current: string, depth: number) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(current, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        if (entries.some((entry) => entry.name === '.git')) {
+            found.push(current);
+        }
+        if (depth >= maxDepth) {
+            return;
+        }
+        for (const entry of entries) {
+            if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+                await walk(path.join(current, entry.name), depth + 1);
+            }
+        }
+    };
+
+    await walk(dir, 0);
+    return found;
+}
+
+// The repository a folder belongs to, which can be above the folder itself
+export async function getRepositoryRoot(dir: string): Promise<string | null> {
+    try {
+        const { stdout } = await runGit(dir, ['rev-parse', '--show-toplevel']);
+        return path.normalize(stdout.trim());
+    } catch {
+        return null;
+    }
+}
+
+export function getRepositoryLabel(root: string, folders: string[]): string {
+    for (const folder of folders) {
+        const relative = path.relative(folder, root);
+        if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+            return relative ? path.join(path.basename(folder), relative) : path.basename(folder);
+        }
+    }
+    return path.basename(root);
+}
+
+// Every repository in or above the given workspace folders, sorted by path
+export async function discoverRepositories(folders: string[], maxDepth: number): Promise<Repository[]> {
+    const roots = new Set<string>();
+    for (const folder of folders) {
+        const root = await getRepositoryRoot(folder);
+        if (root) {
+            roots.add(root);
+        }
+        for (const nested of await scanForRepositories(folder, maxDepth)) {
+            roots.add(path.normalize(nested));
+        }
+    }
+    return [...roots].sort().map((root) => ({ root, label: getRepositoryLabel(root, folders) }));
+}
@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { discoverRepositories, getRepositoryRoot, type Repository } from './repositoryDiscovery';
+import { runGit } from './gitRunner';
+
+export type { Repository } from './repositoryDiscovery';
+
+// What the graph and branch views need to render their repository picker
+export interface RepositorySelection {
+    repositories: Repository[];
+    selected: string | null;
+}
+
+const SELECTED_KEY = 'gitLean.selectedRepository';
+
+// Finds the repositories in the workspace, tracks which one the views show and watches each one's
+// git directory. Every git command the views and commands run goes to the selected repository.
+export class RepositoryManager implements vscode.Disposable {
+    private _repositories: Repository[] = [];
+    private _selected: string | null;
+    private readonly _watchers = new Map<string, vscode.Disposable>();
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    private readonly _onDidChangeSelection = new vscode.EventEmitter<void>();
+    // Fired when the list of repositories or the selected one changes
+    readonly onDidChangeSelection = this._onDidChangeSelection.event;
+
+    private readonly _onDidChangeRepository = new vscode.EventEmitter<string>();
+    // Fired with the repository root whenever something in its git directory changes
+    readonly onDidChangeRepository = this._onDidChangeRepository.event;
+
+    constructor(private readonly workspaceState: vscode.Memento) {
+        // Until discovery finishes, fall back to the last selection or the first folder as before
+        this._selected =
+            workspaceState.get<string>(SELECTED_KEY) ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? null;
+
+        this._disposables.push(
+            this._onDidChangeSelection,
+            this._onDidChangeRepository,
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.discover()),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('gitLean.repositoryScanMaxDepth')) {
+                    this.discover();
+                }
+            }),
+        );
+    }
+
+    get repositories(): Repository[] {
+        return this._repositories;
+    }
+
+    get selected(): string | null {
+        return this._selected;
+    }
+
+    getSelection(): RepositorySelection {
+        return { repositories: this._repositories, selected: this._selected };
+    }
+
+    async discover(): Promise<void> {
+        const folders = (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri.fsPath);
+        const maxDepth = vscode.workspace.getConfiguration('gitLean').get<number>('repositoryScanMaxDepth', 2);
+        const repositories = await discoverRepositories(folders, maxDepth);
+        const roots = repositories.map((repo) => repo.root);
+
+        const listChanged = roots.join('\n') !== this._repositories.map((repo) => repo.root).join('\n');
+        this._repositories = repositories;
+        this.updateWatchers(roots);
+
+        let selected = this._selected;
+        if (!selected || !roots.includes(selected)) {
+            const firstFolderRoot = folders.length > 0 ? await getRepositoryRoot(folders[0]) : null;
+            selected = firstFolderRoot && roots.includes(firstFolderRoot) ? firstFolderRoot : (roots[0] ?? null);
+        }
+
+        if (selected !== this._selected) {
+            await this.select(selected);
+        } else if (listChanged) {
+            this._onDidChangeSelection.fire();
+        }
+    }
+
+    async select(root: string | null): Promise<void> {
+        this._selected = root;
+        await this.workspaceState.update(SELECTED_KEY, root ?? undefined);
+        this._onDidChangeSelection.fire();
+    }
+
+    async pickRepository(): Promise<void> {
+        if (this._repositories.length === 0) {
+            vscode.window.showInformationMessage('No git repositories found in this workspace');
+            return;
+        }
+        const pick = await vscode.window.showQuickPick(
+            this._repositories.map((repo) => ({
+                label: repo.label,
+                description: repo.root === this._selected ? 'current' : undefined,
+                detail: repo.root,
+                root: repo.root,
+            })),
+            { placeHolder: 'Select the repository Git Lean shows' },
+        );
+        if (pick && pick.root !== this._selected) {
+            await this.select(pick.root);
+        }
+    }
+
+    private updateWatchers(roots: string[]) {
+        for (const [root, watcher] of this._watchers) {
+            if (!roots.includes(root)) {
+                watcher.dispose();
+                this._watchers.delete(root);
+            }
+        }
+        for (const root of roots) {
+            if (!this._watchers.has(root)) {
+                // Reserve the slot so a second discovery does not start another watcher meanwhile
+                this._watchers.set(root, { dispose: () => undefined });
+                this.watch(root);
+            }
+        }
+    }
+
+    // Submodules and linked worktrees keep their git directory outside the working tree, so ask git where it is
+    private async watch(root: string) {
+        let gitDir: string;
+        try {
+            gitDir = (await runGit(root, ['rev-parse', '--absolute-git-dir'])).stdout.trim();
+        } catch {
+            return;
+        }
+        if (!this._watchers.has(root)) {
+            return;
+        }
+
+        const watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(gitDir), '**'),
+        );
+        const fire = () => this._onDidChangeRepository.fire(root);
+        watcher.onDidChange(fire);
+        watcher.onDidCreate(fire);
+        watcher.onDidDelete(fire);
+        this._watchers.set(root, watcher);
+    }
+
+    dispose() {
+        for (const watcher of this._watchers.values()) {
+            watcher.dispose();
+        }
+        this._watchers.clear();
+        for (const disposable of this._disposables) {
+            disposable.dispose();
+        }
+    }
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { runGit } from './gitRunner';
+
+export type SequencerOperation = 'rebase' | 'merge' | 'cherry-pick' | 'revert';
+export type SequencerAction = 'continue' | 'skip' | 'abort';
+
+export interface SequencerSession {
+    operation: SequencerOperation;
+    // OPERATION_LABELS[operation], for the webviews
+    label: string;
+    conflictedFiles: string[];
+}
+
+// Checked in order: a rebase can leave CHERRY_PICK_HEAD-like files behind, so it wins.
+const OPERATION_MARKERS: [string, SequencerOperation][] = [
+    ['rebase-merge', 'rebase'],
+    ['rebase-apply', 'rebase'],
+    ['MERGE_HEAD', 'merge'],
+    ['CHERRY_PICK_HEAD', 'cherry-pick'],
+    ['REVERT_HEAD', 'revert'],
+];
+
+export function detectSequencerOperation(existsInGitDir: (name: string) => boolean): SequencerOperation | null {
+    for (const [marker, operation] of OPERATION_MARKERS) {
+        if (existsInGitDir(marker)) {
+            return operation;
+        }
+    }
+    return null;
+}
+
+export const OPERATION_LABELS: Record<SequencerOperation, string> = {
+    rebase: 'Rebase',
+    merge: 'Merge',
+    'cherry-pick': 'Cherry-pick',
+    revert: 'Revert',
+};
+
+// Progress titles for the session actions, e.g. "Continuing rebase…"
+export const ACTION_PROGRESS_LABELS: Record<SequencerAction, string> = {
+    continue: 'Continuing',
+    skip: 'Skipping',
+    abort: 'Aborting',
+};
+
+export function canSkip(operation: SequencerOperation): boolean {
+    return operation !== 'merge';
+}
+
+export async function getSequencerSession(cwd: string): Promise<SequencerSession | null> {
+    let dir: string;
+    try {
+        dir = (await runGit(cwd, ['rev-parse', '--absolute-git-dir'])).stdout.trim();
+    } catch {
+        return null;
+    }
+    const operation = detectSequencerOperation((name) => fs.existsSync(path.join(dir, name)));
+    if (!operation) {
+        return null;
+    }
+
+    const diff = await runGit(cwd, ['diff', '--name-only', '--diff-filter=U']).catch(() => ({ stdout: '' }));
+    const conflictedFiles = diff.stdout.split('\n').filter((line) => line.trim());
+    return { operation, label: OPERATION_LABELS[operation], conflictedFiles };
+}
+
+// The command that continues, skips or aborts an operation
+export function getSequencerActionArgs(operation: SequencerOperation, action: SequencerAction): string[] {
+    // A merge has no --continue of its own before git 2.12 and never a --skip; committing concludes it
+    if (operation === 'merge' && action === 'continue') {
+        return ['commit', '--no-edit'];
+    }
+    return [operation, `--${action}`];
+}
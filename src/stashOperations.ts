@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { validateRefName } from './refNames';
+import { getErrorMessage, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+import type { RepositoryManager } from './repositoryManager';
+
+export class StashOperations {
+    constructor(
+        private readonly onRefresh: () => void,
+        private readonly repositories: RepositoryManager,
+    ) {}
+
+    private getCwd(): string | null {
+        return this.repositories.selected;
+    }
+
+    async createStash() {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const scope = await vscode.window.showQuickPick(
+            [
+                { label: 'Include untracked files', value: true },
+                { label: 'Tracked changes only', value: false },
+            ],
+            { placeHolder: 'What should be stashed?' },
+        );
+        if (!scope) {
+            return;
+        }
+
+        const message = await vscode.window.showInputBox({
+            prompt: 'Stash message',
+            placeHolder: 'Optional description of the stashed changes',
+        });
+        if (message === undefined) {
+            return;
+        }
+
+        const args = ['stash', 'push'];
+        if (scope.value) {
+            args.push('--include-untracked');
+        }
+        if (message.trim()) {
+            args.push('-m', message.trim());
+        }
+
+        let stdout: string;
+        try {
+            ({ stdout } = await runGit(cwd, args));
+        } catch (error) {
+            showGitError(`Failed to stash changes: ${getErrorMessage(error)}`);
+            return;
+        }
+        if (stdout.includes('No local changes to save')) {
+            vscode.window.showInformationMessage('No local changes to stash');
+            return;
+        }
+        vscode.window.showInformationMessage('Changes stashed');
+        this.onRefresh();
+    }
+
+    async applyStash(stashRef: string) {
+        await this.runStashCommand(['stash', 'apply', stashRef], `Applied ${stashRef}`, 'Failed to apply stash');
+    }
+
+    async popStash(stashRef: string) {
+        await this.runStashCommand(['stash', 'pop', stashRef], `Popped ${stashRef}`, 'Failed to pop stash');
+    }
+
+    async dropStash(stashRef: string) {
+        const confirm = await vscode.window.showWarningMessage(
+            `Are you sure you want to drop ${stashRef}?`,
+            'Drop',
+            'Cancel',
+        );
+        if (confirm !== 'Drop') {
+            return;
+        }
+        await this.runStashCommand(['stash', 'drop', stashRef], `Dropped ${stashRef}`, 'Failed to drop stash');
+    }
+
+    async branchFromStash(stashRef: string) {
+        const branchName = await vscode.window.showInputBox({
+            prompt: `Create a new branch from ${stashRef}`,
+            placeHolder: 'New branch name',
+            validateInput: (value) => validateRefName(value),
+        });
+        if (!branchName) {
+            return;
+        }
+        await this.runStashCommand(
+            ['stash', 'branch', branchName, stashRef],
+            `Created and switched to branch '${branchName}'`,
+            'Failed to create branch from stash',
+        );
+    }
+
+    private async runStashCommand(args: string[], successMessage: string, errorPrefix: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        try {
+            await runGit(cwd, args);
+        } catch (error) {
+            showGitError(`${errorPrefix}: ${getErrorMessage(error)}`);
+            // A conflicting apply/pop still changes the working tree
+            this.onRefresh();
+            return;
+        }
+        vscode.window.showInformationMessage(successMessage);
+        this.onRefresh();
+    }
+}
@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import { parseDirtySubmodules, parseSubmoduleStatus, type SubmoduleState } from './gitParser';
+import { getErrorMessage, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+import type { RepositoryManager } from './repositoryManager';
+import { runGitWithProgress } from './gitProgress';
+
+export interface Submodule {
+    path: string;
+    // Commit the superproject's index records for the submodule
+    recorded: string;
+    // Commit checked out in the submodule, null when it is not initialized
+    checkedOut: string | null;
+    state: SubmoduleState;
+    // Has uncommitted or untracked files of its own
+    dirty: boolean;
+    describe: string | null;
+}
+
+export async function getSubmodules(cwd: string): Promise<Submodule[]> {
+    let checkedOut: string;
+    let recorded: string;
+    let status: string;
+    try {
+        ({ stdout: checkedOut } = await runGit(cwd, ['submodule', 'status']));
+        if (!checkedOut.trim()) {
+            return [];
+        }
+        ({ stdout: recorded } = await runGit(cwd, ['submodule', 'status', '--cached']));
+        ({ stdout: status } = await runGit(cwd, ['status', '--porcelain=v2', '--ignore-submodules=none']));
+    } catch {
+        return [];
+    }
+
+    const recordedByPath = new Map(parseSubmoduleStatus(recorded).map((entry) => [entry.path, entry.commit]));
+    const dirty = new Set(parseDirtySubmodules(status));
+    return parseSubmoduleStatus(checkedOut).map((entry) => ({
+        path: entry.path,
+        recorded: recordedByPath.get(entry.path) ?? entry.commit,
+        checkedOut: entry.state === 'uninitialized' ? null : entry.commit,
+        state: entry.state,
+        dirty: dirty.has(entry.path),
+        describe: entry.describe,
+    }));
+}
+
+// Each action takes a submodule path, or none to act on every submodule
+export class SubmoduleOperations {
+    constructor(
+        private readonly onRefresh: () => void,
+        private readonly repositories: RepositoryManager,
+    ) {}
+
+    private getCwd(): string | null {
+        return this.repositories.selected;
+    }
+
+    async initSubmodule(path?: string) {
+        await this.run(['submodule', 'init'], path, ['Initializing', 'Initialized', 'initialize']);
+    }
+
+    async updateSubmodule(path?: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        // Update checks out the recorded commit, moving away from whatever was checked out on purpose
+        const moved = (await getSubmodules(cwd)).filter(
+            (submodule) => submodule.state === 'modified' && (!path || submodule.path === path),
+        );
+        if (moved.length > 0) {
+            const confirm = await vscode.window.showWarningMessage(
+                moved.length === 1
+                    ? `'${moved[0].path}' has ${moved[0].checkedOut!.substring(0, 7)} checked out, not the recorded ${moved[0].recorded.substring(0, 7)}. Update checks out the recorded commit.`
+                    : `${moved.length} submodules have a different commit checked out than the one recorded. Update checks out the recorded commits.`,
+                {
+                    modal: true,
+                    detail: moved.length > 1 ? moved.map((submodule) => submodule.path).join(', ') : undefined,
+                },
+                'Update',
+            );
+            if (confirm !== 'Update') {
+                return;
+            }
+        }
+
+        await this.run(['submodule', 'update', '--init', '--recursive', '--progress'], path, [
+            'Updating',
+            'Updated',
+            'update',
+        ]);
+    }
+
+    // Copies the URL from .gitmodules into the submodule's config, after the URL changed upstream
+    async syncSubmodule(path?: string) {
+        await this.run(['submodule', 'sync', '--recursive'], path, ['Syncing', 'Synced', 'sync']);
+    }
+
+    private async run(
+        args: string[],
+        path: string | undefined,
+        [progress, done, verb]: [progress: string, done: string, verb: string],
+    ) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const target = path ? `submodule '${path}'` : 'submodules';
+        try {
+            if (!(await runGitWithProgress(cwd, path ? [...args, '--', path] : args, `${progress} ${target}…`))) {
+                return;
+            }
+        } catch (error) {
+            showGitError(`Failed to ${verb} ${target}: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`${done} ${target}`);
+        this.onRefresh();
+    }
+}
@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { validateRefName } from './refNames';
+import { getErrorMessage, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+import type { RepositoryManager } from './repositoryManager';
+import { runGitWithProgress } from './gitProgress';
+
+export class TagOperations {
+    constructor(
+        private readonly onRefresh: () => void,
+        private readonly repositories: RepositoryManager,
+    ) {}
+
+    private getCwd(): string | null {
+        return this.repositories.selected;
+    }
+
+    async createTag(commitHash: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const tagName = await vscode.window.showInputBox({
+            prompt: `Create tag at ${commitHash.substring(0, 7)}`,
+            placeHolder: 'Tag name, e.g. v1.2.0',
+            validateInput: (value) => validateRefName(value, 'Tag'),
+        });
+        if (!tagName) {
+            return;
+        }
+
+        const message = await vscode.window.showInputBox({
+            prompt: 'Annotation message',
+            placeHolder: 'Leave empty for a lightweight tag',
+        });
+        if (message === undefined) {
+            return;
+        }
+
+        const args = message.trim()
+            ? ['tag', '-a', tagName, '-m', message.trim(), commitHash]
+            : ['tag', tagName, commitHash];
+        try {
+            await runGit(cwd, args);
+        } catch (error) {
+            showGitError(`Failed to create tag: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Created tag '${tagName}'`);
+        this.onRefresh();
+    }
+
+    async deleteTag(tagName: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Delete tag '${tagName}'?`,
+            'Delete Local',
+            'Delete Local and Remote',
+            'Cancel',
+        );
+        if (choice !== 'Delete Local' && choice !== 'Delete Local and Remote') {
+            return;
+        }
+
+        let remote: string | undefined;
+        if (choice === 'Delete Local and Remote') {
+            remote = await this.pickRemote(cwd, `Delete '${tagName}' from which remote?`);
+            if (!remote) {
+                return;
+            }
+        }
+
+        try {
+            await runGit(cwd, ['tag', '-d', tagName]);
+        } catch (error) {
+            showGitError(`Failed to delete tag: ${getErrorMessage(error)}`);
+            return;
+        }
+        if (!remote) {
+            vscode.window.showInformationMessage(`Deleted tag '${tagName}'`);
+            this.onRefresh();
+            return;
+        }
+        try {
+            const result = await runGitWithProgress(
+                cwd,
+                ['push', '--progress', remote, '--delete', `refs/tags/${tagName}`],
+                `Deleting tag ${tagName} from ${remote}…`,
+            );
+            if (result) {
+                vscode.window.showInformationMessage(`Deleted tag '${tagName}' locally and from ${remote}`);
+            }
+        } catch (error) {
+            showGitError(
+                `Deleted tag '${tagName}' locally, but failed to delete it from ${remote}: ${getErrorMessage(error)}`,
+            );
+        }
+        this.onRefresh();
+    }
+
+    async pushTag(tagName: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const remote = await this.pickRemote(cwd, `Push '${tagName}' to which remote?`);
+        if (!remote) {
+            return;
+        }
+
+        try {
+            const result = await runGitWithProgress(
+                cwd,
+                ['push', '--progress', remote, `refs/tags/${tagName}`],
+                `Pushing tag ${tagName}…`,
+            );
+            if (!result) {
+                return;
+            }
+        } catch (error) {
+            showGitError(`Failed to push tag: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Pushed tag '${tagName}' to ${remote}`);
+    }
+
+    async pushAllTags() {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        const remote = await this.pickRemote(cwd, 'Push all tags to which remote?');
+        if (!remote) {
+            return;
+        }
+
+        try {
+            if (!(await runGitWithProgress(cwd, ['push', '--progress', remote, '--tags'], 'Pushing tags…'))) {
+                return;
+            }
+        } catch (error) {
+            showGitError(`Failed to push tags: ${getErrorMessage(error)}`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Pushed all tags to ${remote}`);
+    }
+
+    // Skips the prompt when there is only one remote
+    private async pickRemote(cwd: string, placeHolder: string): Promise<string | undefined> {
+        const remotes = await runGit(cwd, ['remote']).then(
+            ({ stdout }) => stdout.split('\n').filter((r) => r.trim()),
+            () => [],
+        );
+        if (remotes.length === 0) {
+            vscode.window.showErrorMessage('This repository has no remotes');
+            return undefined;
+        }
+        if (remotes.length === 1) {
+            return remotes[0];
+        }
+        return vscode.window.showQuickPick(remotes, { placeHolder });
+    }
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { findCleanupCandidates, type CleanupOptions } from '../branchCleanup';
+import type { BranchEntry } from '../gitParser';
+
+const DAY = 24 * 60 * 60;
+const NOW = 1_700_000_000;
+
+function branch(fullName: string, overrides: Partial<BranchEntry> = {}, ageDays = 1): BranchEntry {
+    return {
+        fullName,
+        isRemote: false,
+        isHead: false,
+        upstream: null,
+        ahead: 0,
+        behind: 0,
+        upstreamGone: false,
+        lastCommit: { hash: 'abc1234', date: '', timestamp: NOW - ageDays * DAY, author: 'Ada', subject: '' },
+        ...overrides,
+    };
+}
+
+function options(overrides: Partial<CleanupOptions> = {}): CleanupOptions {
+    return { base: 'main', merged: new Set(), checkedOut: new Set(), staleDays: 90, now: NOW, ...overrides };
+}
+
+describe('findCleanupCandidates', () => {
+    it('offers merged, gone and stale branches with every reason that applies', () => {
+        const candidates = findCleanupCandidates(
+            [
+                branch('merged'),
+                branch('gone', { upstream: 'origin/gone', upstreamGone: true }),
+                branch('stale', {}, 120),
+                branch('all', { upstream: 'origin/all', upstreamGone: true }, 365),
+                branch('active', { upstream: 'origin/active' }),
+            ],
+            options({ merged: new Set(['merged', 'all']) }),
+        );
+
+        expect(candidates.map((c) => [c.branch.fullName, c.reasons])).toEqual([
+            ['merged', ['merged']],
+            ['gone', ['gone']],
+            ['stale', ['stale']],
+            ['all', ['merged', 'gone', 'stale']],
+        ]);
+    });
+
+    it('never offers the base, the current branch, checked-out or remote branches', () => {
+        const candidates = findCleanupCandidates(
+            [
+                branch('main'),
+                branch('current', { isHead: true }),
+                branch('in-worktree'),
+                branch('origin/merged', { isRemote: true }),
+            ],
+            options({
+                merged: new Set(['main', 'current', 'in-worktree', 'origin/merged']),
+                checkedOut: new Set(['in-worktree']),
+            }),
+        );
+
+        expect(candidates).toEqual([]);
+    });
+
+    it('counts a branch as stale only past the given number of days', () => {
+        const candidates = findCleanupCandidates(
+            [branch('recent', {}, 29), branch('old', {}, 31)],
+            options({ staleDays: 30 }),
+        );
+
+        expect(candidates.map((c) => c.branch.fullName)).toEqual(['old']);
+    });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchArgs, isHashPrefix } from '../commitSearch';
+
+describe('buildSearchArgs', () => {
+    it('matches messages and authors literally, ignoring case', () => {
+        expect(buildSearchArgs({ mode: 'message', query: 'fix(parser): a.b' })).toEqual([
+            '--regexp-ignore-case',
+            '--fixed-strings',
+            '--grep=fix(parser): a.b',
+        ]);
+        expect(buildSearchArgs({ mode: 'author', query: 'ada@example.com' })).toEqual([
+            '--regexp-ignore-case',
+            '--fixed-strings',
+            '--author=ada@example.com',
+        ]);
+    });
+
+    it('uses the pickaxe options for content searches', () => {
+        expect(buildSearchArgs({ mode: 'content', query: 'getCwd()' })).toEqual(['-SgetCwd()']);
+        expect(buildSearchArgs({ mode: 'regex', query: 'get\\w+\\(' })).toEqual(['-Gget\\w+\\(']);
+    });
+
+    it('keeps queries that look like options inside the same argument', () => {
+        expect(buildSearchArgs({ mode: 'content', query: '--all' })).toEqual(['-S--all']);
+    });
+
+    it('has no log options for hash lookups', () => {
+        expect(buildSearchArgs({ mode: 'hash', query: 'abc123' })).toEqual([]);
+    });
+});
+
+describe('isHashPrefix', () => {
+    it('accepts four to forty hex digits', () => {
+        expect(isHashPrefix('abcd')).toBe(true);
+        expect(isHashPrefix('7228A550821d491b8bd072cf538f3fb8458e8f91')).toBe(true);
+    });
+
+    it('rejects short or non-hex input', () => {
+        expect(isHashPrefix('abc')).toBe(false);
+        expect(isHashPrefix('main')).toBe(false);
+        expect(isHashPrefix('7228a550821d491b8bd072cf538f3fb8458e8f91a')).toBe(false);
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+    MAX_DIFF_FILES,
+    MAX_DIFF_LINES,
+    displayName,
+    isDiffTooLarge,
+    parseLeftRightCount,
+    parseNumstat,
+} from '../comparison';
+
+describe('displayName', () => {
+    it('shortens full hashes and strips branch and tag prefixes', () => {
+        expect(displayName('0123456789abcdef0123456789abcdef01234567')).toBe('0123456');
+        expect(displayName('refs/heads/feature/x')).toBe('feature/x');
+        expect(displayName('refs/tags/v1.0')).toBe('v1.0');
+    });
+
+    it('keeps other names as given', () => {
+        expect(displayName('origin/main')).toBe('origin/main');
+        expect(displayName('refs/remotes/origin/main')).toBe('refs/remotes/origin/main');
+        expect(displayName('abc1234')).toBe('abc1234');
+    });
+});
+
+describe('parseLeftRightCount', () => {
+    it('reads the counts of both sides', () => {
+        expect(parseLeftRightCount('3\t12\n')).toEqual([3, 12]);
+    });
+
+    it('falls back to zero on empty output', () => {
+        expect(parseLeftRightCount('')).toEqual([0, 0]);
+    });
+});
+
+describe('parseNumstat', () => {
+    it('reads text, binary and renamed files', () => {
+        expect(parseNumstat('4\t1\tsrc/app.ts\n-\t-\timages/logo.png\n0\t0\tsrc/{old => new}/file.ts\n')).toEqual([
+            { path: 'src/app.ts', added: 4, deleted: 1 },
+            { path: 'images/logo.png', added: null, deleted: null },
+            { path: 'src/{old => new}/file.ts', added: 0, deleted: 0 },
+        ]);
+    });
+});
+
+describe('isDiffTooLarge', () => {
+    const file = (added: number | null) => ({ path: 'f', added, deleted: added });
+
+    it('allows diffs within the limits', () => {
+        expect(isDiffTooLarge([file(10), file(null)])).toBe(false);
+    });
+
+    it('rejects too many files or changed lines', () => {
+        expect(isDiffTooLarge(Array.from({ length: MAX_DIFF_FILES + 1 }, () => file(0)))).toBe(true);
+        expect(isDiffTooLarge([file(MAX_DIFF_LINES / 2), file(1)])).toBe(true);
+    });
+});
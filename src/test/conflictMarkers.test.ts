@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { countConflicts, matchConflictChoices, parseConflictMarkers, resolveConflicts } from '../conflictMarkers';
+
+const merged = [
+    'line 1',
+    '<<<<<<< ours',
+    'ours change',
+    '||||||| base',
+    'original',
+    '=======',
+    'theirs change',
+    '>>>>>>> theirs',
+    'line 3',
+    '',
+].join('\n');
+
+describe('parseConflictMarkers', () => {
+    it('returns a single common segment for text without markers', () => {
+        expect(parseConflictMarkers('a\nb\n')).toEqual([{ type: 'common', lines: ['a', 'b', ''] }]);
+    });
+
+    it('splits diff3 markers into ours, base and theirs', () => {
+        expect(parseConflictMarkers(merged)).toEqual([
+            { type: 'common', lines: ['line 1'] },
+            { type: 'conflict', ours: ['ours change'], base: ['original'], theirs: ['theirs change'] },
+            { type: 'common', lines: ['line 3', ''] },
+        ]);
+    });
+
+    it('handles two-way markers without a base section', () => {
+        const [segment] = parseConflictMarkers('<<<<<<< HEAD\na\n=======\nb\n>>>>>>> feature');
+        expect(segment).toEqual({ type: 'conflict', ours: ['a'], base: [], theirs: ['b'] });
+    });
+
+    it('keeps the text of an unterminated conflict verbatim', () => {
+        expect(parseConflictMarkers('x\n<<<<<<< ours\na\n=======\nb')).toEqual([
+            { type: 'common', lines: ['x', '<<<<<<< ours', 'a', '=======', 'b'] },
+        ]);
+    });
+
+    it('counts conflicts', () => {
+        expect(countConflicts(parseConflictMarkers(merged + merged))).toBe(2);
+    });
+});
+
+describe('resolveConflicts', () => {
+    const segments = parseConflictMarkers(merged);
+
+    it('returns null while a conflict is undecided', () => {
+        expect(resolveConflicts(segments, [null])).toBeNull();
+    });
+
+    it('keeps ours, theirs or both in order', () => {
+        expect(resolveConflicts(segments, ['ours'])).toBe('line 1\nours change\nline 3\n');
+        expect(resolveConflicts(segments, ['theirs'])).toBe('line 1\ntheirs change\nline 3\n');
+        expect(resolveConflicts(segments, ['both'])).toBe('line 1\nours change\ntheirs change\nline 3\n');
+    });
+
+    it('round-trips text without conflicts', () => {
+        expect(resolveConflicts(parseConflictMarkers('a\r\nb\r\n'), [])).toBe('a\r\nb\r\n');
+    });
+});
+
+describe('matchConflictChoices', () => {
+    const shown = parseConflictMarkers(
+        'x\n<<<<<<< ours\na\n||||||| base\no\n=======\nb\n>>>>>>> theirs\ny\n<<<<<<< ours\nc\n||||||| base\no\n=======\nd\n>>>>>>> theirs\n',
+    );
+
+    it('matches conflicts written without a base', () => {
+        const current = parseConflictMarkers(
+            'x\n<<<<<<< HEAD\na\n=======\nb\n>>>>>>> feature\ny\n<<<<<<< HEAD\nc\n=======\nd\n>>>>>>> feature\n',
+        );
+        expect(matchConflictChoices(shown, current, ['ours', 'theirs'])).toEqual(['ours', 'theirs']);
+    });
+
+    it('skips the conflicts resolved by hand', () => {
+        const current = parseConflictMarkers('x\nedited\ny\n<<<<<<< HEAD\nc\n=======\nd\n>>>>>>> feature\n');
+        expect(matchConflictChoices(shown, current, ['ours', 'theirs'])).toEqual(['theirs']);
+    });
+
+    it('returns null for a conflict that was not shown', () => {
+        const current = parseConflictMarkers('<<<<<<< HEAD\nc\n=======\ne\n>>>>>>> feature\n');
+        expect(matchConflictChoices(shown, current, ['ours', 'theirs'])).toBeNull();
+    });
+});
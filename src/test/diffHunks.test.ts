@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { buildHunkPatch, parseFilePatches } from '../diffHunks';
+
+const diff = [
+    'diff --git a/src/app.ts b/src/app.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/app.ts',
+    '+++ b/src/app.ts',
+    '@@ -1,3 +1,3 @@',
+    ' one',
+    '-two',
+    '+TWO',
+    ' three',
+    '@@ -10,2 +10,3 @@ function main() {',
+    ' ten',
+    '+ten and a half',
+    ' eleven',
+    'diff --git a/old.txt b/old.txt',
+    'deleted file mode 100644',
+    'index 3333333..0000000',
+    '--- a/old.txt',
+    '+++ /dev/null',
+    '@@ -1 +0,0 @@',
+    '-gone',
+    '\\ No newline at end of file',
+    'diff --git a/logo.png b/logo.png',
+    'index 4444444..5555555 100644',
+    'Binary files a/logo.png and b/logo.png differ',
+    '',
+].join('\n');
+
+describe('parseFilePatches', () => {
+    it('returns no files for empty output', () => {
+        expect(parseFilePatches('')).toEqual([]);
+    });
+
+    it('splits the diff into files and hunks', () => {
+        const files = parseFilePatches(diff);
+
+        expect(files.map((f) => f.path)).toEqual(['src/app.ts', 'old.txt', 'logo.png']);
+        expect(files[0].header).toHaveLength(4);
+        expect(files[0].hunks.map((h) => h.header)).toEqual(['@@ -1,3 +1,3 @@', '@@ -10,2 +10,3 @@ function main() {']);
+        expect(files[0].hunks[1].lines).toEqual([' ten', '+ten and a half', ' eleven']);
+    });
+
+    it('takes the path of a deleted file from the old side', () => {
+        const deleted = parseFilePatches(diff)[1];
+
+        expect(deleted.path).toBe('old.txt');
+        expect(deleted.hunks[0].lines).toEqual(['-gone', '\\ No newline at end of file']);
+    });
+
+    it('drops the tab git appends to paths with spaces', () => {
+        const [file] = parseFilePatches(
+            [
+                'diff --git a/my file.txt b/my file.txt',
+                'index 1111111..2222222 100644',
+                '--- a/my file.txt\t',
+                '+++ b/my file.txt\t',
+                '@@ -1 +1 @@',
+                '-a',
+                '+b',
+            ].join('\n'),
+        );
+
+        expect(file.path).toBe('my file.txt');
+    });
+
+    it('unquotes C-quoted paths', () => {
+        const [file, binary] = parseFilePatches(
+            [
+                'diff --git "a/t\\303\\251st\\t\\"q\\".txt" "b/t\\303\\251st\\t\\"q\\".txt"',
+                'index 1111111..2222222 100644',
+                '--- "a/t\\303\\251st\\t\\"q\\".txt"',
+                '+++ "b/t\\303\\251st\\t\\"q\\".txt"',
+                '@@ -1 +1 @@',
+                '-a',
+                '+b',
+                'diff --git "a/\\303\\251.png" "b/\\303\\251.png"',
+                'Binary files "a/\\303\\251.png" and "b/\\303\\251.png" differ',
+            ].join('\n'),
+        );
+
+        expect(file.path).toBe('tést\t"q".txt');
+        expect(binary.path).toBe('é.png');
+    });
+
+    it('marks binary files, which have no hunks', () => {
+        const binary = parseFilePatches(diff)[2];
+
+        expect(binary.binary).toBe(true);
+        expect(binary.hunks).toEqual([]);
+    });
+});
+
+describe('buildHunkPatch', () => {
+    it('combines the file header with a single hunk', () => {
+        const [file] = parseFilePatches(diff);
+
+        expect(buildHunkPatch(file, 1)).toBe(
+            [
+                'diff --git a/src/app.ts b/src/app.ts',
+                'index 1111111..2222222 100644',
+                '--- a/src/app.ts',
+                '+++ b/src/app.ts',
+                '@@ -10,2 +10,3 @@ function main() {',
+                ' ten',
+                '+ten and a half',
+                ' eleven',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    it('returns null for a hunk that does not exist', () => {
+        const [file] = parseFilePatches(diff);
+
+        expect(buildHunkPatch(file, 5)).toBeNull();
+    });
+});
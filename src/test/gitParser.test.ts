@@ -1,5 +1,19 @@
 import { describe, it, expect } from 'vitest';
-import { parseGitLogOutput } from '../gitParser';
+import {
+    parseBranchList,
+    parseDanglingCommits,
+    parseDirtySubmodules,
+    parseGitLogOutput,
+    parseGitProgress,
+    parseReflog,
+    parseRemoteList,
+    parseStashList,
+    parseStatusPorcelainV2,
+    parseSubmoduleStatus,
+    parseTagList,
+    parseUnmergedFiles,
+    parseWorktreeList,
+} from '../gitParser';
 
 describe('parseGitLogOutput', () => {
     it('returns empty array for empty input', () => {
@@ -75,3 +89,380 @@ describe('parseGitLogOutput', () => {
         expect(commit.refs).toEqual(['tag: v1.0.0', 'HEAD -> main']);
     });
 });
+
+describe('parseUnmergedFiles', () => {
+    it('returns empty array for empty input', () => {
+        expect(parseUnmergedFiles('')).toEqual([]);
+    });
+
+    it('groups stages by path', () => {
+        const input = [
+            '100644 aaa111 1\tsrc/app.ts',
+            '100644 bbb222 2\tsrc/app.ts',
+            '100644 ccc333 3\tsrc/app.ts',
+            '100644 ddd444 2\tREADME.md',
+        ].join('\n');
+
+        expect(parseUnmergedFiles(input)).toEqual([
+            { path: 'src/app.ts', stages: [1, 2, 3] },
+            { path: 'README.md', stages: [2] },
+        ]);
+    });
+
+    it('keeps spaces in paths', () => {
+        expect(parseUnmergedFiles('100644 aaa111 3\tdocs/my file.md')).toEqual([
+            { path: 'docs/my file.md', stages: [3] },
+        ]);
+    });
+});
+
+describe('parseStashList', () => {
+    it('returns empty array for empty input', () => {
+        expect(parseStashList('')).toEqual([]);
+    });
+
+    it('parses a stash created with a message', () => {
+        const [stash] = parseStashList('stash@{0}|2024-01-15 10:00:00 +0000|On main: half-done refactor');
+
+        expect(stash.ref).toBe('stash@{0}');
+        expect(stash.index).toBe(0);
+        expect(stash.branch).toBe('main');
+        expect(stash.message).toBe('half-done refactor');
+    });
+
+    it('parses a stash created without a message', () => {
+        const [stash] = parseStashList('stash@{3}|2024-01-15 10:00:00 +0000|WIP on feature/x: abc1234 Add thing');
+
+        expect(stash.index).toBe(3);
+        expect(stash.branch).toBe('feature/x');
+        expect(stash.message).toBe('abc1234 Add thing');
+    });
+
+    it('keeps pipe characters in the message', () => {
+        const [stash] = parseStashList('stash@{1}|2024-01-15 10:00:00 +0000|On main: a|b');
+
+        expect(stash.message).toBe('a|b');
+    });
+});
+
+describe('parseBranchList', () => {
+    it('returns empty array for empty input', () => {
+        expect(parseBranchList('')).toEqual([]);
+    });
+
+    it('parses a local branch ahead of and behind its upstream', () => {
+        const [branch] = parseBranchList(
+            'refs/heads/main|*||origin/main|ahead 1, behind 12|0fb80a5|2 days ago|1717000000|Ada|Fix a|b parsing',
+        );
+
+        expect(branch).toEqual({
+            fullName: 'main',
+            isRemote: false,
+            isHead: true,
+            upstream: 'origin/main',
+            ahead: 1,
+            behind: 12,
+            upstreamGone: false,
+            lastCommit: {
+                hash: '0fb80a5',
+                date: '2 days ago',
+                timestamp: 1717000000,
+                author: 'Ada',
+                subject: 'Fix a|b parsing',
+            },
+        });
+    });
+
+    it('reads one-sided, up-to-date and gone tracking', () => {
+        const branches = parseBranchList(
+            [
+                'refs/heads/feature/x| ||origin/feature/x|behind 3|1111111|now|0|A|x',
+                'refs/heads/synced| ||origin/synced||2222222|now|0|A|y',
+                'refs/heads/old| ||origin/old|gone|3333333|now|0|A|z',
+                'refs/heads/noup| ||||4444444|now|0|A|w',
+            ].join('\n'),
+        );
+
+        expect(branches.map((b) => [b.fullName, b.upstream, b.ahead, b.behind, b.upstreamGone])).toEqual([
+            ['feature/x', 'origin/feature/x', 0, 3, false],
+            ['synced', 'origin/synced', 0, 0, false],
+            ['old', 'origin/old', 0, 0, true],
+            ['noup', null, 0, 0, false],
+        ]);
+    });
+
+    it('parses remote branches and skips symbolic refs', () => {
+        const branches = parseBranchList(
+            [
+                'refs/remotes/origin/HEAD| |refs/remotes/origin/main|||2b39026|now|0|A|three',
+                'refs/remotes/origin/main| ||||2b39026|now|0|A|three',
+            ].join('\n'),
+        );
+
+        expect(branches).toHaveLength(1);
+        expect(branches[0].fullName).toBe('origin/main');
+        expect(branches[0].isRemote).toBe(true);
+    });
+});
+
+describe('parseTagList', () => {
+    it('returns empty array for empty input', () => {
+        expect(parseTagList('')).toEqual([]);
+    });
+
+    it('parses a lightweight tag', () => {
+        const [tag] = parseTagList('v1.0.0|commit|abc1234||2024-01-15 10:00:00 +0000|Initial release commit');
+
+        expect(tag.name).toBe('v1.0.0');
+        expect(tag.annotated).toBe(false);
+        expect(tag.commit).toBe('abc1234');
+        expect(tag.message).toBe('');
+    });
+
+    it('uses the peeled commit and annotation for annotated tags', () => {
+        const [tag] = parseTagList('v2.0.0|tag|fff0000|abc1234|2024-01-15 10:00:00 +0000|Release 2.0 | stable');
+
+        expect(tag.annotated).toBe(true);
+        expect(tag.commit).toBe('abc1234');
+        expect(tag.message).toBe('Release 2.0 | stable');
+    });
+});
+
+describe('parseStatusPorcelainV2', () => {
+    it('returns zero counts for a clean tree', () => {
+        expect(parseStatusPorcelainV2('')).toEqual({ staged: 0, unstaged: 0, untracked: 0, conflicted: 0 });
+    });
+
+    it('counts a file with staged and unstaged changes on both sides', () => {
+        const output = [
+            '1 MM N... 100644 100644 100644 7898192 93829c7 a.ts',
+            '2 RM N... 100644 100644 100644 6178079 6178079 R100 c.ts\tb.ts',
+            '1 .M N... 100644 100644 100644 1111111 1111111 d.ts',
+            '? new.ts',
+        ].join('\n');
+
+        expect(parseStatusPorcelainV2(output)).toEqual({ staged: 2, unstaged: 3, untracked: 1, conflicted: 0 });
+    });
+
+    it('counts unmerged entries as conflicted and ignores headers and ignored files', () => {
+        const output = [
+            '# branch.oid abc1234',
+            '# branch.head main',
+            'u UU N... 100644 100644 100644 100644 aaa bbb ccc conflict.ts',
+            '! build/out.js',
+        ].join('\n');
+
+        expect(parseStatusPorcelainV2(output)).toEqual({ staged: 0, unstaged: 0, untracked: 0, conflicted: 1 });
+    });
+});
+
+describe('parseReflog', () => {
+    it('returns empty array for empty input', () => {
+        expect(parseReflog('')).toEqual([]);
+    });
+
+    it('splits the reflog subject into action and message', () => {
+        const output = [
+            'aaa111|aaa|HEAD@{0}|2024-01-15 10:00:00 +0000|commit (amend): Fix | in parser',
+            'bbb222|bbb|HEAD@{1}|2024-01-15 09:00:00 +0000|checkout: moving from main to feature',
+            'ccc333|ccc|HEAD@{2}|2024-01-15 08:00:00 +0000|rebase (finish)',
+        ].join('\n');
+        const entries = parseReflog(output);
+
+        expect(entries.map((e) => [e.selector, e.action, e.message])).toEqual([
+            ['HEAD@{0}', 'commit (amend)', 'Fix | in parser'],
+            ['HEAD@{1}', 'checkout', 'moving from main to feature'],
+            ['HEAD@{2}', 'rebase (finish)', ''],
+        ]);
+        expect(entries[0].hash).toBe('aaa111');
+        expect(entries[0].shortHash).toBe('aaa');
+    });
+});
+
+describe('parseDanglingCommits', () => {
+    it('returns only commits', () => {
+        const output = [
+            'Checking object directories: 100% (256/256), done.',
+            'dangling blob 1111111111111111111111111111111111111111',
+            'dangling commit 2222222222222222222222222222222222222222',
+            'unreachable commit 3333333333333333333333333333333333333333',
+            'dangling tree 4444444444444444444444444444444444444444',
+        ].join('\n');
+
+        expect(parseDanglingCommits(output)).toEqual([
+            '2222222222222222222222222222222222222222',
+            '3333333333333333333333333333333333333333',
+        ]);
+    });
+});
+
+describe('parseWorktreeList', () => {
+    it('returns empty array for empty input', () => {
+        expect(parseWorktreeList('')).toEqual([]);
+    });
+
+    it('parses branch, detached, locked and prunable worktrees', () => {
+        const output = [
+            'worktree /src/app',
+            'HEAD aaa111',
+            'branch refs/heads/main',
+            '',
+            'worktree /src/app-review',
+            'HEAD bbb222',
+            'branch refs/heads/feature/login',
+            'locked reviewing',
+            '',
+            'worktree /src/app-bisect',
+            'HEAD ccc333',
+            'detached',
+            'prunable gitdir file points to non-existent location',
+            '',
+        ].join('\n');
+
+        expect(parseWorktreeList(output)).toEqual([
+            { path: '/src/app', head: 'aaa111', branch: 'main', bare: false, locked: false, prunable: false },
+            {
+                path: '/src/app-review',
+                head: 'bbb222',
+                branch: 'feature/login',
+                bare: false,
+                locked: true,
+                prunable: false,
+            },
+            { path: '/src/app-bisect', head: 'ccc333', branch: null, bare: false, locked: false, prunable: true },
+        ]);
+    });
+
+    it('keeps paths with spaces and marks bare repositories', () => {
+        const [bare, worktree] = parseWorktreeList(
+            'worktree /src/repo.git\nbare\n\nworktree /src/my work\nHEAD ddd444\nbranch refs/heads/dev\n',
+        );
+
+        expect(bare.bare).toBe(true);
+        expect(worktree.path).toBe('/src/my work');
+        expect(worktree.branch).toBe('dev');
+    });
+});
+
+describe('parseSubmoduleStatus', () => {
+    it('reads the state, commit, path and describe of each submodule', () => {
+        const output = [
+            ' 7228a550821d491b8bd072cf538f3fb8458e8f91 vendor/my lib (heads/master)',
+            '+6c4f3be40cd5eaf5aea618503bc4588aadeb30d2 other (6c4f3be)',
+            '-0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c docs',
+            'U0000000000000000000000000000000000000000 conflicted',
+            '',
+        ].join('\n');
+
+        expect(parseSubmoduleStatus(output)).toEqual([
+            {
+                path: 'vendor/my lib',
+                commit: '7228a550821d491b8bd072cf538f3fb8458e8f91',
+                state: 'current',
+                describe: 'heads/master',
+            },
+            {
+                path: 'other',
+                commit: '6c4f3be40cd5eaf5aea618503bc4588aadeb30d2',
+                state: 'modified',
+                describe: '6c4f3be',
+            },
+            {
+                path: 'docs',
+                commit: '0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c',
+                state: 'uninitialized',
+                describe: null,
+            },
+            {
+                path: 'conflicted',
+                commit: '0000000000000000000000000000000000000000',
+                state: 'conflict',
+                describe: null,
+            },
+        ]);
+    });
+
+    it('returns nothing for a repository without submodules', () => {
+        expect(parseSubmoduleStatus('')).toEqual([]);
+    });
+});
+
+describe('parseDirtySubmodules', () => {
+    it('lists submodules with modified or untracked content, but not ones that only moved', () => {
+        const sha = '7228a550821d491b8bd072cf538f3fb8458e8f91';
+        const output = [
+            `1 .M SC.. 160000 160000 160000 ${sha} ${sha} other`,
+            `1 .M S..U 160000 160000 160000 ${sha} ${sha} vendor/my lib`,
+            `1 .M S.M. 160000 160000 160000 ${sha} ${sha} docs`,
+            `1 .M N... 100644 100644 100644 ${sha} ${sha} README.md`,
+            '? notes.txt',
+        ].join('\n');
+
+        expect(parseDirtySubmodules(output)).toEqual(['vendor/my lib', 'docs']);
+    });
+});
+
+describe('parseRemoteList', () => {
+    it('returns empty array for empty input', () => {
+        expect(parseRemoteList('')).toEqual([]);
+    });
+
+    it('merges the fetch and push lines of each remote', () => {
+        const remotes = parseRemoteList(
+            [
+                'fork\tgit@github.com:me/repo.git (fetch)',
+                'fork\tgit@github.com:me/repo.git (push)',
+                'origin\thttps://example.com/team/repo.git (fetch)',
+                'origin\tssh://push.example.com/team/repo.git (push)',
+            ].join('\n'),
+        );
+
+        expect(remotes).toEqual([
+            { name: 'fork', fetchUrl: 'git@github.com:me/repo.git', pushUrl: 'git@github.com:me/repo.git' },
+            {
+                name: 'origin',
+                fetchUrl: 'https://example.com/team/repo.git',
+                pushUrl: 'ssh://push.example.com/team/repo.git',
+            },
+        ]);
+    });
+
+    it('keeps URLs containing spaces', () => {
+        const [remote] = parseRemoteList('local\t/home/me/My Repos/repo (fetch)\nlocal\t/home/me/My Repos/repo (push)');
+
+        expect(remote.fetchUrl).toBe('/home/me/My Repos/repo');
+    });
+});
+
+describe('parseGitProgress', () => {
+    it('reads the latest percentage of a phase', () => {
+        const stderr =
+            'remote: Enumerating objects: 1200, done.\n' +
+            'Receiving objects:  10% (120/1200)\rReceiving objects:  45% (540/1200), 1.20 MiB | 2.00 MiB/s\r';
+        expect(parseGitProgress(stderr)).toEqual({ phase: 'Receiving objects', percent: 45 });
+    });
+
+    it('reads remote phases and phases without a percentage', () => {
+        expect(parseGitProgress('remote: Counting objects:  12% (3/25)\r')).toEqual({
+            phase: 'Counting objects',
+            percent: 12,
+        });
+        expect(parseGitProgress('Enumerating objects: 1234\r')).toEqual({
+            phase: 'Enumerating objects',
+            percent: null,
+        });
+    });
+
+    it('reads rebase progress', () => {
+        expect(parseGitProgress('Rebasing (1/4)\rRebasing (2/4)\r')).toEqual({ phase: 'Rebasing', percent: 50 });
+    });
+
+    it('ignores a line still being written and other output', () => {
+        expect(parseGitProgress('Receiving objects:  45% (540/1200)\rReceiving objects:  4')).toEqual({
+            phase: 'Receiving objects',
+            percent: 45,
+        });
+        expect(parseGitProgress('From github.com:ada/repo\n * branch main -> FETCH_HEAD\n')).toBeNull();
+        expect(parseGitProgress('')).toBeNull();
+    });
+});
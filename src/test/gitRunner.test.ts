@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitError, formatGitCommand, onGitInvocation, runGit, type GitInvocation } from '../gitRunner';
+
+let dir: string;
+
+beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-lean-runner-'));
+});
+
+afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('runGit', () => {
+    it('resolves with stdout and exit code 0', async () => {
+        const result = await runGit(dir, ['--version']);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toMatch(/^git version/);
+    });
+
+    it('rejects with a GitError carrying the exit code and stderr', async () => {
+        const error = await runGit(dir, ['rev-parse', '--verify', 'no-such-ref']).catch((e) => e);
+
+        expect(error).toBeInstanceOf(GitError);
+        expect(error.exitCode).not.toBe(0);
+        expect(error.stderr).not.toBe('');
+        expect(error.message).toBe(error.stderr.trim());
+    });
+
+    it('passes arguments without shell interpretation', async () => {
+        const message = 'fix "quotes" $(touch pwned) `id`';
+        const { stdout } = await runGit(dir, ['rev-parse', '--sq-quote', message]);
+
+        expect(stdout.trim()).toBe(`'${message}'`);
+        expect(fs.existsSync(path.join(dir, 'pwned'))).toBe(false);
+    });
+
+    it('writes input to stdin', async () => {
+        const { stdout } = await runGit(dir, ['hash-object', '--stdin'], { input: 'hello\n' });
+
+        expect(stdout.trim()).toBe('ce013625030ba8dba906f756967f9e9ca394464a');
+    });
+
+    it('rejects as cancelled when the signal is aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const error = await runGit(dir, ['--version'], { signal: controller.signal }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(GitError);
+        expect(error.cancelled).toBe(true);
+    });
+
+    it('reports every invocation to listeners', async () => {
+        const seen: GitInvocation[] = [];
+        const dispose = onGitInvocation((invocation) => seen.push(invocation));
+        await runGit(dir, ['--version']);
+        await runGit(dir, ['rev-parse', '--verify', 'no-such-ref']).catch(() => undefined);
+        dispose();
+        await runGit(dir, ['--version']);
+
+        expect(seen.map((i) => [i.args[0], i.exitCode === 0])).toEqual([
+            ['--version', true],
+            ['rev-parse', false],
+        ]);
+        expect(seen[0].cwd).toBe(dir);
+    });
+});
+
+describe('formatGitCommand', () => {
+    it('leaves plain arguments unquoted', () => {
+        expect(formatGitCommand(['log', '--max-count=50', 'origin/main', '--', 'src/a.ts'])).toBe(
+            'git log --max-count=50 origin/main -- src/a.ts',
+        );
+    });
+
+    it('single-quotes arguments with spaces or shell characters', () => {
+        expect(formatGitCommand(['commit', '-m', "it's $(done)"])).toBe(`git commit -m 'it'\\''s $(done)'`);
+        expect(formatGitCommand(['show', ''])).toBe(`git show ''`);
+    });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { GraphLayoutBuilder, computeGraphLayout, linkSubset } from '../webview/graph/graphLayout';
+import type { GitCommit } from '../gitParser';
+import { DEFAULT_LOG_FILTERS, simplifyParents } from '../logFilters';
+
+function commit(hash: string, parents: string[] = []): GitCommit {
+    return { hash, shortHash: hash, message: hash, date: '', author: '', parents, refs: [] };
+}
+
+describe('computeGraphLayout', () => {
+    it('returns no rows for no commits', () => {
+        expect(computeGraphLayout([])).toEqual({ rows: [], laneCount: 0 });
+    });
+
+    it('keeps linear history in a single lane with one colour', () => {
+        const { rows, laneCount } = computeGraphLayout([commit('c', ['b']), commit('b', ['a']), commit('a')]);
+
+        expect(laneCount).toBe(1);
+        expect(rows.map((r) => r.lane)).toEqual([0, 0, 0]);
+        expect(new Set(rows.map((r) => r.color)).size).toBe(1);
+    });
+
+    it('connects a commit to its parent through the bottom and top halves', () => {
+        const { rows } = computeGraphLayout([commit('b', ['a']), commit('a')]);
+
+        expect(rows[0].edges).toEqual([{ fromLane: 0, toLane: 0, color: 0, half: 'bottom' }]);
+        expect(rows[1].edges).toEqual([{ fromLane: 0, toLane: 0, color: 0, half: 'top' }]);
+    });
+
+    it('opens a second lane for the second parent of a merge', () => {
+        const { rows, laneCount } = computeGraphLayout([
+            commit('m', ['a', 'f']),
+            commit('f', ['base']),
+            commit('a', ['base']),
+            commit('base'),
+        ]);
+
+        expect(laneCount).toBe(2);
+        expect(rows[0].edges).toContainEqual({ fromLane: 0, toLane: 1, color: rows[1].color, half: 'bottom' });
+        expect(rows[1].lane).toBe(1);
+        expect(rows[2].lane).toBe(0);
+    });
+
+    it('joins forked lanes back into the common ancestor', () => {
+        const { rows } = computeGraphLayout([
+            commit('m', ['a', 'f']),
+            commit('f', ['base']),
+            commit('a', ['base']),
+            commit('base'),
+        ]);
+
+        // f's lane already waits for base, so a's first-parent edge bends into it
+        const base = rows[3];
+        expect(base.edges.filter((e) => e.half === 'top')).toHaveLength(1);
+        expect(rows[2].edges).toContainEqual({ fromLane: 0, toLane: 1, color: rows[2].color, half: 'bottom' });
+    });
+
+    it('gives independent branch tips their own lanes and colours', () => {
+        const { rows } = computeGraphLayout([commit('x', ['base']), commit('y', ['base']), commit('base')]);
+
+        expect(rows[0].lane).toBe(0);
+        expect(rows[1].lane).toBe(1);
+        expect(rows[0].color).not.toBe(rows[1].color);
+        expect(rows[1].edges).toContainEqual({ fromLane: 1, toLane: 0, color: rows[1].color, half: 'bottom' });
+        expect(rows[2].edges.filter((e) => e.half === 'top')).toHaveLength(1);
+    });
+
+    it('keeps a lane colour for every commit on the same first-parent chain', () => {
+        const { rows } = computeGraphLayout([
+            commit('f2', ['f1']),
+            commit('m', ['base']),
+            commit('f1', ['base']),
+            commit('base'),
+        ]);
+
+        expect(rows[2].color).toBe(rows[0].color);
+        expect(rows[2].lane).toBe(rows[0].lane);
+    });
+
+    it('does not move existing rows when more history is appended', () => {
+        const all = [
+            commit('m', ['a', 'f']),
+            commit('f', ['e']),
+            commit('a', ['d']),
+            commit('e', ['base']),
+            commit('d', ['base']),
+            commit('base'),
+        ];
+
+        const firstPage = computeGraphLayout(all.slice(0, 3));
+        const full = computeGraphLayout(all);
+
+        expect(full.rows.slice(0, 3)).toEqual(firstPage.rows);
+    });
+
+    it('continues lanes whose parents are not loaded yet', () => {
+        const { rows } = computeGraphLayout([commit('b', ['a'])]);
+
+        expect(rows[0].edges).toEqual([{ fromLane: 0, toLane: 0, color: 0, half: 'bottom' }]);
+    });
+});
+
+describe('GraphLayoutBuilder', () => {
+    const history = [
+        commit('m', ['a', 'f']),
+        commit('f', ['e']),
+        commit('a', ['d']),
+        commit('x', ['e']),
+        commit('e', ['base']),
+        commit('d', ['base']),
+        commit('base'),
+    ];
+
+    it('lays out history appended page by page exactly as all at once', () => {
+        const builder = new GraphLayoutBuilder();
+        builder.append(history.slice(0, 2));
+        builder.append(history.slice(2, 5));
+        const layout = builder.append(history.slice(5));
+
+        expect(layout).toEqual(computeGraphLayout(history));
+    });
+
+    it('returns a new layout object for every page while keeping earlier rows', () => {
+        const builder = new GraphLayoutBuilder();
+        const first = builder.append(history.slice(0, 3));
+        const firstRows = [...first.rows];
+        const second = builder.append(history.slice(3));
+
+        expect(second).not.toBe(first);
+        expect(second.rows.slice(0, 3)).toEqual(firstRows);
+        expect(second.laneCount).toBeGreaterThanOrEqual(first.laneCount);
+    });
+});
+
+describe('layout of search results', () => {
+    it('does not open a lane per result when their parents are never listed', () => {
+        // Every other commit of a linear history matches: c4 ← c3 ← c2 ← c1 ← c0
+        const results = [commit('c4', ['c3']), commit('c2', ['c1']), commit('c0')];
+        const linked = simplifyParents(results, DEFAULT_LOG_FILTERS, {
+            listed: new Set(['c4', 'c2', 'c0']),
+            parents: new Map([
+                ['c4', ['c3']],
+                ['c3', ['c2']],
+                ['c2', ['c1']],
+                ['c1', ['c0']],
+                ['c0', []],
+            ]),
+        });
+
+        expect(computeGraphLayout(results).laneCount).toBe(3);
+        expect(computeGraphLayout(linked).laneCount).toBe(1);
+    });
+});
+
+describe('linkSubset', () => {
+    const loaded = [
+        commit('m', ['a', 'f']),
+        commit('f', ['x']),
+        commit('a', ['x']),
+        commit('x', ['base']),
+        commit('base', ['unloaded']),
+    ];
+
+    it('links filtered commits through the loaded ones between them', () => {
+        const subset = linkSubset([loaded[0], loaded[4]], loaded);
+
+        expect(subset.map((c) => [c.hash, c.graphParents])).toEqual([
+            ['m', ['base']],
+            ['base', []],
+        ]);
+        expect(subset[0].parents).toEqual(['a', 'f']);
+        expect(computeGraphLayout(subset).laneCount).toBe(1);
+    });
+
+    it('keeps parents inside the subset and drops those that lead out of the loaded commits', () => {
+        const subset = linkSubset([loaded[1], loaded[2], loaded[3]], loaded);
+
+        expect(subset.map((c) => c.graphParents)).toEqual([['x'], ['x'], []]);
+    });
+});
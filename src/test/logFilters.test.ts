@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_LOG_FILTERS,
+    buildLogArgs,
+    buildParentWalkArgs,
+    hidesCommits,
+    parseParentWalk,
+    simplifyParents,
+    type LogFilters,
+} from '../logFilters';
+import type { GitCommit } from '../gitParser';
+
+function filters(overrides: Partial<LogFilters>): LogFilters {
+    return { ...DEFAULT_LOG_FILTERS, ...overrides };
+}
+
+function commit(hash: string, parents: string[] = []): GitCommit {
+    return { hash, shortHash: hash, message: hash, date: '', author: '', parents, refs: [] };
+}
+
+describe('buildLogArgs', () => {
+    it('lists one page of HEAD without filters', () => {
+        expect(buildLogArgs([], DEFAULT_LOG_FILTERS, { skip: 0, limit: 200 })).toEqual([
+            '--max-count=200',
+            '--date-order',
+            '--',
+        ]);
+    });
+
+    it('lists the whole range without a page', () => {
+        expect(buildLogArgs([], filters({ noMerges: true, allRefs: true }), null)).toEqual([
+            '--date-order',
+            '--no-merges',
+            '--all',
+            '--',
+        ]);
+    });
+
+    it('combines every filter', () => {
+        const args = buildLogArgs(
+            [],
+            filters({
+                path: 'src/app',
+                authors: ['ada', 'grace@example.com'],
+                since: '2024-01-01',
+                until: '2024-06-30',
+                firstParent: true,
+                noMerges: true,
+                allRefs: true,
+            }),
+            { skip: 400, limit: 200 },
+        );
+
+        expect(args).toEqual([
+            '--max-count=200',
+            '--date-order',
+            '--regexp-ignore-case',
+            '--fixed-strings',
+            '--author=ada',
+            '--author=grace@example.com',
+            '--since=2024-01-01',
+            '--until=2024-06-30 23:59:59',
+            '--first-parent',
+            '--no-merges',
+            '--skip=400',
+            '--all',
+            '--',
+            'src/app',
+        ]);
+    });
+
+    it('prefers the selected branches over all refs and keeps search options with the filters', () => {
+        expect(
+            buildLogArgs(['main', 'origin/feature/x'], filters({ allRefs: true }), { skip: 0, limit: 50 }, [
+                '-Sneedle',
+            ]),
+        ).toEqual(['--max-count=50', '--date-order', '-Sneedle', 'main', 'origin/feature/x', '--']);
+    });
+});
+
+describe('hidesCommits', () => {
+    it('is set by filters that drop commits from the middle of history', () => {
+        expect(hidesCommits(DEFAULT_LOG_FILTERS)).toBe(false);
+        expect(hidesCommits(filters({ firstParent: true, allRefs: true }))).toBe(false);
+        expect(hidesCommits(filters({ path: 'src' }))).toBe(true);
+        expect(hidesCommits(filters({ authors: ['ada'] }))).toBe(true);
+        expect(hidesCommits(filters({ until: '2024-01-01' }))).toBe(true);
+        expect(hidesCommits(filters({ noMerges: true }))).toBe(true);
+    });
+});
+
+describe('buildParentWalkArgs', () => {
+    it('walks all of HEAD, or of every ref, whatever the path', () => {
+        expect(buildParentWalkArgs([], filters({ authors: ['ada'] }))).toEqual(['--parents', 'HEAD', '--']);
+        expect(buildParentWalkArgs([], filters({ allRefs: true, firstParent: true, path: 'src' }))).toEqual([
+            '--parents',
+            '--first-parent',
+            '--all',
+            '--',
+        ]);
+        expect(buildParentWalkArgs(['main'], filters({ allRefs: true }))).toEqual(['--parents', 'main', '--']);
+    });
+});
+
+describe('parseParentWalk', () => {
+    it('maps each commit to its parents', () => {
+        expect(parseParentWalk('m a f\na base\nbase\n')).toEqual(
+            new Map([
+                ['m', ['a', 'f']],
+                ['a', ['base']],
+                ['base', []],
+            ]),
+        );
+    });
+});
+
+describe('simplifyParents', () => {
+    it('leaves commits alone without filters', () => {
+        const commits = [commit('m', ['a', 'f']), commit('a')];
+
+        expect(simplifyParents(commits, DEFAULT_LOG_FILTERS)).toBe(commits);
+    });
+
+    it('follows only the first parent with --first-parent', () => {
+        const result = simplifyParents(
+            [commit('m', ['a', 'f']), commit('a', ['base'])],
+            filters({ firstParent: true }),
+        );
+
+        expect(result.map((c) => c.graphParents)).toEqual([['a'], ['base']]);
+    });
+
+    it('links hidden parents to their nearest listed ancestors without joining parallel branches', () => {
+        // main: m ← h1 ← a; feature (listed with --all): f ← h2 ← base; a ← base; m merges f
+        const history = {
+            listed: new Set(['m', 'f', 'a', 'base']),
+            parents: parseParentWalk('m h1 f\nf h2\nh1 a\nh2 base\na base\nbase'),
+        };
+        const result = simplifyParents(
+            [commit('m', ['h1', 'f']), commit('f', ['h2']), commit('a', ['base'])],
+            filters({ authors: ['ada'] }),
+            history,
+        );
+
+        expect(result.map((c) => [c.hash, c.graphParents])).toEqual([
+            ['m', ['a', 'f']],
+            ['f', ['base']],
+            ['a', ['base']],
+        ]);
+    });
+
+    it('drops parents with no listed ancestor and merges paths that meet again', () => {
+        const history = {
+            listed: new Set(['c', 'b']),
+            parents: parseParentWalk('c x y\nx b\ny b\nb root\nroot'),
+        };
+        const result = simplifyParents(
+            [commit('c', ['x', 'y']), commit('b', ['root'])],
+            filters({ noMerges: true }),
+            history,
+        );
+
+        expect(result.map((c) => c.graphParents)).toEqual([['b'], []]);
+    });
+
+    it('only follows first parents through hidden commits with --first-parent', () => {
+        const history = {
+            listed: new Set(['c', 'a', 'side']),
+            parents: parseParentWalk('c h\nh a side\na\nside'),
+        };
+        const result = simplifyParents(
+            [commit('c', ['h'])],
+            filters({ since: '2024-01-01', firstParent: true }),
+            history,
+        );
+
+        expect(result.map((c) => c.graphParents)).toEqual([['a']]);
+    });
+
+    it('keeps the real parents across a hidden middle commit for operations on the commits', () => {
+        // c ← hidden ← a, filtered down to c and a: drawn as adjacent, but c's parent is still the hidden commit
+        const history = {
+            listed: new Set(['c', 'a']),
+            parents: parseParentWalk('c hidden\nhidden a\na'),
+        };
+        const [c, a] = simplifyParents([commit('c', ['hidden']), commit('a')], filters({ path: 'src' }), history);
+
+        expect(c.graphParents).toEqual(['a']);
+        expect(c.parents).toEqual(['hidden']);
+        expect(a.parents).toEqual([]);
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type * as vscode from 'vscode';
+import { OperationJournal, checkUndo, type JournalEntry } from '../operationJournal';
+
+function memento(): vscode.Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) => (values.has(key) ? (values.get(key) as T) : defaultValue),
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        },
+    } as vscode.Memento;
+}
+
+function entry(overrides: Partial<JournalEntry> = {}): JournalEntry {
+    return {
+        label: 'Drop commit 1111111',
+        cwd: '/repo',
+        ref: 'refs/heads/main',
+        before: '1111111111111111111111111111111111111111',
+        after: '2222222222222222222222222222222222222222',
+        undoMode: 'hard',
+        timestamp: 1,
+        ...overrides,
+    };
+}
+
+describe('checkUndo', () => {
+    it('allows undo while HEAD is where the operation left it', () => {
+        expect(checkUndo(entry(), { ref: 'refs/heads/main', hash: entry().after })).toBeNull();
+    });
+
+    it('refuses when another branch is checked out', () => {
+        expect(checkUndo(entry(), { ref: 'refs/heads/dev', hash: entry().after })).toBe(
+            "it was done on 'main', which is not checked out",
+        );
+    });
+
+    it('refuses when the branch has moved since', () => {
+        expect(checkUndo(entry(), { ref: 'refs/heads/main', hash: '3333333333' })).toBe(
+            "'main' has moved since (now at 3333333, expected 2222222)",
+        );
+    });
+
+    it('handles operations done on a detached HEAD', () => {
+        const detached = entry({ ref: 'HEAD' });
+        expect(checkUndo(detached, { ref: 'HEAD', hash: detached.after })).toBeNull();
+        expect(checkUndo(detached, { ref: 'refs/heads/main', hash: detached.after })).toBe(
+            'it was done on a detached HEAD and a branch is checked out now',
+        );
+    });
+});
+
+describe('OperationJournal', () => {
+    it('returns the latest entry for the repository', async () => {
+        const journal = new OperationJournal(memento());
+        await journal.record(entry({ timestamp: 1 }));
+        await journal.record(entry({ timestamp: 2, cwd: '/other' }));
+        await journal.record(entry({ timestamp: 3, label: 'Squash 2 commits' }));
+
+        expect(journal.latest('/repo')?.label).toBe('Squash 2 commits');
+        expect(journal.latest('/other')?.timestamp).toBe(2);
+        expect(journal.latest('/none')).toBeUndefined();
+    });
+
+    it('falls back to the previous entry once the latest is removed', async () => {
+        const journal = new OperationJournal(memento());
+        await journal.record(entry({ timestamp: 1 }));
+        await journal.record(entry({ timestamp: 2 }));
+        await journal.remove(journal.latest('/repo')!);
+
+        expect(journal.latest('/repo')?.timestamp).toBe(1);
+    });
+
+    it('keeps only the most recent entries', async () => {
+        const journal = new OperationJournal(memento());
+        for (let i = 0; i < 60; i++) {
+            await journal.record(entry({ timestamp: i }));
+        }
+        await journal.remove(entry({ timestamp: 59 }));
+        for (let i = 58; i >= 10; i--) {
+            expect(journal.latest('/repo')?.timestamp).toBe(i);
+            await journal.remove(entry({ timestamp: i }));
+        }
+
+        expect(journal.latest('/repo')).toBeUndefined();
+    });
+});
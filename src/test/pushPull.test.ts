@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { buildFetchIntoBranchArgs, buildPullArgs, buildPushArgs, type PushOptions } from '../pushPull';
+
+function push(overrides: Partial<PushOptions>): PushOptions {
+    return {
+        remote: 'origin',
+        branch: 'feature',
+        remoteBranch: 'feature',
+        setUpstream: false,
+        tags: false,
+        forceWithLease: false,
+        ...overrides,
+    };
+}
+
+describe('buildPullArgs', () => {
+    it('leaves the strategy to git config', () => {
+        expect(buildPullArgs({ strategy: 'gitConfig', autostash: false })).toEqual(['pull']);
+    });
+
+    it('passes the chosen strategy and autostash', () => {
+        expect(buildPullArgs({ strategy: 'merge', autostash: false })).toEqual(['pull', '--no-rebase']);
+        expect(buildPullArgs({ strategy: 'rebase', autostash: true })).toEqual(['pull', '--rebase', '--autostash']);
+        expect(buildPullArgs({ strategy: 'ffOnly', autostash: false })).toEqual(['pull', '--ff-only']);
+    });
+});
+
+describe('buildPushArgs', () => {
+    it('pushes the branch to the same name on the remote', () => {
+        expect(buildPushArgs(push({}))).toEqual(['push', 'origin', 'refs/heads/feature:refs/heads/feature']);
+    });
+
+    it('publishes under another name with tags and sets the upstream', () => {
+        expect(
+            buildPushArgs(push({ remote: 'fork', remoteBranch: 'ada/feature', setUpstream: true, tags: true })),
+        ).toEqual(['push', '--set-upstream', '--tags', 'fork', 'refs/heads/feature:refs/heads/ada/feature']);
+    });
+
+    it('force pushes with lease', () => {
+        expect(buildPushArgs(push({ forceWithLease: true }))).toEqual([
+            'push',
+            '--force-with-lease',
+            'origin',
+            'refs/heads/feature:refs/heads/feature',
+        ]);
+    });
+});
+
+describe('buildFetchIntoBranchArgs', () => {
+    it('fetches the upstream branch into the local one', () => {
+        expect(buildFetchIntoBranchArgs('origin', 'main', 'main')).toEqual([
+            'fetch',
+            'origin',
+            'refs/heads/main:refs/heads/main',
+        ]);
+    });
+});
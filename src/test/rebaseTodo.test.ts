@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { formatRebaseTodo, rewordMessageFiles, validateRebaseTodo, type RebaseTodoEntry } from '../rebaseTodo';
+
+function entry(hash: string, action: RebaseTodoEntry['action'], newMessage?: string): RebaseTodoEntry {
+    return { hash, shortHash: hash.substring(0, 3), action, message: `msg ${hash}`, newMessage };
+}
+
+describe('validateRebaseTodo', () => {
+    it('accepts a plain pick list', () => {
+        expect(validateRebaseTodo([entry('aaa1', 'pick'), entry('bbb2', 'pick')])).toBeNull();
+    });
+
+    it('rejects dropping every commit', () => {
+        expect(validateRebaseTodo([entry('aaa1', 'drop'), entry('bbb2', 'drop')])).toMatch(/At least one commit/);
+    });
+
+    it('rejects squash or fixup as the first kept commit', () => {
+        expect(validateRebaseTodo([entry('aaa1', 'squash'), entry('bbb2', 'pick')])).toMatch(/Cannot squash aaa/);
+        expect(validateRebaseTodo([entry('aaa1', 'drop'), entry('bbb2', 'fixup')])).toMatch(/Cannot fixup bbb/);
+    });
+
+    it('allows squash after a dropped commit when an earlier commit is kept', () => {
+        expect(validateRebaseTodo([entry('aaa1', 'pick'), entry('bbb2', 'drop'), entry('ccc3', 'squash')])).toBeNull();
+    });
+
+    it('rejects a reword with an empty message', () => {
+        expect(validateRebaseTodo([entry('aaa1', 'reword', '   ')])).toMatch(/cannot be empty/);
+        expect(validateRebaseTodo([entry('aaa1', 'reword', 'New message')])).toBeNull();
+    });
+});
+
+describe('formatRebaseTodo', () => {
+    it('writes one todo line per entry in order', () => {
+        expect(formatRebaseTodo([entry('bbb2', 'fixup'), entry('aaa1', 'drop'), entry('ccc3', 'pick')])).toEqual([
+            'fixup bbb2 msg bbb2',
+            'drop aaa1 msg aaa1',
+            'pick ccc3 msg ccc3',
+        ]);
+    });
+
+    it('turns a reword into a pick that is amended from a message file', () => {
+        const entries = [
+            entry('aaa1', 'pick'),
+            entry('bbb2', 'reword', '  New subject\n\nBody  '),
+            entry('ccc3', 'fixup'),
+        ];
+        expect(formatRebaseTodo(entries)).toEqual([
+            'pick aaa1 msg aaa1',
+            'pick bbb2 msg bbb2',
+            'exec git commit --amend --allow-empty --no-verify --quiet -F "$(git rev-parse --git-path rebase-merge)/git-lean-message-1"',
+            'fixup ccc3 msg ccc3',
+        ]);
+        expect(rewordMessageFiles(entries)).toEqual({ 'git-lean-message-1': 'New subject\n\nBody\n' });
+    });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { validateRefName } from '../refNames';
+
+describe('validateRefName', () => {
+    it('accepts ordinary names', () => {
+        expect(validateRefName('feature/login')).toBeNull();
+        expect(validateRefName('v1.2.3', 'Tag')).toBeNull();
+    });
+
+    it('rejects empty names', () => {
+        expect(validateRefName('')).toBe('Branch name cannot be empty');
+        expect(validateRefName('  ', 'Tag')).toBe('Tag name cannot be empty');
+    });
+
+    it('rejects characters git does not allow', () => {
+        for (const name of ['has space', 'a~1', 'a^', 'a:b', 'a?', 'a*', 'a[b', 'a\\b', 'a..b']) {
+            expect(validateRefName(name)).toBe('Invalid branch name');
+        }
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runGit } from '../gitRunner';
+import { discoverRepositories, getRepositoryLabel, scanForRepositories } from '../repositoryDiscovery';
+
+let dir: string;
+
+beforeAll(async () => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'git-lean-discovery-')));
+    // monorepo/            repository
+    // monorepo/tools/cli/  nested repository
+    // monorepo/vendor/lib/ submodule-style .git file
+    // monorepo/node_modules/pkg/ skipped
+    // monorepo/a/b/c/deep/ deeper than the scan depth
+    for (const repo of ['monorepo', 'monorepo/tools/cli', 'monorepo/node_modules/pkg', 'monorepo/a/b/c/deep']) {
+        fs.mkdirSync(path.join(dir, repo), { recursive: true });
+        await runGit(path.join(dir, repo), ['init', '-q']);
+    }
+    fs.mkdirSync(path.join(dir, 'monorepo/vendor/lib'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'monorepo/vendor/lib/.git'), 'gitdir: ../../.git/modules/lib\n');
+    fs.mkdirSync(path.join(dir, 'monorepo/src'));
+});
+
+afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('scanForRepositories', () => {
+    it('finds nested repositories and submodules down to the given depth', async () => {
+        const found = await scanForRepositories(path.join(dir, 'monorepo'), 2);
+
+        expect(found.map((root) => path.relative(dir, root)).sort()).toEqual([
+            'monorepo',
+            path.join('monorepo', 'tools', 'cli'),
+            path.join('monorepo', 'vendor', 'lib'),
+        ]);
+    });
+
+    it('only checks the folder itself at depth 0', async () => {
+        expect(await scanForRepositories(path.join(dir, 'monorepo'), 0)).toEqual([path.join(dir, 'monorepo')]);
+    });
+});
+
+describe('discoverRepositories', () => {
+    it('includes the repository a workspace folder sits inside', async () => {
+        const repos = await discoverRepositories([path.join(dir, 'monorepo', 'src')], 1);
+
+        expect(repos).toEqual([{ root: path.join(dir, 'monorepo'), label: 'monorepo' }]);
+    });
+
+    it('lists every repository once across folders', async () => {
+        const repos = await discoverRepositories([path.join(dir, 'monorepo'), path.join(dir, 'monorepo/tools')], 2);
+
+        expect(repos.map((repo) => repo.label)).toEqual([
+            'monorepo',
+            path.join('monorepo', 'tools', 'cli'),
+            path.join('monorepo', 'vendor', 'lib'),
+        ]);
+    });
+});
+
+describe('getRepositoryLabel', () => {
+    it('labels repositories relative to the folder containing them', () => {
+        const folders = [path.join('/ws', 'app'), path.join('/ws', 'tools')];
+
+        expect(getRepositoryLabel(path.join('/ws', 'app'), folders)).toBe('app');
+        expect(getRepositoryLabel(path.join('/ws', 'tools', 'lint'), folders)).toBe(path.join('tools', 'lint'));
+        expect(getRepositoryLabel('/ws', folders)).toBe('ws');
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { canSkip, detectSequencerOperation } from '../sequencerSession';
+
+function gitDir(...entries: string[]) {
+    return (name: string) => entries.includes(name);
+}
+
+describe('detectSequencerOperation', () => {
+    it('returns null when nothing is in progress', () => {
+        expect(detectSequencerOperation(gitDir('HEAD', 'refs'))).toBeNull();
+    });
+
+    it('detects an interactive or merge-backend rebase', () => {
+        expect(detectSequencerOperation(gitDir('rebase-merge'))).toBe('rebase');
+    });
+
+    it('detects an apply-backend rebase', () => {
+        expect(detectSequencerOperation(gitDir('rebase-apply'))).toBe('rebase');
+    });
+
+    it('detects a merge, cherry-pick and revert', () => {
+        expect(detectSequencerOperation(gitDir('MERGE_HEAD'))).toBe('merge');
+        expect(detectSequencerOperation(gitDir('CHERRY_PICK_HEAD'))).toBe('cherry-pick');
+        expect(detectSequencerOperation(gitDir('REVERT_HEAD'))).toBe('revert');
+    });
+
+    it('prefers the rebase when a rebase stopped on a conflicting pick', () => {
+        expect(detectSequencerOperation(gitDir('CHERRY_PICK_HEAD', 'rebase-merge'))).toBe('rebase');
+    });
+});
+
+describe('canSkip', () => {
+    it('only disallows skipping a merge', () => {
+        expect(canSkip('merge')).toBe(false);
+        expect(canSkip('rebase')).toBe(true);
+        expect(canSkip('cherry-pick')).toBe(true);
+        expect(canSkip('revert')).toBe(true);
+    });
+});
@@ -1,20 +1,82 @@
 import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { vscode } from '../vscodeApi';
+import { RepositorySelection, SequencerSession } from '../types';
+import { SessionBanner } from '../session/SessionBanner';
+import { RepositorySelector } from '../repository/RepositorySelector';
 
 export interface Branch {
     name: string;
     fullName: string;
     isRemote: boolean;
     isHead: boolean;
+    worktreePath?: string;
+    upstream: string | null;
+    ahead: number;
+    behind: number;
+    upstreamGone: boolean;
+    lastCommit: { hash: string; date: string; timestamp: number; author: string; subject: string };
+}
+
+export interface Tag {
+    name: string;
+    annotated: boolean;
+    commit: string;
+    date: string;
+    message: string;
+}
+
+export interface Stash {
+    ref: string;
+    index: number;
+    branch: string;
+    message: string;
+    date: string;
+}
+
+export interface Worktree {
+    path: string;
+    branch: string | null;
+    head: string;
+    isMain: boolean;
+    isCurrent: boolean;
+    locked: boolean;
+    prunable: boolean;
+}
+
+export interface Submodule {
+    path: string;
+    recorded: string;
+    checkedOut: string | null;
+    state: 'uninitialized' | 'current' | 'modified' | 'conflict';
+    dirty: boolean;
+    describe: string | null;
+}
+
+export interface Remote {
+    name: string;
+    fetchUrl: string;
+    pushUrl: string;
 }
 
 type CtxMenu =
     | { kind: 'branch'; x: number; y: number; branch: Branch }
+    | { kind: 'tag'; x: number; y: number; tag: Tag }
+    | { kind: 'stash'; x: number; y: number; stash: Stash }
+    | { kind: 'worktree'; x: number; y: number; worktree: Worktree }
+    | { kind: 'submodule'; x: number; y: number; submodule: Submodule }
+    | { kind: 'remote'; x: number; y: number; remote: Remote }
     | { kind: 'multi'; x: number; y: number; branches: Branch[] }
     | { kind: 'folder'; x: number; y: number; branches: Branch[] };
 
 interface Props {
     branches: Branch[];
+    tags: Tag[];
+    stashes: Stash[];
+    worktrees: Worktree[];
+    submodules: Submodule[];
+    remotes: Remote[];
+    session: SequencerSession | null;
+    repositories: RepositorySelection;
 }
 
 type TreeNode = { type: 'branch'; branch: Branch } | { type: 'group'; key: string; name: string; children: TreeNode[] };
@@ -80,6 +142,11 @@ function flattenVisible(nodes: TreeNode[], collapsed: Set<string>): Branch[] {
     return result;
 }
 
+// The graph shows the selected branch, or all the ctrl/shift-selected ones together; HEAD when empty
+function showInGraph(refs: string[]) {
+    vscode.postMessage({ command: 'selectBranches', branchNames: refs });
+}
+
 // ── Icons ────────────────────────────────────────────────────────────────────
 
 function IconChevronRight() {
@@ -180,12 +247,60 @@ function IconBranch() {
     );
 }
 
+function IconStash() {
+    return (
+        <svg
+            className="icon-branch"
+            width="13"
+            height="13"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+        >
+            <polyline points="21 8 21 21 3 21 3 8" />
+            <rect x="1" y="3" width="22" height="5" />
+            <line x1="10" y1="12" x2="14" y2="12" />
+        </svg>
+    );
+}
+
 function getBranchIcon(branch: Branch) {
     if (branch.isHead) return <IconTag />;
     if (branch.name === 'main' || branch.name === 'master') return <IconStar />;
     return <IconBranch />;
 }
 
+function branchTooltip(branch: Branch): string {
+    const lines = [branch.fullName];
+    if (branch.upstreamGone) {
+        lines.push(`Upstream ${branch.upstream} is gone`);
+    } else if (branch.upstream) {
+        const counts = [branch.ahead > 0 && `${branch.ahead} to push`, branch.behind > 0 && `${branch.behind} to pull`];
+        lines.push(`Tracking ${branch.upstream}: ${counts.filter(Boolean).join(', ') || 'up to date'}`);
+    }
+    const { hash, subject, author, date } = branch.lastCommit;
+    lines.push(`${hash} ${subject}`, `${author}, ${date}`);
+    return lines.join('\n');
+}
+
+function TrackingStatus({ branch }: { branch: Branch }) {
+    if (branch.upstreamGone) {
+        return <span className="row-detail tracking-gone">gone</span>;
+    }
+    if (branch.ahead === 0 && branch.behind === 0) {
+        return null;
+    }
+    return (
+        <span className="tracking">
+            {branch.ahead > 0 && <span>↑{branch.ahead}</span>}
+            {branch.behind > 0 && <span>↓{branch.behind}</span>}
+        </span>
+    );
+}
+
 // ── Row components ───────────────────────────────────────────────────────────
 
 function BranchRow({
@@ -207,15 +322,279 @@ function BranchRow({
         <div
             className={`branch-row${isSelected ? ' selected' : ''}${isMultiSelected ? ' multi-selected' : ''}${branch.isHead ? ' is-head' : ''}`}
             style={{ paddingLeft: 20 + depth * 16 }}
+            title={branchTooltip(branch)}
             onClick={onClick}
             onContextMenu={onContextMenu}
         >
             {getBranchIcon(branch)}
             <span className="row-label">{branch.name}</span>
+            {branch.worktreePath && (
+                <span className="row-detail" title={`Checked out in ${branch.worktreePath}`}>
+                    worktree
+                </span>
+            )}
+            <TrackingStatus branch={branch} />
         </div>
     );
 }
 
+function TagRow({
+    tag,
+    isSelected,
+    onClick,
+    onContextMenu,
+}: {
+    tag: Tag;
+    isSelected: boolean;
+    onClick: () => void;
+    onContextMenu: (e: React.MouseEvent) => void;
+}) {
+    const title = [tag.name, tag.message, `${tag.commit}${tag.date ? ` · ${tag.date}` : ''}`]
+        .filter(Boolean)
+        .join('\n');
+    return (
+        <div
+            className={`branch-row${isSelected ? ' selected' : ''}`}
+            style={{ paddingLeft: 20 }}
+            title={title}
+            onClick={onClick}
+            onContextMenu={onContextMenu}
+        >
+            <IconTag />
+            <span className="row-label">{tag.name}</span>
+            <span className="row-detail">{tag.commit}</span>
+        </div>
+    );
+}
+
+function TagList({
+    tags,
+    selected,
+    onSelect,
+    onContextMenu,
+}: {
+    tags: Tag[];
+    selected: string | null;
+    onSelect: (tag: Tag) => void;
+    onContextMenu: (e: React.MouseEvent, tag: Tag) => void;
+}) {
+    return (
+        <>
+            {tags.map((tag) => (
+                <TagRow
+                    key={tag.name}
+                    tag={tag}
+                    isSelected={selected === `refs/tags/${tag.name}`}
+                    onClick={() => onSelect(tag)}
+                    onContextMenu={(e) => {
+                        e.preventDefault();
+                        onContextMenu(e, tag);
+                    }}
+                />
+            ))}
+        </>
+    );
+}
+
+function StashRow({
+    stash,
+    onClick,
+    onContextMenu,
+}: {
+    stash: Stash;
+    onClick: () => void;
+    onContextMenu: (e: React.MouseEvent) => void;
+}) {
+    return (
+        <div
+            className="branch-row"
+            style={{ paddingLeft: 20 }}
+            title={`${stash.ref} on ${stash.branch || 'detached HEAD'}\n${stash.date}`}
+            onClick={onClick}
+            onContextMenu={onContextMenu}
+        >
+            <IconStash />
+            <span className="row-label">{stash.message || stash.ref}</span>
+            <span className="row-detail">{stash.ref}</span>
+        </div>
+    );
+}
+
+function StashList({
+    stashes,
+    onAction,
+    onContextMenu,
+}: {
+    stashes: Stash[];
+    onAction: (command: string, stashRef: string) => void;
+    onContextMenu: (e: React.MouseEvent, stash: Stash) => void;
+}) {
+    return (
+        <>
+            {stashes.map((stash) => (
+                <StashRow
+                    key={stash.ref}
+                    stash={stash}
+                    onClick={() => onAction('showStash', stash.ref)}
+                    onContextMenu={(e) => {
+                        e.preventDefault();
+                        onContextMenu(e, stash);
+                    }}
+                />
+            ))}
+        </>
+    );
+}
+
+function worktreeName(worktree: Worktree): string {
+    return worktree.path.split(/[\\/]/).pop() || worktree.path;
+}
+
+function WorktreeRow({
+    worktree,
+    onClick,
+    onContextMenu,
+}: {
+    worktree: Worktree;
+    onClick: () => void;
+    onContextMenu: (e: React.MouseEvent) => void;
+}) {
+    const state = [worktree.isMain && 'main', worktree.locked && 'locked', worktree.prunable && 'prunable']
+        .filter(Boolean)
+        .join(', ');
+    return (
+        <div
+            className={`branch-row${worktree.isCurrent ? ' is-head' : ''}`}
+            style={{ paddingLeft: 20 }}
+            title={`${worktree.path}${state ? `\n${state}` : ''}`}
+            onClick={onClick}
+            onContextMenu={onContextMenu}
+        >
+            <IconFolder />
+            <span className="row-label">{worktreeName(worktree)}</span>
+            <span className="row-detail">{worktree.branch ?? worktree.head}</span>
+        </div>
+    );
+}
+
+function WorktreeList({
+    worktrees,
+    onOpen,
+    onContextMenu,
+}: {
+    worktrees: Worktree[];
+    onOpen: (worktree: Worktree) => void;
+    onContextMenu: (e: React.MouseEvent, worktree: Worktree) => void;
+}) {
+    return (
+        <>
+            {worktrees.map((worktree) => (
+                <WorktreeRow
+                    key={worktree.path}
+                    worktree={worktree}
+                    onClick={() => onOpen(worktree)}
+                    onContextMenu={(e) => {
+                        e.preventDefault();
+                        onContextMenu(e, worktree);
+                    }}
+                />
+            ))}
+        </>
+    );
+}
+
+// Recorded commit, plus the checked-out one when the submodule has moved away from it
+function submoduleDetail(submodule: Submodule): string {
+    if (submodule.state === 'uninitialized') return 'not initialized';
+    if (submodule.state === 'conflict') return 'conflict';
+    const commits =
+        submodule.state === 'modified' && submodule.checkedOut
+            ? `${submodule.recorded.substring(0, 7)} → ${submodule.checkedOut.substring(0, 7)}`
+            : submodule.recorded.substring(0, 7);
+    return submodule.dirty ? `${commits} · dirty` : commits;
+}
+
+function SubmoduleRow({
+    submodule,
+    onContextMenu,
+}: {
+    submodule: Submodule;
+    onContextMenu: (e: React.MouseEvent) => void;
+}) {
+    const title = [
+        submodule.path,
+        `Recorded: ${submodule.recorded}`,
+        submodule.checkedOut &&
+            `Checked out: ${submodule.checkedOut}${submodule.describe ? ` (${submodule.describe})` : ''}`,
+        submodule.dirty && 'Has uncommitted changes',
+    ]
+        .filter(Boolean)
+        .join('\n');
+    return (
+        <div className="branch-row" style={{ paddingLeft: 20 }} title={title} onContextMenu={onContextMenu}>
+            <IconFolder />
+            <span className="row-label">{submodule.path}</span>
+            <span className="row-detail">{submoduleDetail(submodule)}</span>
+        </div>
+    );
+}
+
+function SubmoduleList({
+    submodules,
+    onContextMenu,
+}: {
+    submodules: Submodule[];
+    onContextMenu: (e: React.MouseEvent, submodule: Submodule) => void;
+}) {
+    return (
+        <>
+            {submodules.map((submodule) => (
+                <SubmoduleRow
+                    key={submodule.path}
+                    submodule={submodule}
+                    onContextMenu={(e) => {
+                        e.preventDefault();
+                        onContextMenu(e, submodule);
+                    }}
+                />
+            ))}
+        </>
+    );
+}
+
+function RemoteList({
+    remotes,
+    onContextMenu,
+}: {
+    remotes: Remote[];
+    onContextMenu: (e: React.MouseEvent, remote: Remote) => void;
+}) {
+    return (
+        <>
+            {remotes.map((remote) => (
+                <div
+                    key={remote.name}
+                    className="branch-row"
+                    style={{ paddingLeft: 20 }}
+                    title={
+                        remote.pushUrl === remote.fetchUrl
+                            ? remote.fetchUrl
+                            : `Fetch: ${remote.fetchUrl}\nPush: ${remote.pushUrl}`
+                    }
+                    onContextMenu={(e) => {
+                        e.preventDefault();
+                        onContextMenu(e, remote);
+                    }}
+                >
+                    <IconFolder />
+                    <span className="row-label">{remote.name}</span>
+                    <span className="row-detail">{remote.fetchUrl}</span>
+                </div>
+            ))}
+        </>
+    );
+}
+
 function GroupRow({
     name,
     depth,
@@ -249,7 +628,6 @@ function TreeNodes({
     selected,
     multiSelected,
     collapsed,
-    isLocal,
     onSelect,
     onShiftClick,
     onCtrlClick,
@@ -262,7 +640,6 @@ function TreeNodes({
     selected: string | null;
     multiSelected: Set<string>;
     collapsed: Set<string>;
-    isLocal: boolean;
     onSelect: (branch: Branch) => void;
     onShiftClick: (branch: Branch) => void;
     onCtrlClick: (branch: Branch) => void;
@@ -297,7 +674,7 @@ function TreeNodes({
                     );
                 }
                 const isCollapsed = collapsed.has(node.key);
-                const groupBranches = isLocal ? collectBranches(node.children) : [];
+                const groupBranches = collectBranches(node.children);
                 return (
                     <React.Fragment key={node.key}>
                         <GroupRow
@@ -306,7 +683,7 @@ function TreeNodes({
                             isCollapsed={isCollapsed}
                             onToggle={() => onToggle(node.key)}
                             onContextMenu={
-                                isLocal && groupBranches.length > 0
+                                groupBranches.length > 0
                                     ? (e) => {
                                           e.preventDefault();
                                           onGroupContextMenu(e, groupBranches);
@@ -321,7 +698,6 @@ function TreeNodes({
                                 selected={selected}
                                 multiSelected={multiSelected}
                                 collapsed={collapsed}
-                                isLocal={isLocal}
                                 onSelect={onSelect}
                                 onShiftClick={onShiftClick}
                                 onCtrlClick={onCtrlClick}
@@ -339,8 +715,23 @@ function TreeNodes({
 
 // ── Main panel ───────────────────────────────────────────────────────────────
 
-export function BranchPanel({ branches: initialBranches }: Props) {
+export function BranchPanel({
+    branches: initialBranches,
+    tags: initialTags,
+    stashes: initialStashes,
+    worktrees: initialWorktrees,
+    submodules: initialSubmodules,
+    remotes: initialRemotes,
+    session: initialSession,
+    repositories,
+}: Props) {
     const [branches, setBranches] = useState(initialBranches);
+    const [tags, setTags] = useState(initialTags);
+    const [stashes, setStashes] = useState(initialStashes);
+    const [worktrees, setWorktrees] = useState(initialWorktrees);
+    const [submodules, setSubmodules] = useState(initialSubmodules);
+    const [remotes, setRemotes] = useState(initialRemotes);
+    const [session, setSession] = useState(initialSession);
     const [query, setQuery] = useState('');
     const [selected, setSelected] = useState<string | null>(null);
     const [multiSelected, setMultiSelected] = useState<Set<string>>(new Set());
@@ -354,6 +745,12 @@ export function BranchPanel({ branches: initialBranches }: Props) {
             const msg = event.data;
             if (msg.command === 'replaceBranches') {
                 setBranches(msg.branches);
+                setTags(msg.tags);
+                setStashes(msg.stashes);
+                setWorktrees(msg.worktrees);
+                setSubmodules(msg.submodules);
+                setRemotes(msg.remotes);
+                setSession(msg.session);
             }
         };
         window.addEventListener('message', handler);
@@ -366,6 +763,13 @@ export function BranchPanel({ branches: initialBranches }: Props) {
 
     const localTree = buildTree(localBranches, 'local');
     const remoteTree = buildRemoteTree(remoteBranches);
+    const filteredTags = tags.filter((t) => !q || t.name.toLowerCase().includes(q));
+    const filteredStashes = stashes.filter((s) => !q || s.message.toLowerCase().includes(q));
+    const filteredSubmodules = submodules.filter((s) => !q || s.path.toLowerCase().includes(q));
+    const filteredRemotes = remotes.filter((r) => !q || r.name.toLowerCase().includes(q));
+    const filteredWorktrees = worktrees.filter(
+        (w) => !q || w.path.toLowerCase().includes(q) || (w.branch ?? '').toLowerCase().includes(q),
+    );
 
     const handleSelect = useCallback(
         (branch: Branch) => {
@@ -374,32 +778,59 @@ export function BranchPanel({ branches: initialBranches }: Props) {
             setRangeAnchor(branch.fullName);
             if (selected === branch.fullName) {
                 setSelected(null);
-                vscode.postMessage({ command: 'selectBranch', branchName: null });
+                showInGraph([]);
             } else {
                 setSelected(branch.fullName);
-                vscode.postMessage({ command: 'selectBranch', branchName: branch.fullName });
+                showInGraph([branch.fullName]);
             }
         },
         [selected],
     );
 
-    const handleCtrlClick = useCallback((branch: Branch) => {
-        if (branch.isRemote) return;
-        setCtxMenu(null);
-        setRangeAnchor(branch.fullName);
-        setMultiSelected((prev) => {
-            const next = new Set(prev);
+    // Tags filter the graph like branches do, keyed by their full ref so they never clash with a branch name
+    const handleSelectTag = useCallback(
+        (tag: Tag) => {
+            const ref = `refs/tags/${tag.name}`;
+            setCtxMenu(null);
+            setMultiSelected(new Set());
+            if (selected === ref) {
+                setSelected(null);
+                showInGraph([]);
+            } else {
+                setSelected(ref);
+                showInGraph([ref]);
+            }
+        },
+        [selected],
+    );
+
+    const selectMultiple = useCallback((next: Set<string>) => {
+        setSelected(null);
+        setMultiSelected(next);
+        showInGraph([...next]);
+    }, []);
+
+    const handleCtrlClick = useCallback(
+        (branch: Branch) => {
+            setCtxMenu(null);
+            setRangeAnchor(branch.fullName);
+            // Ctrl-clicking after a plain click adds to the branch already in the graph
+            const next = new Set(
+                multiSelected.size === 0 && selected && branches.some((b) => b.fullName === selected)
+                    ? [selected]
+                    : multiSelected,
+            );
             if (next.has(branch.fullName)) next.delete(branch.fullName);
             else next.add(branch.fullName);
-            return next;
-        });
-    }, []);
+            selectMultiple(next);
+        },
+        [multiSelected, selected, branches, selectMultiple],
+    );
 
     const handleShiftClick = useCallback(
         (branch: Branch) => {
-            if (branch.isRemote) return;
             setCtxMenu(null);
-            const flat = flattenVisible(localTree, collapsed);
+            const flat = flattenVisible(branch.isRemote ? remoteTree : localTree, collapsed);
             const anchorIdx = flat.findIndex((b) => b.fullName === rangeAnchor);
             const currentIdx = flat.findIndex((b) => b.fullName === branch.fullName);
             if (anchorIdx === -1 || currentIdx === -1) {
@@ -408,20 +839,24 @@ export function BranchPanel({ branches: initialBranches }: Props) {
             }
             const min = Math.min(anchorIdx, currentIdx);
             const max = Math.max(anchorIdx, currentIdx);
-            const next = new Set<string>();
-            for (let i = min; i <= max; i++) {
-                if (!flat[i].isRemote) next.add(flat[i].fullName);
-            }
-            setMultiSelected(next);
+            selectMultiple(new Set(flat.slice(min, max + 1).map((b) => b.fullName)));
         },
-        [rangeAnchor, localTree, collapsed, handleCtrlClick],
+        [rangeAnchor, localTree, remoteTree, collapsed, handleCtrlClick, selectMultiple],
     );
 
     const handleContextMenu = useCallback(
         (e: React.MouseEvent, branch: Branch) => {
             e.preventDefault();
-            if (!branch.isRemote && multiSelected.has(branch.fullName) && multiSelected.size > 1) {
-                const selectedBranches = branches.filter((b) => multiSelected.has(b.fullName));
+            // Remote branches can be selected for the graph and compared, but not deleted from here
+            const hasDeletable = branches.some((b) => multiSelected.has(b.fullName) && !b.isRemote);
+            if (
+                multiSelected.has(branch.fullName) &&
+                (multiSelected.size === 2 || (multiSelected.size > 2 && hasDeletable))
+            ) {
+                // In the order they were picked, so the first one is the base of a comparison
+                const selectedBranches = [...multiSelected]
+                    .map((name) => branches.find((b) => b.fullName === name))
+                    .filter((b): b is Branch => !!b);
                 setCtxMenu({ kind: 'multi', x: e.pageX, y: e.pageY, branches: selectedBranches });
             } else {
                 setCtxMenu({ kind: 'branch', x: e.pageX, y: e.pageY, branch });
@@ -431,9 +866,7 @@ export function BranchPanel({ branches: initialBranches }: Props) {
     );
 
     const handleGroupContextMenu = useCallback((e: React.MouseEvent, groupBranches: Branch[]) => {
-        const deletable = groupBranches.filter((b) => !b.isRemote && !b.isHead);
-        if (deletable.length === 0) return;
-        setCtxMenu({ kind: 'folder', x: e.pageX, y: e.pageY, branches: deletable });
+        setCtxMenu({ kind: 'folder', x: e.pageX, y: e.pageY, branches: groupBranches });
     }, []);
 
     const handleAction = useCallback((command: string, branchName: string) => {
@@ -441,9 +874,35 @@ export function BranchPanel({ branches: initialBranches }: Props) {
         vscode.postMessage({ command, branchName });
     }, []);
 
+    const handleTagAction = useCallback((command: string, tagName?: string) => {
+        setCtxMenu(null);
+        vscode.postMessage({ command, tagName });
+    }, []);
+
+    const handleStashAction = useCallback((command: string, stashRef: string) => {
+        setCtxMenu(null);
+        vscode.postMessage({ command, stashRef });
+    }, []);
+
+    const handleWorktreeAction = useCallback((command: string, worktreePath?: string) => {
+        setCtxMenu(null);
+        vscode.postMessage({ command, worktreePath });
+    }, []);
+
+    const handleSubmoduleAction = useCallback((command: string, submodulePath?: string) => {
+        setCtxMenu(null);
+        vscode.postMessage({ command, submodulePath });
+    }, []);
+
+    const handleRemoteAction = useCallback((command: string, remoteName?: string) => {
+        setCtxMenu(null);
+        vscode.postMessage({ command, remoteName });
+    }, []);
+
     const handleDeleteMultiple = useCallback((branchNames: string[]) => {
         setCtxMenu(null);
         setMultiSelected(new Set());
+        showInGraph([]);
         vscode.postMessage({ command: 'deleteMultipleBranches', branchNames });
     }, []);
 
@@ -479,9 +938,23 @@ export function BranchPanel({ branches: initialBranches }: Props) {
         }
     }, [ctxMenu]);
 
+    const folderDeletable = ctxMenu?.kind === 'folder' ? ctxMenu.branches.filter((b) => !b.isRemote && !b.isHead) : [];
+    const multiDeletable = ctxMenu?.kind === 'multi' ? ctxMenu.branches.filter((b) => !b.isRemote) : [];
     const localCollapsed = sectionsCollapsed.has('local');
     const remoteCollapsed = sectionsCollapsed.has('remote');
-    const isEmpty = localBranches.length === 0 && remoteBranches.length === 0;
+    const tagsCollapsed = sectionsCollapsed.has('tags');
+    const stashesCollapsed = sectionsCollapsed.has('stashes');
+    const worktreesCollapsed = sectionsCollapsed.has('worktrees');
+    const submodulesCollapsed = sectionsCollapsed.has('submodules');
+    const remotesCollapsed = sectionsCollapsed.has('remotes');
+    const isEmpty =
+        localBranches.length === 0 &&
+        remoteBranches.length === 0 &&
+        filteredTags.length === 0 &&
+        filteredStashes.length === 0 &&
+        filteredWorktrees.length === 0 &&
+        filteredSubmodules.length === 0 &&
+        filteredRemotes.length === 0;
 
     return (
         <div
@@ -489,6 +962,8 @@ export function BranchPanel({ branches: initialBranches }: Props) {
                 setCtxMenu(null);
             }}
         >
+            <RepositorySelector selection={repositories} />
+            <SessionBanner session={session} />
             <div className="search-wrap">
                 <input
                     className="search-input"
@@ -516,7 +991,6 @@ export function BranchPanel({ branches: initialBranches }: Props) {
                             selected={selected}
                             multiSelected={multiSelected}
                             collapsed={collapsed}
-                            isLocal={true}
                             onSelect={(branch) => handleSelect(branch)}
                             onShiftClick={handleShiftClick}
                             onCtrlClick={handleCtrlClick}
@@ -543,7 +1017,6 @@ export function BranchPanel({ branches: initialBranches }: Props) {
                             selected={selected}
                             multiSelected={multiSelected}
                             collapsed={collapsed}
-                            isLocal={false}
                             onSelect={(branch) => handleSelect(branch)}
                             onShiftClick={handleShiftClick}
                             onCtrlClick={handleCtrlClick}
@@ -555,6 +1028,103 @@ export function BranchPanel({ branches: initialBranches }: Props) {
                 </div>
             )}
 
+            {filteredTags.length > 0 && (
+                <div className="section">
+                    <div className="section-header" onClick={() => toggleSection('tags')}>
+                        <span className="section-chevron">
+                            {tagsCollapsed ? <IconChevronRight /> : <IconChevronDown />}
+                        </span>
+                        <span className="section-label">Tags</span>
+                    </div>
+                    {!tagsCollapsed && (
+                        <TagList
+                            tags={filteredTags}
+                            selected={selected}
+                            onSelect={handleSelectTag}
+                            onContextMenu={(e, tag) => setCtxMenu({ kind: 'tag', x: e.pageX, y: e.pageY, tag })}
+                        />
+                    )}
+                </div>
+            )}
+
+            {filteredStashes.length > 0 && (
+                <div className="section">
+                    <div className="section-header" onClick={() => toggleSection('stashes')}>
+                        <span className="section-chevron">
+                            {stashesCollapsed ? <IconChevronRight /> : <IconChevronDown />}
+                        </span>
+                        <span className="section-label">Stashes</span>
+                    </div>
+                    {!stashesCollapsed && (
+                        <StashList
+                            stashes={filteredStashes}
+                            onAction={handleStashAction}
+                            onContextMenu={(e, stash) => setCtxMenu({ kind: 'stash', x: e.pageX, y: e.pageY, stash })}
+                        />
+                    )}
+                </div>
+            )}
+
+            {filteredWorktrees.length > 0 && (
+                <div className="section">
+                    <div className="section-header" onClick={() => toggleSection('worktrees')}>
+                        <span className="section-chevron">
+                            {worktreesCollapsed ? <IconChevronRight /> : <IconChevronDown />}
+                        </span>
+                        <span className="section-label">Worktrees</span>
+                    </div>
+                    {!worktreesCollapsed && (
+                        <WorktreeList
+                            worktrees={filteredWorktrees}
+                            onOpen={(worktree) => {
+                                if (!worktree.isCurrent) handleWorktreeAction('openWorktree', worktree.path);
+                            }}
+                            onContextMenu={(e, worktree) =>
+                                setCtxMenu({ kind: 'worktree', x: e.pageX, y: e.pageY, worktree })
+                            }
+                        />
+                    )}
+                </div>
+            )}
+
+            {filteredSubmodules.length > 0 && (
+                <div className="section">
+                    <div className="section-header" onClick={() => toggleSection('submodules')}>
+                        <span className="section-chevron">
+                            {submodulesCollapsed ? <IconChevronRight /> : <IconChevronDown />}
+                        </span>
+                        <span className="section-label">Submodules</span>
+                    </div>
+                    {!submodulesCollapsed && (
+                        <SubmoduleList
+                            submodules={filteredSubmodules}
+                            onContextMenu={(e, submodule) =>
+                                setCtxMenu({ kind: 'submodule', x: e.pageX, y: e.pageY, submodule })
+                            }
+                        />
+                    )}
+                </div>
+            )}
+
+            {filteredRemotes.length > 0 && (
+                <div className="section">
+                    <div className="section-header" onClick={() => toggleSection('remotes')}>
+                        <span className="section-chevron">
+                            {remotesCollapsed ? <IconChevronRight /> : <IconChevronDown />}
+                        </span>
+                        <span className="section-label">Remotes</span>
+                    </div>
+                    {!remotesCollapsed && (
+                        <RemoteList
+                            remotes={filteredRemotes}
+                            onContextMenu={(e, remote) =>
+                                setCtxMenu({ kind: 'remote', x: e.pageX, y: e.pageY, remote })
+                            }
+                        />
+                    )}
+                </div>
+            )}
+
             {isEmpty && <div className="empty">No branches match</div>}
 
             {ctxMenu && (
@@ -589,6 +1159,43 @@ export function BranchPanel({ branches: initialBranches }: Props) {
                                         >
                                             Create New Branch Here
                                         </div>
+                                        {!ctxMenu.branch.isHead && !ctxMenu.branch.worktreePath && (
+                                            <div
+                                                className="ctx-item"
+                                                onClick={() => handleAction('addWorktree', ctxMenu.branch.fullName)}
+                                            >
+                                                Add Worktree…
+                                            </div>
+                                        )}
+                                        <div className="ctx-sep" />
+                                        {/* Other branches are updated without checking them out, which only
+                                            works when the branch is not checked out in another worktree */}
+                                        {ctxMenu.branch.upstream &&
+                                            !ctxMenu.branch.upstreamGone &&
+                                            (ctxMenu.branch.isHead || !ctxMenu.branch.worktreePath) && (
+                                                <div
+                                                    className="ctx-item"
+                                                    onClick={() =>
+                                                        handleAction(
+                                                            ctxMenu.branch.isHead ? 'pull' : 'pullBranch',
+                                                            ctxMenu.branch.fullName,
+                                                        )
+                                                    }
+                                                >
+                                                    Pull
+                                                </div>
+                                            )}
+                                        <div
+                                            className="ctx-item"
+                                            onClick={() =>
+                                                handleAction(
+                                                    ctxMenu.branch.isHead ? 'push' : 'pushBranch',
+                                                    ctxMenu.branch.fullName,
+                                                )
+                                            }
+                                        >
+                                            {ctxMenu.branch.upstream ? 'Push' : 'Publish Branch…'}
+                                        </div>
                                         <div className="ctx-sep" />
                                     </>
                                 )}
@@ -607,22 +1214,208 @@ export function BranchPanel({ branches: initialBranches }: Props) {
                             </>
                         )}
 
+                        {ctxMenu.kind === 'tag' && (
+                            <>
+                                <div className="ctx-item" onClick={() => handleTagAction('pushTag', ctxMenu.tag.name)}>
+                                    Push Tag
+                                </div>
+                                <div className="ctx-item" onClick={() => handleTagAction('pushAllTags')}>
+                                    Push All Tags
+                                </div>
+                                <div className="ctx-sep" />
+                                <div
+                                    className="ctx-item ctx-item-danger"
+                                    onClick={() => handleTagAction('deleteTag', ctxMenu.tag.name)}
+                                >
+                                    Delete Tag
+                                </div>
+                            </>
+                        )}
+
+                        {ctxMenu.kind === 'stash' && (
+                            <>
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => handleStashAction('applyStash', ctxMenu.stash.ref)}
+                                >
+                                    Apply
+                                </div>
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => handleStashAction('popStash', ctxMenu.stash.ref)}
+                                >
+                                    Pop
+                                </div>
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => handleStashAction('branchFromStash', ctxMenu.stash.ref)}
+                                >
+                                    Create Branch from Stash
+                                </div>
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => handleStashAction('showStash', ctxMenu.stash.ref)}
+                                >
+                                    Show Changes
+                                </div>
+                                <div className="ctx-sep" />
+                                <div
+                                    className="ctx-item ctx-item-danger"
+                                    onClick={() => handleStashAction('dropStash', ctxMenu.stash.ref)}
+                                >
+                                    Drop
+                                </div>
+                            </>
+                        )}
+
+                        {ctxMenu.kind === 'worktree' && (
+                            <>
+                                {!ctxMenu.worktree.isCurrent && (
+                                    <div
+                                        className="ctx-item"
+                                        onClick={() => handleWorktreeAction('openWorktree', ctxMenu.worktree.path)}
+                                    >
+                                        Open in New Window
+                                    </div>
+                                )}
+                                <div className="ctx-item" onClick={() => handleWorktreeAction('addWorktree')}>
+                                    Add Worktree…
+                                </div>
+                                <div className="ctx-item" onClick={() => handleWorktreeAction('pruneWorktrees')}>
+                                    Prune Worktrees
+                                </div>
+                                {!ctxMenu.worktree.isMain && !ctxMenu.worktree.isCurrent && (
+                                    <>
+                                        <div className="ctx-sep" />
+                                        <div
+                                            className="ctx-item ctx-item-danger"
+                                            onClick={() =>
+                                                handleWorktreeAction('removeWorktree', ctxMenu.worktree.path)
+                                            }
+                                        >
+                                            Remove Worktree
+                                        </div>
+                                    </>
+                                )}
+                            </>
+                        )}
+
+                        {ctxMenu.kind === 'submodule' && (
+                            <>
+                                {ctxMenu.submodule.state === 'uninitialized' && (
+                                    <div
+                                        className="ctx-item"
+                                        onClick={() => handleSubmoduleAction('initSubmodule', ctxMenu.submodule.path)}
+                                    >
+                                        Initialize
+                                    </div>
+                                )}
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => handleSubmoduleAction('updateSubmodule', ctxMenu.submodule.path)}
+                                >
+                                    Update
+                                </div>
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => handleSubmoduleAction('syncSubmodule', ctxMenu.submodule.path)}
+                                >
+                                    Sync URL
+                                </div>
+                                <div className="ctx-sep" />
+                                <div className="ctx-item" onClick={() => handleSubmoduleAction('updateSubmodule')}>
+                                    Update All Submodules
+                                </div>
+                                <div className="ctx-item" onClick={() => handleSubmoduleAction('syncSubmodule')}>
+                                    Sync All Submodules
+                                </div>
+                            </>
+                        )}
+
+                        {ctxMenu.kind === 'remote' && (
+                            <>
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => handleRemoteAction('fetch', ctxMenu.remote.name)}
+                                >
+                                    Fetch
+                                </div>
+                                <div className="ctx-item" onClick={() => handleRemoteAction('fetchAll')}>
+                                    Fetch All Remotes and Prune
+                                </div>
+                                <div className="ctx-sep" />
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => handleRemoteAction('editRemoteUrl', ctxMenu.remote.name)}
+                                >
+                                    Edit URL…
+                                </div>
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => handleRemoteAction('renameRemote', ctxMenu.remote.name)}
+                                >
+                                    Rename…
+                                </div>
+                                <div className="ctx-item" onClick={() => handleRemoteAction('addRemote')}>
+                                    Add Remote…
+                                </div>
+                                <div className="ctx-sep" />
+                                <div
+                                    className="ctx-item ctx-item-danger"
+                                    onClick={() => handleRemoteAction('removeRemote', ctxMenu.remote.name)}
+                                >
+                                    Remove Remote
+                                </div>
+                            </>
+                        )}
+
                         {ctxMenu.kind === 'multi' && (
-                            <div
-                                className="ctx-item ctx-item-danger"
-                                onClick={() => handleDeleteMultiple(ctxMenu.branches.map((b) => b.fullName))}
-                            >
-                                Delete Selected ({ctxMenu.branches.length})
-                            </div>
+                            <>
+                                {ctxMenu.branches.length === 2 && (
+                                    <div
+                                        className="ctx-item"
+                                        onClick={() => {
+                                            setCtxMenu(null);
+                                            vscode.postMessage({
+                                                command: 'compareBranches',
+                                                branchNames: ctxMenu.branches.map((b) => b.fullName),
+                                            });
+                                        }}
+                                    >
+                                        Compare {ctxMenu.branches[0].fullName} ↔ {ctxMenu.branches[1].fullName}
+                                    </div>
+                                )}
+                                {multiDeletable.length > 0 && (
+                                    <div
+                                        className="ctx-item ctx-item-danger"
+                                        onClick={() => handleDeleteMultiple(multiDeletable.map((b) => b.fullName))}
+                                    >
+                                        Delete Selected ({multiDeletable.length})
+                                    </div>
+                                )}
+                            </>
                         )}
 
                         {ctxMenu.kind === 'folder' && (
-                            <div
-                                className="ctx-item ctx-item-danger"
-                                onClick={() => handleDeleteMultiple(ctxMenu.branches.map((b) => b.fullName))}
-                            >
-                                Delete All in Folder ({ctxMenu.branches.length})
-                            </div>
+                            <>
+                                <div
+                                    className="ctx-item"
+                                    onClick={() => {
+                                        setCtxMenu(null);
+                                        selectMultiple(new Set(ctxMenu.branches.map((b) => b.fullName)));
+                                    }}
+                                >
+                                    Show Folder in Graph ({ctxMenu.branches.length})
+                                </div>
+                                {folderDeletable.length > 0 && (
+                                    <div
+                                        className="ctx-item ctx-item-danger"
+                                        onClick={() => handleDeleteMultiple(folderDeletable.map((b) => b.fullName))}
+                                    >
+                                        Delete All in Folder ({folderDeletable.length})
+                                    </div>
+                                )}
+                            </>
                         )}
                     </div>
                 </>
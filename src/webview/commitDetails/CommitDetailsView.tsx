@@ -1,75 +1,5 @@
 import React, { useState } from 'react';
-
-interface FileDiff {
-    filePath: string;
-    added: number;
-    removed: number;
-    lines: string[];
-}
-
-function parsePatch(patch: string): FileDiff[] {
-    const diffIdx = patch.indexOf('\ndiff --git ');
-    if (diffIdx < 0) {
-        return [];
-    }
-
-    return patch
-        .slice(diffIdx + 1)
-        .split(/(?=^diff --git )/m)
-        .filter((s) => s.trim())
-        .map((section) => {
-            const lines = section.split('\n');
-            const match = lines[0].match(/^diff --git a\/(.*?) b\/(.*)$/);
-            const filePath = match ? match[2] : lines[0];
-            let added = 0,
-                removed = 0;
-            lines.forEach((line) => {
-                if (line.startsWith('+') && !line.startsWith('+++')) {
-                    added++;
-                }
-                if (line.startsWith('-') && !line.startsWith('---')) {
-                    removed++;
-                }
-            });
-            return { filePath, added, removed, lines };
-        });
-}
-
-function DiffLine({ line }: { line: string }) {
-    if (line.startsWith('@@')) {
-        return <span className="diff-line diff-hunk">{line}</span>;
-    }
-    if (line.startsWith('+')) {
-        return <span className="diff-line diff-add">{line}</span>;
-    }
-    if (line.startsWith('-')) {
-        return <span className="diff-line diff-del">{line}</span>;
-    }
-    return <span className="diff-line diff-ctx">{line}</span>;
-}
-
-function FileDiffBlock({ diff }: { diff: FileDiff }) {
-    const hunkStart = diff.lines.findIndex((line) => line.startsWith('@@'));
-    const hunkLines = hunkStart === -1 ? [] : diff.lines.slice(hunkStart);
-
-    return (
-        <details open>
-            <summary>
-                <span className="chevron">&#9658;</span>
-                <span className="file-name">{diff.filePath}</span>
-                <span className="file-stats">
-                    {diff.added > 0 && <span className="added">+{diff.added} </span>}
-                    {diff.removed > 0 && <span className="removed">-{diff.removed}</span>}
-                </span>
-            </summary>
-            <pre className="diff-content">
-                {hunkLines.map((line, i) => (
-                    <DiffLine key={i} line={line} />
-                ))}
-            </pre>
-        </details>
-    );
-}
+import { FileDiffBlock, parsePatch } from '../diff/FileDiffBlock';
 
 interface CopyableProps {
     value: string;
@@ -118,33 +48,35 @@ export function CommitDetailsView({ data }: { data: CommitDetailsData }) {
             <p className="subject">{subject}</p>
             {body && <p className="body">{body}</p>}
 
-            <div className="meta">
-                <span className="meta-label">Hash</span>
-                <Copyable value={fullHash} onCopy={copyToClipboard}>
-                    <code className="meta-value hash">{fullHash}</code>
-                </Copyable>
-
-                <span className="meta-label">Author</span>
-                <Copyable value={`${authorName} <${authorEmail}>`} onCopy={copyToClipboard}>
-                    <span className="meta-value">
-                        {authorName} &lt;{authorEmail}&gt;
-                    </span>
-                </Copyable>
-
-                <span className="meta-label">Date</span>
-                <Copyable value={formattedAuthorDate} onCopy={copyToClipboard}>
-                    <span className="meta-value">{formattedAuthorDate}</span>
-                </Copyable>
-
-                {showCommitDate && (
-                    <>
-                        <span className="meta-label">Committed</span>
-                        <Copyable value={formattedCommitDate} onCopy={copyToClipboard}>
-                            <span className="meta-value">{formattedCommitDate}</span>
-                        </Copyable>
-                    </>
-                )}
-            </div>
+            {fullHash && (
+                <div className="meta">
+                    <span className="meta-label">Hash</span>
+                    <Copyable value={fullHash} onCopy={copyToClipboard}>
+                        <code className="meta-value hash">{fullHash}</code>
+                    </Copyable>
+
+                    <span className="meta-label">Author</span>
+                    <Copyable value={`${authorName} <${authorEmail}>`} onCopy={copyToClipboard}>
+                        <span className="meta-value">
+                            {authorName} &lt;{authorEmail}&gt;
+                        </span>
+                    </Copyable>
+
+                    <span className="meta-label">Date</span>
+                    <Copyable value={formattedAuthorDate} onCopy={copyToClipboard}>
+                        <span className="meta-value">{formattedAuthorDate}</span>
+                    </Copyable>
+
+                    {showCommitDate && (
+                        <>
+                            <span className="meta-label">Committed</span>
+                            <Copyable value={formattedCommitDate} onCopy={copyToClipboard}>
+                                <span className="meta-value">{formattedCommitDate}</span>
+                            </Copyable>
+                        </>
+                    )}
+                </div>
+            )}
 
             <div className="section-title">Changed Files</div>
 
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { GitCommit } from '../types';
+import { vscode } from '../vscodeApi';
+import { FileDiffBlock, parsePatch } from '../diff/FileDiffBlock';
+
+export type CompareDiffMode = 'mergeBase' | 'direct';
+
+export interface CompareViewData {
+    left: string;
+    right: string;
+    mergeBase: GitCommit | null;
+    onlyLeft: GitCommit[];
+    onlyRight: GitCommit[];
+    leftCount: number;
+    rightCount: number;
+    diffMode: CompareDiffMode;
+    files: ChangedFile[];
+    // null when the diff is too large to show
+    patch: string | null;
+}
+
+export interface ChangedFile {
+    path: string;
+    added: number | null;
+    deleted: number | null;
+}
+
+function ChangedFileEntry({ file }: { file: ChangedFile }) {
+    return (
+        <div className="entry">
+            <span className="entry-message">{file.path}</span>
+            <span className="entry-date">{file.added === null ? 'binary' : `+${file.added} −${file.deleted}`}</span>
+        </div>
+    );
+}
+
+function CommitEntry({ commit }: { commit: GitCommit }) {
+    return (
+        <div
+            className="entry"
+            title={commit.hash}
+            onClick={() => vscode.postMessage({ command: 'showDetails', hash: commit.hash })}
+        >
+            <span className="entry-hash">{commit.shortHash}</span>
+            <span className="entry-message">{commit.message}</span>
+            <span className="entry-date">
+                {commit.author}, {commit.date}
+            </span>
+        </div>
+    );
+}
+
+function CommitSection({ title, commits, count }: { title: React.ReactNode; commits: GitCommit[]; count: number }) {
+    return (
+        <>
+            <div className="section-title">
+                {title} <span className="count">({count})</span>
+            </div>
+            {commits.length === 0 ? (
+                <p className="no-changes">None.</p>
+            ) : (
+                commits.map((commit) => <CommitEntry key={commit.hash} commit={commit} />)
+            )}
+            {count > commits.length && (
+                <p className="no-changes">…and {count - commits.length} older commits not listed.</p>
+            )}
+        </>
+    );
+}
+
+export function CompareView({ data: initialData }: { data: CompareViewData }) {
+    const [data, setData] = useState(initialData);
+
+    useEffect(() => {
+        const handler = (event: MessageEvent) => {
+            const msg = event.data;
+            if (msg.command === 'replaceComparison') {
+                setData(msg.data);
+            }
+        };
+        window.addEventListener('message', handler);
+        return () => window.removeEventListener('message', handler);
+    }, []);
+
+    const left = <span className="compare-ref">{data.left}</span>;
+    const right = <span className="compare-ref">{data.right}</span>;
+    const diffs = data.patch === null ? [] : parsePatch(`\n${data.patch}`);
+
+    return (
+        <>
+            <div className="toolbar">
+                <span className="compare-title">
+                    {left} ↔ {right}
+                </span>
+                <span className="spacer" />
+                <button onClick={() => vscode.postMessage({ command: 'swap' })}>Swap Sides</button>
+                <button onClick={() => vscode.postMessage({ command: 'refresh' })}>Refresh</button>
+            </div>
+            {data.mergeBase ? (
+                <p
+                    className="merge-base"
+                    title={data.mergeBase.hash}
+                    onClick={() => vscode.postMessage({ command: 'showDetails', hash: data.mergeBase!.hash })}
+                >
+                    Merge base <span className="entry-hash">{data.mergeBase.shortHash}</span> {data.mergeBase.message}
+                </p>
+            ) : (
+                <p className="merge-base">No merge base: the two have no common history.</p>
+            )}
+
+            <CommitSection title={<>Only in {left}</>} commits={data.onlyLeft} count={data.leftCount} />
+            <CommitSection title={<>Only in {right}</>} commits={data.onlyRight} count={data.rightCount} />
+
+            <div className="section-title">
+                Changed Files <span className="count">({data.files.length})</span>
+                <select
+                    value={data.diffMode}
+                    disabled={!data.mergeBase}
+                    onChange={(e) =>
+                        vscode.postMessage({ command: 'setDiffMode', diffMode: e.target.value as CompareDiffMode })
+                    }
+                >
+                    <option value="mergeBase">
+                        Changes on {data.right} since the merge base ({data.left}...{data.right})
+                    </option>
+                    <option value="direct">
+                        Difference between the two ({data.left} {data.right})
+                    </option>
+                </select>
+            </div>
+            {data.patch === null ? (
+                <>
+                    <p className="no-changes">The diff is too large to show here; these files differ.</p>
+                    {data.files.map((file, i) => (
+                        <ChangedFileEntry key={i} file={file} />
+                    ))}
+                </>
+            ) : diffs.length === 0 ? (
+                <p className="no-changes">No differences.</p>
+            ) : (
+                diffs.map((diff, i) => <FileDiffBlock key={i} diff={diff} />)
+            )}
+        </>
+    );
+}
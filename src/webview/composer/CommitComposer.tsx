@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { ComposerFile, DiffHunk } from '../types';
+import { vscode } from '../vscodeApi';
+
+export interface CommitComposerData {
+    staged: ComposerFile[];
+    unstaged: ComposerFile[];
+    headMessage: string | null;
+}
+
+function DiffLine({ line }: { line: string }) {
+    if (line.startsWith('+')) {
+        return <span className="diff-line diff-add">{line}</span>;
+    }
+    if (line.startsWith('-')) {
+        return <span className="diff-line diff-del">{line}</span>;
+    }
+    return <span className="diff-line diff-ctx">{line || ' '}</span>;
+}
+
+function HunkBlock({ hunk, actionLabel, onAction }: { hunk: DiffHunk; actionLabel: string; onAction: () => void }) {
+    return (
+        <div className="hunk">
+            <div className="hunk-toolbar">
+                <span className="hunk-label">{hunk.header}</span>
+                <button onClick={onAction}>{actionLabel}</button>
+            </div>
+            <pre className="diff-content">
+                {hunk.lines.map((line, i) => (
+                    <DiffLine key={i} line={line} />
+                ))}
+            </pre>
+        </div>
+    );
+}
+
+function ComposerFileBlock({ file, staged }: { file: ComposerFile; staged: boolean }) {
+    const post = (command: string, extra: object = {}) => vscode.postMessage({ command, path: file.path, ...extra });
+    const added = file.hunks.reduce((n, h) => n + h.lines.filter((l) => l.startsWith('+')).length, 0);
+    const removed = file.hunks.reduce((n, h) => n + h.lines.filter((l) => l.startsWith('-')).length, 0);
+
+    return (
+        <details open={!file.untracked && !file.binary}>
+            <summary>
+                <span className="chevron">&#9658;</span>
+                <span className="file-name">{file.path}</span>
+                <span className="file-stats">
+                    {file.untracked ? (
+                        'untracked'
+                    ) : file.binary ? (
+                        'binary'
+                    ) : (
+                        <>
+                            {added > 0 && <span className="added">+{added} </span>}
+                            {removed > 0 && <span className="removed">-{removed}</span>}
+                        </>
+                    )}
+                </span>
+                <span className="file-actions" onClick={(e) => e.preventDefault()}>
+                    <button onClick={() => post('openFile')}>Open</button>
+                    <button onClick={() => post(staged ? 'unstageFile' : 'stageFile')}>
+                        {staged ? 'Unstage' : 'Stage'}
+                    </button>
+                </span>
+            </summary>
+            {file.hunks.length === 0 ? (
+                <div className="file-note">
+                    {file.untracked
+                        ? 'New file, not tracked yet. Stage it as a whole.'
+                        : file.binary
+                          ? 'Binary file: stage it as a whole.'
+                          : 'No content changes (mode or rename only).'}
+                </div>
+            ) : (
+                file.hunks.map((hunk, i) => (
+                    <HunkBlock
+                        key={i}
+                        hunk={hunk}
+                        actionLabel={staged ? 'Unstage Hunk' : 'Stage Hunk'}
+                        onAction={() => post(staged ? 'unstageHunk' : 'stageHunk', { hunkIndex: i })}
+                    />
+                ))
+            )}
+        </details>
+    );
+}
+
+export function CommitComposer({ data: initialData }: { data: CommitComposerData }) {
+    const [data, setData] = useState(initialData);
+    const [subject, setSubject] = useState('');
+    const [body, setBody] = useState('');
+    const [amend, setAmend] = useState(false);
+    const [signoff, setSignoff] = useState(false);
+
+    useEffect(() => {
+        const handler = (event: MessageEvent) => {
+            const msg = event.data;
+            if (msg.command === 'replaceComposer') {
+                setData(msg.data);
+            }
+        };
+        window.addEventListener('message', handler);
+        return () => window.removeEventListener('message', handler);
+    }, []);
+
+    const handleAmendChange = (checked: boolean) => {
+        setAmend(checked);
+        // Start from HEAD's message when amending, unless something has been typed already
+        if (checked && !subject.trim() && !body.trim() && data.headMessage) {
+            const [first, ...rest] = data.headMessage.split('\n');
+            setSubject(first);
+            setBody(rest.join('\n').trim());
+        }
+    };
+
+    const canCommit = subject.trim().length > 0 && (amend || data.staged.length > 0);
+    const commitTitle = !subject.trim()
+        ? 'Enter a commit subject'
+        : !amend && data.staged.length === 0
+          ? 'Stage some changes first'
+          : undefined;
+
+    return (
+        <>
+            <div className="message-form">
+                <input
+                    type="text"
+                    placeholder="Subject"
+                    value={subject}
+                    onChange={(e) => setSubject(e.target.value)}
+                    spellCheck={false}
+                />
+                <textarea
+                    placeholder="Body (optional)"
+                    value={body}
+                    onChange={(e) => setBody(e.target.value)}
+                    spellCheck={false}
+                />
+                <div className="form-row">
+                    <label>
+                        <input
+                            type="checkbox"
+                            checked={amend}
+                            disabled={data.headMessage === null}
+                            onChange={(e) => handleAmendChange(e.target.checked)}
+                        />
+                        Amend last commit
+                    </label>
+                    <label>
+                        <input type="checkbox" checked={signoff} onChange={(e) => setSignoff(e.target.checked)} />
+                        Sign off
+                    </label>
+                    <span className="spacer" />
+                    <button onClick={() => vscode.postMessage({ command: 'refresh' })}>Refresh</button>
+                    <button
+                        className="primary"
+                        disabled={!canCommit}
+                        title={commitTitle}
+                        onClick={() => vscode.postMessage({ command: 'commit', subject, body, amend, signoff })}
+                    >
+                        {amend ? 'Amend Commit' : 'Commit'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="section-title">
+                Staged Changes <span className="count">({data.staged.length})</span>
+                {data.staged.length > 0 && (
+                    <button onClick={() => vscode.postMessage({ command: 'unstageAll' })}>Unstage All</button>
+                )}
+            </div>
+            {data.staged.length === 0 ? (
+                <p className="no-changes">Nothing staged.</p>
+            ) : (
+                data.staged.map((file) => <ComposerFileBlock key={`s:${file.path}`} file={file} staged />)
+            )}
+
+            <div className="section-title">
+                Changes <span className="count">({data.unstaged.length})</span>
+                {data.unstaged.length > 0 && (
+                    <button onClick={() => vscode.postMessage({ command: 'stageAll' })}>Stage All</button>
+                )}
+            </div>
+            {data.unstaged.length === 0 ? (
+                <p className="no-changes">Working tree is clean.</p>
+            ) : (
+                data.unstaged.map((file) => <ComposerFileBlock key={`u:${file.path}`} file={file} staged={false} />)
+            )}
+        </>
+    );
+}
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { ConflictChoice, ConflictFile, ConflictSegment } from '../types';
+import { vscode } from '../vscodeApi';
+
+const CONTEXT_LINES = 3;
+
+export interface ConflictViewData {
+    operationLabel: string | null;
+    files: ConflictFile[];
+}
+
+function Lines({ lines, className }: { lines: string[]; className: string }) {
+    return (
+        <pre className="diff-content">
+            {lines.length === 0 ? (
+                <span className="diff-line diff-collapsed">(empty)</span>
+            ) : (
+                lines.map((line, i) => (
+                    <span key={i} className={`diff-line ${className}`}>
+                        {line || ' '}
+                    </span>
+                ))
+            )}
+        </pre>
+    );
+}
+
+function CommonLines({ lines, isFirst, isLast }: { lines: string[]; isFirst: boolean; isLast: boolean }) {
+    // Only the context around conflicts is useful; fold the rest
+    const head = isFirst ? [] : lines.slice(0, CONTEXT_LINES);
+    const tail = isLast ? [] : lines.slice(-CONTEXT_LINES);
+    const hidden = lines.length - head.length - tail.length;
+    if (hidden <= 0) {
+        return <Lines lines={lines} className="diff-ctx" />;
+    }
+    return (
+        <pre className="diff-content">
+            {head.map((line, i) => (
+                <span key={`h${i}`} className="diff-line diff-ctx">
+                    {line || ' '}
+                </span>
+            ))}
+            <span className="diff-line diff-collapsed">
+                ⋯ {hidden} unchanged line{hidden > 1 ? 's' : ''}
+            </span>
+            {tail.map((line, i) => (
+                <span key={`t${i}`} className="diff-line diff-ctx">
+                    {line || ' '}
+                </span>
+            ))}
+        </pre>
+    );
+}
+
+function ConflictHunk({
+    segment,
+    index,
+    choice,
+    onChoose,
+}: {
+    segment: Extract<ConflictSegment, { type: 'conflict' }>;
+    index: number;
+    choice: ConflictChoice | null;
+    onChoose: (choice: ConflictChoice) => void;
+}) {
+    const isChosen = (side: 'ours' | 'theirs') => choice === side || choice === 'both';
+    return (
+        <div className="conflict-hunk">
+            <div className="hunk-toolbar">
+                <span className="hunk-label">Conflict {index + 1}</span>
+                <button className={choice === 'ours' ? 'active' : undefined} onClick={() => onChoose('ours')}>
+                    Accept Ours
+                </button>
+                <button className={choice === 'theirs' ? 'active' : undefined} onClick={() => onChoose('theirs')}>
+                    Accept Theirs
+                </button>
+                <button className={choice === 'both' ? 'active' : undefined} onClick={() => onChoose('both')}>
+                    Accept Both
+                </button>
+            </div>
+            <div className="hunk-columns">
+                <div className={`hunk-column${isChosen('ours') ? ' chosen' : ''}`}>
+                    <div className="column-label">Ours</div>
+                    <Lines lines={segment.ours} className="diff-del" />
+                </div>
+                <div className="hunk-column">
+                    <div className="column-label">Base</div>
+                    <Lines lines={segment.base} className="diff-ctx" />
+                </div>
+                <div className={`hunk-column${isChosen('theirs') ? ' chosen' : ''}`}>
+                    <div className="column-label">Theirs</div>
+                    <Lines lines={segment.theirs} className="diff-add" />
+                </div>
+            </div>
+        </div>
+    );
+}
+
+function ConflictFileBlock({ file }: { file: ConflictFile }) {
+    const conflictCount = file.segments.filter((s) => s.type === 'conflict').length;
+    const [choices, setChoices] = useState<(ConflictChoice | null)[]>(() => Array(conflictCount).fill(null));
+    const decided = choices.filter((c) => c).length;
+    const post = (command: string, extra: object = {}) => vscode.postMessage({ command, path: file.path, ...extra });
+
+    let conflictIndex = 0;
+
+    return (
+        <details open>
+            <summary>
+                <span className="chevron">&#9658;</span>
+                <span className="file-name">{file.path}</span>
+                <span className="file-stats">
+                    {file.kind === 'content'
+                        ? `${decided}/${conflictCount} resolved`
+                        : file.kind === 'binary'
+                          ? 'binary'
+                          : `deleted by ${file.hasOurs ? 'them' : 'us'}`}
+                </span>
+                <span className="file-actions" onClick={(e) => e.preventDefault()}>
+                    <button onClick={() => post('openFile')}>Open</button>
+                    <button onClick={() => post('acceptFile', { side: 'ours' })}>All Ours</button>
+                    <button onClick={() => post('acceptFile', { side: 'theirs' })}>All Theirs</button>
+                    {file.kind === 'content' && (
+                        <button
+                            className="primary"
+                            disabled={decided > 0 && decided < conflictCount}
+                            title={
+                                decided === 0
+                                    ? 'Stage the file as it is in the working tree'
+                                    : 'Write the chosen sides and stage the file'
+                            }
+                            onClick={() => post('markResolved', { choices })}
+                        >
+                            Mark Resolved
+                        </button>
+                    )}
+                </span>
+            </summary>
+            {file.kind === 'content' ? (
+                file.segments.map((segment, i) => {
+                    if (segment.type === 'common') {
+                        return (
+                            <CommonLines
+                                key={i}
+                                lines={segment.lines}
+                                isFirst={i === 0}
+                                isLast={i === file.segments.length - 1}
+                            />
+                        );
+                    }
+                    const index = conflictIndex++;
+                    return (
+                        <ConflictHunk
+                            key={i}
+                            segment={segment}
+                            index={index}
+                            choice={choices[index]}
+                            onChoose={(choice) => setChoices((prev) => prev.map((c, j) => (j === index ? choice : c)))}
+                        />
+                    );
+                })
+            ) : (
+                <div className="resolved-file">
+                    {file.kind === 'binary'
+                        ? 'Binary file: keep one side as a whole.'
+                        : `One side deleted this file and the other changed it. Keep ${file.hasOurs ? 'ours' : 'theirs'} or accept the deletion.`}
+                </div>
+            )}
+        </details>
+    );
+}
+
+export function ConflictView({ data: initialData }: { data: ConflictViewData }) {
+    const [data, setData] = useState(initialData);
+
+    useEffect(() => {
+        const handler = (event: MessageEvent) => {
+            const msg = event.data;
+            if (msg.command === 'replaceConflicts') {
+                setData(msg.data);
+            }
+        };
+        window.addEventListener('message', handler);
+        return () => window.removeEventListener('message', handler);
+    }, []);
+
+    const count = data.files.length;
+
+    return (
+        <>
+            <p className="title">{data.operationLabel ? `${data.operationLabel} conflicts` : 'Conflicts'}</p>
+            <p className="hint">
+                Pick a side for each conflict, or edit the file directly, then mark it resolved to stage it.{' '}
+                <button onClick={() => vscode.postMessage({ command: 'refresh' })}>Refresh</button>
+            </p>
+
+            {count === 0 ? (
+                <>
+                    <p className="no-changes">All conflicts are resolved.</p>
+                    {data.operationLabel && (
+                        <button
+                            className="primary"
+                            onClick={() => vscode.postMessage({ command: 'continueOperation' })}
+                        >
+                            Continue {data.operationLabel}
+                        </button>
+                    )}
+                </>
+            ) : (
+                // Keyed by the segment count too, so a re-sent file starts with fresh choices
+                data.files.map((file) => <ConflictFileBlock key={`${file.path}:${file.segments.length}`} file={file} />)
+            )}
+        </>
+    );
+}
@@ -0,0 +1,125 @@
+import React from 'react';
+
+export interface FileDiff {
+    filePath: string;
+    added: number;
+    removed: number;
+    lines: string[];
+}
+
+// Splits a patch into one entry per file. Anything before the first "diff --git" line, such as the commit
+// header of `git show`, is skipped; plain `git diff` output needs a newline in front.
+export function parsePatch(patch: string): FileDiff[] {
+    const diffIdx = patch.indexOf('\ndiff --git ');
+    if (diffIdx < 0) {
+        return [];
+    }
+
+    return patch
+        .slice(diffIdx + 1)
+        .split(/(?=^diff --git )/m)
+        .filter((s) => s.trim())
+        .map((section) => {
+            const lines = section.split('\n');
+            const match = lines[0].match(/^diff --git a\/(.*?) b\/(.*)$/);
+            const filePath = match ? match[2] : lines[0];
+            let added = 0,
+                removed = 0;
+            lines.forEach((line) => {
+                if (line.startsWith('+') && !line.startsWith('+++')) {
+                    added++;
+                }
+                if (line.startsWith('-') && !line.startsWith('---')) {
+                    removed++;
+                }
+            });
+            return { filePath, added, removed, lines };
+        });
+}
+
+// A submodule's diff is a "Subproject commit <sha>" line on either side instead of file content. Describes
+// it as "Submodule X: abc1234 → def5678", or null for ordinary files.
+function describeSubmoduleChange(diff: FileDiff): string | null {
+    const hunkStart = diff.lines.findIndex((line) => line.startsWith('@@'));
+    const header = hunkStart === -1 ? diff.lines : diff.lines.slice(0, hunkStart);
+    if (!header.some((line) => /\b160000\b/.test(line))) {
+        return null;
+    }
+
+    let from: string | null = null;
+    let to: string | null = null;
+    for (const line of diff.lines) {
+        const match = /^([+-])Subproject commit ([0-9a-f]+)(-dirty)?$/.exec(line);
+        if (match) {
+            const commit = `${match[2].substring(0, 7)}${match[3] ? ' (dirty)' : ''}`;
+            if (match[1] === '-') {
+                from = commit;
+            } else {
+                to = commit;
+            }
+        }
+    }
+
+    if (from && to) {
+        return `Submodule ${diff.filePath}: ${from} → ${to}`;
+    }
+    if (to) {
+        return `Submodule ${diff.filePath} added at ${to}`;
+    }
+    if (from) {
+        return `Submodule ${diff.filePath} removed (was ${from})`;
+    }
+    return null;
+}
+
+function DiffLine({ line }: { line: string }) {
+    if (line.startsWith('@@')) {
+        return <span className="diff-line diff-hunk">{line}</span>;
+    }
+    if (line.startsWith('+')) {
+        return <span className="diff-line diff-add">{line}</span>;
+    }
+    if (line.startsWith('-')) {
+        return <span className="diff-line diff-del">{line}</span>;
+    }
+    return <span className="diff-line diff-ctx">{line}</span>;
+}
+
+export function FileDiffBlock({ diff }: { diff: FileDiff }) {
+    const hunkStart = diff.lines.findIndex((line) => line.startsWith('@@'));
+    const hunkLines = hunkStart === -1 ? [] : diff.lines.slice(hunkStart);
+    const submoduleChange = describeSubmoduleChange(diff);
+
+    if (submoduleChange) {
+        return (
+            <details open>
+                <summary>
+                    <span className="chevron">&#9658;</span>
+                    <span className="file-name">{diff.filePath}</span>
+                    <span className="file-stats">submodule</span>
+                </summary>
+                <pre className="diff-content">
+                    <span className="diff-line diff-ctx">{submoduleChange}</span>
+                </pre>
+            </details>
+        );
+    }
+
+    return (
+        <details open>
+            <summary>
+                <span className="chevron">&#9658;</span>
+                <span className="file-name">{diff.filePath}</span>
+                <span className="file-stats">
+                    {diff.added > 0 && <span className="added">+{diff.added} </span>}
+                    {diff.removed > 0 && <span className="removed">-{diff.removed}</span>}
+                </span>
+            </summary>
+            <pre className="diff-content">
+                {hunkLines.map((line, i) => (
+                    <DiffLine key={i} line={line} />
+                ))}
+            </pre>
+        </details>
+    );
+}
@@ -1,14 +1,43 @@
 import React, { useRef, useEffect } from 'react';
 import { GitCommit } from '../types';
+import { GraphEdge, RowLayout } from './graphLayout';
+
+export const ROW_HEIGHT = 28;
+const LANE_WIDTH = 16;
+export const DOT_Y = ROW_HEIGHT / 2;
+const LANE_COLORS = ['#3d9fd4', '#e5a03a', '#4fb477', '#c9598f', '#8c78e0', '#d9674e', '#3bb6b0', '#b3a33d'];
+
+export function laneX(lane: number): number {
+    return 10 + lane * LANE_WIDTH;
+}
+
+export function laneColor(color: number): string {
+    return LANE_COLORS[color % LANE_COLORS.length];
+}
+
+function edgePath({ fromLane, toLane, half }: GraphEdge): string {
+    const x1 = laneX(fromLane);
+    const x2 = laneX(toLane);
+    const y1 = half === 'top' ? 0 : DOT_Y;
+    const y2 = half === 'top' ? DOT_Y : ROW_HEIGHT;
+    if (x1 === x2) {
+        return `M ${x1} ${y1} L ${x2} ${y2}`;
+    }
+    const midY = (y1 + y2) / 2;
+    return `M ${x1} ${y1} C ${x1} ${midY}, ${x2} ${midY}, ${x2} ${y2}`;
+}
 
 interface Props {
     commit: GitCommit;
+    row: RowLayout;
+    laneCount: number;
     headCommitHash: string | undefined;
+    // Draws the dashed link up to the uncommitted-changes row
+    hasWorkingTreeAbove: boolean;
     isSelected: boolean;
     isEditing: boolean;
-    isFirst: boolean;
-    isLast: boolean;
-    onClick: (shiftKey: boolean) => void;
+    // toggleKey is Ctrl, or Cmd on macOS
+    onClick: (shiftKey: boolean, toggleKey: boolean) => void;
     onContextMenu: (e: React.MouseEvent) => void;
     onEditConfirm: (newMessage: string) => void;
     onEditCancel: () => void;
@@ -19,11 +48,12 @@ function RefBadges({ refs }: { refs: string[] }) {
         return null;
     }
 
+    // Refs are full names, as from `git log --decorate=full`
     const badges = refs.flatMap((ref, i) => {
         if (ref.startsWith('HEAD -> ')) {
             return [
                 <span key={i} className="ref-badge ref-head">
-                    {ref.substring(8)}
+                    {ref.substring(8).replace(/^refs\/heads\//, '')}
                 </span>,
             ];
         }
@@ -37,23 +67,24 @@ function RefBadges({ refs }: { refs: string[] }) {
         if (ref.startsWith('tag: ')) {
             return [
                 <span key={i} className="ref-badge ref-tag">
-                    {ref.substring(5)}
+                    {ref.substring(5).replace(/^refs\/tags\//, '')}
                 </span>,
             ];
         }
-        if (ref.includes('origin/HEAD') || ref.includes('upstream/HEAD')) {
-            return [];
-        }
-        if (ref.includes('origin/') || ref.includes('upstream/')) {
+        if (ref.startsWith('refs/remotes/')) {
+            // A remote's HEAD only points at its default branch, which has a badge of its own
+            if (ref.endsWith('/HEAD')) {
+                return [];
+            }
             return [
                 <span key={i} className="ref-badge ref-remote">
-                    {ref.replace('refs/remotes/', '')}
+                    {ref.substring(13)}
                 </span>,
             ];
         }
         return [
             <span key={i} className="ref-badge ref-branch">
-                {ref.replace('refs/heads/', '')}
+                {ref.replace(/^refs\/heads\//, '')}
             </span>,
         ];
     });
@@ -80,11 +111,12 @@ function RefBadges({ refs }: { refs: string[] }) {
 
 export const CommitRow = React.memo(function CommitRow({
     commit,
+    row,
+    laneCount,
     headCommitHash,
+    hasWorkingTreeAbove,
     isSelected,
     isEditing,
-    isFirst,
-    isLast,
     onClick,
     onContextMenu,
     onEditConfirm,
@@ -92,6 +124,8 @@ export const CommitRow = React.memo(function CommitRow({
 }: Props) {
     const inputRef = useRef<HTMLInputElement>(null);
     const isHead = commit.hash === headCommitHash;
+    const dotX = laneX(row.lane);
+    const dotColor = laneColor(row.color);
 
     useEffect(() => {
         if (isEditing) {
@@ -104,26 +138,39 @@ export const CommitRow = React.memo(function CommitRow({
         <tr
             className={isSelected ? 'row-selected' : undefined}
             data-commit-hash={commit.hash}
-            onClick={(e) => onClick(e.shiftKey)}
+            onClick={(e) => onClick(e.shiftKey, e.ctrlKey || e.metaKey)}
             onContextMenu={onContextMenu}
         >
             <td className="graph-cell">
-                <svg width="20" height="28" style={{ display: 'block' }}>
-                    <line
-                        x1="10"
-                        y1={isFirst ? 14 : 0}
-                        x2="10"
-                        y2={isLast ? 14 : 28}
-                        stroke="#3d9fd4"
-                        strokeWidth="2"
-                    />
+                <svg width={laneX(laneCount - 1) + 10} height={ROW_HEIGHT} style={{ display: 'block' }}>
+                    {row.edges.map((edge, i) => (
+                        <path key={i} d={edgePath(edge)} fill="none" stroke={laneColor(edge.color)} strokeWidth="2" />
+                    ))}
+                    {hasWorkingTreeAbove && (
+                        <line
+                            x1={dotX}
+                            y1={0}
+                            x2={dotX}
+                            y2={DOT_Y}
+                            stroke={dotColor}
+                            strokeWidth="2"
+                            strokeDasharray="3 3"
+                        />
+                    )}
                     {isHead ? (
                         <>
-                            <circle cx="10" cy="14" r="5" fill="none" stroke="#3d9fd4" strokeWidth="2" />
-                            <circle cx="10" cy="14" r="2" fill="#3d9fd4" />
+                            <circle
+                                cx={dotX}
+                                cy={DOT_Y}
+                                r="5"
+                                fill="var(--vscode-editor-background)"
+                                stroke={dotColor}
+                                strokeWidth="2"
+                            />
+                            <circle cx={dotX} cy={DOT_Y} r="2" fill={dotColor} />
                         </>
                     ) : (
-                        <circle cx="10" cy="14" r="5" fill="#3d9fd4" />
+                        <circle cx={dotX} cy={DOT_Y} r="5" fill={dotColor} />
                     )}
                 </svg>
             </td>
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { LogFilters } from '../types';
+import { vscode } from '../vscodeApi';
+
+const NO_FILTERS: LogFilters = {
+    path: '',
+    authors: [],
+    since: '',
+    until: '',
+    firstParent: false,
+    noMerges: false,
+    allRefs: false,
+};
+
+export function countActiveFilters(filters: LogFilters): number {
+    return [
+        filters.path,
+        filters.authors.length > 0,
+        filters.since,
+        filters.until,
+        filters.firstParent,
+        filters.noMerges,
+        filters.allRefs,
+    ].filter(Boolean).length;
+}
+
+function parseAuthors(text: string): string[] {
+    return text
+        .split(',')
+        .map((author) => author.trim())
+        .filter(Boolean);
+}
+
+interface Props {
+    filters: LogFilters;
+}
+
+// Changes are sent to the extension, which saves them for the repository and reloads the graph
+export function FilterBar({ filters }: Props) {
+    // Text fields apply on Enter or when they lose focus, so typing does not reload the graph each keystroke
+    const [path, setPath] = useState(filters.path);
+    const [authors, setAuthors] = useState(filters.authors.join(', '));
+    const [appliedFilters, setAppliedFilters] = useState(filters);
+    if (appliedFilters !== filters) {
+        setAppliedFilters(filters);
+        setPath(filters.path);
+        setAuthors(filters.authors.join(', '));
+    }
+
+    const apply = (changes: Partial<LogFilters>) => {
+        vscode.postMessage({ command: 'setLogFilters', filters: { ...filters, ...changes } });
+    };
+    const applyText = () => {
+        const trimmedPath = path.trim().replace(/^\.?\/+/, '');
+        const parsedAuthors = parseAuthors(authors);
+        if (trimmedPath !== filters.path || parsedAuthors.join(',') !== filters.authors.join(',')) {
+            apply({ path: trimmedPath, authors: parsedAuthors });
+        }
+    };
+    const onTextKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            applyText();
+        } else if (e.key === 'Escape') {
+            setPath(filters.path);
+            setAuthors(filters.authors.join(', '));
+        }
+    };
+
+    return (
+        <div className="filter-bar">
+            <div className="filter-field filter-path">
+                <input
+                    className="search-input"
+                    type="text"
+                    placeholder="File or folder"
+                    title="Only commits that change this file or folder, relative to the repository root"
+                    value={path}
+                    onChange={(e) => setPath(e.target.value)}
+                    onKeyDown={onTextKeyDown}
+                    onBlur={applyText}
+                    autoComplete="off"
+                    spellCheck={false}
+                />
+                <button
+                    className="filter-button"
+                    title="Pick a file or folder"
+                    onClick={() => vscode.postMessage({ command: 'pickFilterPath' })}
+                >
+                    Browse…
+                </button>
+            </div>
+            <input
+                className="search-input filter-field"
+                type="text"
+                placeholder="Authors, comma-separated"
+                title="Only commits by any of these authors, matching part of the name or email"
+                value={authors}
+                onChange={(e) => setAuthors(e.target.value)}
+                onKeyDown={onTextKeyDown}
+                onBlur={applyText}
+                autoComplete="off"
+                spellCheck={false}
+            />
+            <label className="filter-date">
+                Since
+                <input
+                    className="search-input"
+                    type="date"
+                    value={filters.since}
+                    max={filters.until || undefined}
+                    onChange={(e) => apply({ since: e.target.value })}
+                />
+            </label>
+            <label className="filter-date">
+                Until
+                <input
+                    className="search-input"
+                    type="date"
+                    value={filters.until}
+                    min={filters.since || undefined}
+                    onChange={(e) => apply({ until: e.target.value })}
+                />
+            </label>
+            <label className="filter-toggle" title="Follow only the first parent of merges (--first-parent)">
+                <input
+                    type="checkbox"
+                    checked={filters.firstParent}
+                    onChange={(e) => apply({ firstParent: e.target.checked })}
+                />
+                First parent
+            </label>
+            <label className="filter-toggle" title="Hide merge commits (--no-merges)">
+                <input
+                    type="checkbox"
+                    checked={filters.noMerges}
+                    onChange={(e) => apply({ noMerges: e.target.checked })}
+                />
+                No merges
+            </label>
+            <label
+                className="filter-toggle"
+                title="Show every branch and tag instead of only HEAD. A branch picked in the branches view still takes precedence."
+            >
+                <input
+                    type="checkbox"
+                    checked={filters.allRefs}
+                    onChange={(e) => apply({ allRefs: e.target.checked })}
+                />
+                All refs
+            </label>
+            <button
+                className="filter-button"
+                disabled={countActiveFilters(filters) === 0}
+                onClick={() => vscode.postMessage({ command: 'setLogFilters', filters: NO_FILTERS })}
+            >
+                Clear
+            </button>
+        </div>
+    );
+}
@@ -1,7 +1,19 @@
 import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
-import { GitCommit } from '../types';
+import {
+    CommitSearchMode,
+    GitCommit,
+    LogFilters,
+    RepositorySelection,
+    SequencerSession,
+    WorkingTreeStatus,
+} from '../types';
 import { vscode } from '../vscodeApi';
-import { CommitRow } from './CommitRow';
+import { SessionBanner } from '../session/SessionBanner';
+import { RepositorySelector } from '../repository/RepositorySelector';
+import { CommitRow, ROW_HEIGHT } from './CommitRow';
+import { FilterBar, countActiveFilters } from './FilterBar';
+import { GraphLayoutBuilder, linkSubset, type GraphLayout } from './graphLayout';
+import { WorkingTreeRow, hasWorkingTreeChanges } from './WorkingTreeRow';
 
 function areCommitsConsecutive(commits: GitCommit[], sortedIndices: number[]): boolean {
     for (let i = 0; i < sortedIndices.length - 1; i++) {
@@ -14,6 +26,21 @@ function areCommitsConsecutive(commits: GitCommit[], sortedIndices: number[]): b
     return true;
 }
 
+const SEARCH_MODES: { mode: CommitSearchMode; label: string; placeholder: string }[] = [
+    { mode: 'message', label: 'Message', placeholder: 'Search commit messages in all history…' },
+    { mode: 'author', label: 'Author', placeholder: 'Search authors in all history…' },
+    { mode: 'content', label: 'Added/removed text (-S)', placeholder: 'Find commits adding or removing text…' },
+    { mode: 'regex', label: 'Changed lines regex (-G)', placeholder: 'Find commits whose changes match a regex…' },
+    { mode: 'hash', label: 'Hash', placeholder: 'Commit hash, at least 4 characters…' },
+];
+
+// Rows rendered above and below the visible ones, so fast scrolling does not show blank space
+const OVERSCAN_ROWS = 20;
+
+function startsWith(commits: GitCommit[], prefix: GitCommit[]): boolean {
+    return prefix.length <= commits.length && prefix.every((commit, i) => commits[i] === commit);
+}
+
 interface SingleMenu {
     x: number;
     y: number;
@@ -30,19 +57,56 @@ interface RangeMenu {
 interface Props {
     commits: GitCommit[];
     hasMore: boolean;
+    session: SequencerSession | null;
+    workingTree: WorkingTreeStatus | null;
+    filters: LogFilters;
+    repositories: RepositorySelection;
+}
+
+function SpacerRow({ height }: { height: number }) {
+    return (
+        <tr className="spacer-row" aria-hidden="true">
+            <td colSpan={5} style={{ height, padding: 0 }} />
+        </tr>
+    );
 }
 
-export function GraphView({ commits: initialCommits, hasMore: initialHasMore }: Props) {
+export function GraphView({
+    commits: initialCommits,
+    hasMore: initialHasMore,
+    session: initialSession,
+    workingTree: initialWorkingTree,
+    filters: initialFilters,
+    repositories,
+}: Props) {
     const [commits, setCommits] = useState(initialCommits);
     const [hasMore, setHasMore] = useState(initialHasMore);
+    const [session, setSession] = useState(initialSession);
+    const [workingTree, setWorkingTree] = useState(initialWorkingTree);
+    const [filters, setFilters] = useState(initialFilters);
+    const activeFilterCount = countActiveFilters(filters);
+    const [showFilters, setShowFilters] = useState(activeFilterCount > 0);
     const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
+    // 'loaded' filters the commits already in the graph; 'history' asks git to search everything
+    const [searchScope, setSearchScope] = useState<'loaded' | 'history'>('loaded');
+    const [searchMode, setSearchMode] = useState<CommitSearchMode>('message');
+    const [searchResults, setSearchResults] = useState<GitCommit[] | null>(null);
+    const [searchHasMore, setSearchHasMore] = useState(false);
+    const [isSearching, setIsSearching] = useState(false);
+    // Bumped when the graph reloads, so an active history search runs again against the new state
+    const [searchRevision, setSearchRevision] = useState(0);
+    const searchIdRef = useRef(0);
     const [selectedIndices, setSelectedIndices] = useState(new Set<number>());
     const [rangeStartIndex, setRangeStartIndex] = useState<number | null>(null);
     const [singleMenu, setSingleMenu] = useState<SingleMenu | null>(null);
     const [rangeMenu, setRangeMenu] = useState<RangeMenu | null>(null);
+    const [workingTreeMenu, setWorkingTreeMenu] = useState<{ x: number; y: number } | null>(null);
     const [editingHash, setEditingHash] = useState<string | null>(null);
     const sentinelRef = useRef<HTMLDivElement>(null);
+    const tableRef = useRef<HTMLDivElement>(null);
+    const [firstVisibleRow, setFirstVisibleRow] = useState(0);
+    const [visibleRowCount, setVisibleRowCount] = useState(() => Math.ceil(window.innerHeight / ROW_HEIGHT));
 
     useEffect(() => {
         const handler = (event: MessageEvent) => {
@@ -54,23 +118,63 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
             } else if (msg.command === 'replaceCommits') {
                 setCommits(msg.commits);
                 setHasMore(msg.hasMore);
+                setSession(msg.session);
+                setWorkingTree(msg.workingTree);
+                setFilters(msg.filters);
                 setSelectedIndices(new Set());
                 setRangeStartIndex(null);
                 setSingleMenu(null);
                 setRangeMenu(null);
+                setWorkingTreeMenu(null);
+                setSearchRevision((revision) => revision + 1);
+            } else if (msg.command === 'searchResults') {
+                // Pages of a search the user has since changed are dropped
+                if (msg.searchId !== searchIdRef.current) return;
+                if (!msg.append) {
+                    setSelectedIndices(new Set());
+                    setRangeStartIndex(null);
+                }
+                setSearchResults((prev) => (msg.append && prev ? [...prev, ...msg.commits] : msg.commits));
+                setSearchHasMore(msg.hasMore);
+                setIsSearching(false);
             }
         };
         window.addEventListener('message', handler);
         return () => window.removeEventListener('message', handler);
     }, []);
 
+    const isHistorySearch = searchScope === 'history' && searchQuery !== '';
+
+    // Debounced so typing does not start a git log for every keystroke
     useEffect(() => {
-        if (!hasMore || isLoadingMore) return;
+        if (!isHistorySearch) return;
+        const timer = setTimeout(() => {
+            searchIdRef.current++;
+            setIsSearching(true);
+            vscode.postMessage({
+                command: 'searchCommits',
+                searchId: searchIdRef.current,
+                search: { mode: searchMode, query: searchQuery },
+            });
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [isHistorySearch, searchMode, searchQuery, searchRevision]);
+
+    // Filtering loaded commits never loads more; a history search pages through its own results
+    const canLoadMore = isHistorySearch ? searchHasMore && !isSearching : !searchQuery && hasMore && !isLoadingMore;
+    const showLoadingRow = isHistorySearch ? searchHasMore || isSearching : !searchQuery && (hasMore || isLoadingMore);
+
+    useEffect(() => {
+        if (!canLoadMore) return;
         const sentinel = sentinelRef.current;
         if (!sentinel) return;
         const observer = new IntersectionObserver(
             (entries) => {
-                if (entries[0].isIntersecting) {
+                if (!entries[0].isIntersecting) return;
+                if (isHistorySearch) {
+                    setIsSearching(true);
+                    vscode.postMessage({ command: 'loadMoreSearchResults' });
+                } else {
                     setIsLoadingMore(true);
                     vscode.postMessage({ command: 'loadMoreCommits' });
                 }
@@ -79,21 +183,59 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
         );
         observer.observe(sentinel);
         return () => observer.disconnect();
-    }, [hasMore, isLoadingMore]);
+    }, [canLoadMore, isHistorySearch]);
 
     const filteredCommits = useMemo(() => {
+        if (isHistorySearch) {
+            return searchResults ?? [];
+        }
         if (!searchQuery) {
             return commits;
         }
         const q = searchQuery.toLowerCase();
-        return commits.filter(
+        const matches = commits.filter(
             (c) => c.message.toLowerCase().includes(q) || c.shortHash.includes(q) || c.author.toLowerCase().includes(q),
         );
-    }, [commits, searchQuery]);
+        return linkSubset(matches, commits);
+    }, [commits, searchQuery, isHistorySearch, searchResults]);
+
+    // A loaded page only extends the list, so its rows are laid out on top of the previous layout. Any other
+    // change (a search, a reload) starts a new one. Appending changes the builder, so it happens after
+    // rendering, before the browser paints; the render in between shows no rows.
+    const builderRef = useRef({ commits: [] as GitCommit[], builder: new GraphLayoutBuilder() });
+    const [layoutState, setLayoutState] = useState<{ commits: GitCommit[]; layout: GraphLayout } | null>(null);
+    useLayoutEffect(() => {
+        if (!startsWith(filteredCommits, builderRef.current.commits)) {
+            builderRef.current.builder = new GraphLayoutBuilder();
+        }
+        builderRef.current.commits = filteredCommits;
+        const layout = builderRef.current.builder.append(filteredCommits.slice(builderRef.current.builder.rowCount));
+        setLayoutState({ commits: filteredCommits, layout });
+    }, [filteredCommits]);
+    const layout = layoutState?.commits === filteredCommits ? layoutState.layout : null;
 
-    const [prevSearchQuery, setPrevSearchQuery] = useState(searchQuery);
-    if (prevSearchQuery !== searchQuery) {
-        setPrevSearchQuery(searchQuery);
+    // Only the rows in view are rendered; the table keeps its full height through spacer rows so the
+    // scrollbar stays accurate. The page itself scrolls, so track where the table sits in the window.
+    useEffect(() => {
+        const update = () => {
+            const table = tableRef.current;
+            if (!table) return;
+            setFirstVisibleRow(Math.max(0, Math.floor(-table.getBoundingClientRect().top / ROW_HEIGHT)));
+            setVisibleRowCount(Math.ceil(window.innerHeight / ROW_HEIGHT));
+        };
+        update();
+        window.addEventListener('scroll', update, { passive: true });
+        window.addEventListener('resize', update);
+        return () => {
+            window.removeEventListener('scroll', update);
+            window.removeEventListener('resize', update);
+        };
+    }, []);
+
+    const searchKey = `${searchScope}|${searchMode}|${searchQuery}`;
+    const [prevSearchKey, setPrevSearchKey] = useState(searchKey);
+    if (prevSearchKey !== searchKey) {
+        setPrevSearchKey(searchKey);
         setSelectedIndices(new Set());
         setRangeStartIndex(null);
         setSingleMenu(null);
@@ -110,9 +252,18 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
         [commits],
     );
 
+    // The uncommitted-changes row sits directly above HEAD, so it only shows while HEAD is in the list
+    const workingTreeIndex = useMemo(() => {
+        if (searchQuery || !hasWorkingTreeChanges(workingTree)) {
+            return -1;
+        }
+        return filteredCommits.findIndex((c) => c.refs.some((r) => r.startsWith('HEAD -> ') || r === 'HEAD'));
+    }, [filteredCommits, searchQuery, workingTree]);
+
     const closeMenus = useCallback(() => {
         setSingleMenu(null);
         setRangeMenu(null);
+        setWorkingTreeMenu(null);
     }, []);
 
     const ctxMenuRef = useRef<HTMLDivElement>(null);
@@ -127,11 +278,19 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
         if (rect.bottom > window.innerHeight) {
             el.style.top = `${window.innerHeight - rect.height - 4}px`;
         }
-    }, [singleMenu, rangeMenu]);
+    }, [singleMenu, rangeMenu, workingTreeMenu]);
 
     const handleRowClick = useCallback(
-        (index: number, shiftKey: boolean) => {
-            if (shiftKey && rangeStartIndex !== null) {
+        (index: number, shiftKey: boolean, toggleKey: boolean) => {
+            if (toggleKey) {
+                // Ctrl/Cmd-click adds or removes one commit, so any two commits can be compared
+                const next = new Set(selectedIndices);
+                if (!next.delete(index)) {
+                    next.add(index);
+                }
+                setRangeStartIndex(index);
+                setSelectedIndices(next);
+            } else if (shiftKey && rangeStartIndex !== null) {
                 const min = Math.min(rangeStartIndex, index);
                 const max = Math.max(rangeStartIndex, index);
                 const next = new Set<number>();
@@ -145,7 +304,7 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
             }
             closeMenus();
         },
-        [rangeStartIndex, closeMenus],
+        [rangeStartIndex, selectedIndices, closeMenus],
     );
 
     const handleContextMenu = useCallback(
@@ -202,6 +361,22 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
         [rangeMenu, filteredCommits, closeMenus],
     );
 
+    const handleWorkingTreeContextMenu = useCallback((e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setSingleMenu(null);
+        setRangeMenu(null);
+        setWorkingTreeMenu({ x: e.pageX, y: e.pageY });
+    }, []);
+
+    const handleWorkingTreeAction = useCallback(
+        (action: string) => {
+            closeMenus();
+            vscode.postMessage({ command: action });
+        },
+        [closeMenus],
+    );
+
     const handleEditConfirm = useCallback(
         (hash: string, newMessage: string) => {
             setEditingHash(null);
@@ -212,55 +387,136 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
         [commits],
     );
 
+    // The uncommitted-changes row, when shown, takes one row slot above HEAD
+    const rowCount = filteredCommits.length + (workingTreeIndex >= 0 ? 1 : 0);
+    const renderStart = Math.max(0, Math.min(firstVisibleRow, rowCount) - OVERSCAN_ROWS);
+    const renderEnd = layout ? Math.min(rowCount, firstVisibleRow + visibleRowCount + OVERSCAN_ROWS) : renderStart;
+    const visibleRows: React.ReactNode[] = [];
+    if (layout) {
+        for (let slot = renderStart; slot < renderEnd; slot++) {
+            if (slot === workingTreeIndex && hasWorkingTreeChanges(workingTree)) {
+                visibleRows.push(
+                    <WorkingTreeRow
+                        key="working-tree"
+                        status={workingTree}
+                        headRow={layout.rows[workingTreeIndex]}
+                        laneCount={layout.laneCount}
+                        isSelected={workingTreeMenu !== null}
+                        onClick={() => {
+                            closeMenus();
+                            vscode.postMessage({ command: 'showWorkingTreeChanges' });
+                        }}
+                        onContextMenu={handleWorkingTreeContextMenu}
+                    />,
+                );
+                continue;
+            }
+            const index = workingTreeIndex >= 0 && slot > workingTreeIndex ? slot - 1 : slot;
+            const commit = filteredCommits[index];
+            visibleRows.push(
+                <CommitRow
+                    key={commit.hash}
+                    commit={commit}
+                    row={layout.rows[index]}
+                    laneCount={layout.laneCount}
+                    headCommitHash={headCommitHash}
+                    hasWorkingTreeAbove={index === workingTreeIndex}
+                    isSelected={selectedIndices.has(index)}
+                    isEditing={editingHash === commit.hash}
+                    onClick={(shiftKey, toggleKey) => handleRowClick(index, shiftKey, toggleKey)}
+                    onContextMenu={(e) => handleContextMenu(e, index)}
+                    onEditConfirm={(msg) => handleEditConfirm(commit.hash, msg)}
+                    onEditCancel={() => setEditingHash(null)}
+                />,
+            );
+        }
+    }
+
     if (commits.length === 0) {
         return (
-            <div className="no-commits">
-                <p>No commits found in this repository</p>
-            </div>
+            <>
+                <RepositorySelector selection={repositories} />
+                <div className="no-commits">
+                    <p>No commits found in this repository</p>
+                </div>
+            </>
         );
     }
 
     return (
         <div onClick={closeMenus}>
-            <div className="search-wrap">
+            <RepositorySelector selection={repositories} />
+            <SessionBanner session={session} />
+            <div className="search-wrap" onClick={(e) => e.stopPropagation()}>
                 <input
                     className="search-input"
                     type="text"
-                    placeholder="Search commits…"
+                    placeholder={
+                        searchScope === 'history'
+                            ? (SEARCH_MODES.find((m) => m.mode === searchMode) ?? SEARCH_MODES[0]).placeholder
+                            : 'Filter loaded commits…'
+                    }
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     autoComplete="off"
                     spellCheck={false}
-                    onClick={(e) => e.stopPropagation()}
                 />
+                {searchScope === 'history' && (
+                    <select
+                        className="search-mode"
+                        value={searchMode}
+                        onChange={(e) => setSearchMode(e.target.value as CommitSearchMode)}
+                    >
+                        {SEARCH_MODES.map(({ mode, label }) => (
+                            <option key={mode} value={mode}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                )}
+                <button
+                    className={`search-scope${searchScope === 'history' ? ' active' : ''}`}
+                    title={
+                        searchScope === 'history'
+                            ? 'Searching the entire history. Click to filter only the loaded commits.'
+                            : 'Filtering the loaded commits. Click to search the entire history.'
+                    }
+                    onClick={() => setSearchScope(searchScope === 'history' ? 'loaded' : 'history')}
+                >
+                    {searchScope === 'history' ? 'All History' : 'Loaded'}
+                </button>
+                <button
+                    className={`search-scope${activeFilterCount > 0 ? ' active' : ''}`}
+                    title={showFilters ? 'Hide the filter bar' : 'Filter by path, author, date and refs'}
+                    onClick={() => setShowFilters(!showFilters)}
+                >
+                    {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : 'Filters'}
+                </button>
+                {showFilters && <FilterBar filters={filters} />}
             </div>
 
             {filteredCommits.length === 0 ? (
                 <div className="no-commits">
-                    <p>No commits match &ldquo;{searchQuery}&rdquo;</p>
+                    {isHistorySearch && (isSearching || searchResults === null) ? (
+                        <p>Searching the entire history…</p>
+                    ) : searchQuery ? (
+                        <p>No commits match &ldquo;{searchQuery}&rdquo;</p>
+                    ) : activeFilterCount > 0 ? (
+                        <p>No commits match the filters</p>
+                    ) : (
+                        <p>No commits</p>
+                    )}
                 </div>
             ) : (
-                <div className="table-container">
+                <div className="table-container" ref={tableRef}>
                     <table>
                         <tbody>
-                            {filteredCommits.map((commit, index) => (
-                                <CommitRow
-                                    key={commit.hash}
-                                    commit={commit}
-                                    headCommitHash={headCommitHash}
-                                    isSelected={selectedIndices.has(index)}
-                                    isEditing={editingHash === commit.hash}
-                                    isFirst={index === 0}
-                                    isLast={index === filteredCommits.length - 1}
-                                    onClick={(shiftKey) => handleRowClick(index, shiftKey)}
-                                    onContextMenu={(e) => handleContextMenu(e, index)}
-                                    onEditConfirm={(msg) => handleEditConfirm(commit.hash, msg)}
-                                    onEditCancel={() => setEditingHash(null)}
-                                />
-                            ))}
+                            {renderStart > 0 && <SpacerRow height={renderStart * ROW_HEIGHT} />}
+                            {visibleRows}
+                            {renderEnd < rowCount && <SpacerRow height={(rowCount - renderEnd) * ROW_HEIGHT} />}
                         </tbody>
                     </table>
-                    {!searchQuery && (hasMore || isLoadingMore) && (
+                    {showLoadingRow && (
                         <div
                             ref={sentinelRef}
                             style={{
@@ -271,7 +527,7 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
                                 textAlign: 'center',
                             }}
                         >
-                            Loading more commits…
+                            {isHistorySearch ? 'Searching…' : 'Loading more commits…'}
                         </div>
                     )}
                 </div>
@@ -301,6 +557,12 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
                                 Cherry Pick
                             </div>
                         )}
+                        <div className="context-menu-item" onClick={() => handleSingleAction('createTag')}>
+                            Create Tag Here
+                        </div>
+                        <div className="context-menu-item" onClick={() => handleSingleAction('addWorktree')}>
+                            Add Worktree Here…
+                        </div>
                         <div className="context-menu-separator" />
                         <div className="context-menu-item" onClick={() => handleSingleAction('copyHash')}>
                             Copy Hash
@@ -329,6 +591,41 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
                 </>
             )}
 
+            {workingTreeMenu && (
+                <>
+                    <div style={{ position: 'fixed', inset: 0, zIndex: 99 }} onClick={closeMenus} />
+                    <div
+                        ref={ctxMenuRef}
+                        className="context-menu"
+                        style={{ display: 'block', left: workingTreeMenu.x, top: workingTreeMenu.y }}
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div
+                            className="context-menu-item"
+                            onClick={() => handleWorkingTreeAction('openCommitComposer')}
+                        >
+                            Commit…
+                        </div>
+                        <div className="context-menu-item" onClick={() => handleWorkingTreeAction('stashWorkingTree')}>
+                            Stash Changes…
+                        </div>
+                        <div
+                            className="context-menu-item"
+                            onClick={() => handleWorkingTreeAction('showWorkingTreeChanges')}
+                        >
+                            Show Changes
+                        </div>
+                        <div className="context-menu-separator" />
+                        <div
+                            className="context-menu-item context-menu-item--danger"
+                            onClick={() => handleWorkingTreeAction('discardWorkingTree')}
+                        >
+                            Discard All Changes
+                        </div>
+                    </div>
+                </>
+            )}
+
             {rangeMenu && (
                 <>
                     <div style={{ position: 'fixed', inset: 0, zIndex: 99 }} onClick={closeMenus} />
@@ -338,8 +635,22 @@ export function GraphView({ commits: initialCommits, hasMore: initialHasMore }:
                         style={{ display: 'block', left: rangeMenu.x, top: rangeMenu.y }}
                         onClick={(e) => e.stopPropagation()}
                     >
+                        {rangeMenu.sortedIndices.length === 2 && (
+                            <>
+                                <div className="context-menu-item" onClick={() => handleRangeAction('compareCommits')}>
+                                    Compare Commits
+                                </div>
+                                <div className="context-menu-separator" />
+                            </>
+                        )}
                         {isOnHeadBranch && rangeMenu.consecutive && (
                             <>
+                                <div
+                                    className="context-menu-item"
+                                    onClick={() => handleRangeAction('interactiveRebase')}
+                                >
+                                    Interactive Rebase…
+                                </div>
                                 <div className="context-menu-item" onClick={() => handleRangeAction('squashCommits')}>
                                     Squash Commits
                                 </div>
@@ -0,0 +1,91 @@
+import React from 'react';
+import { WorkingTreeStatus } from '../types';
+import { DOT_Y, ROW_HEIGHT, laneColor, laneX } from './CommitRow';
+import { RowLayout } from './graphLayout';
+
+interface Props {
+    status: WorkingTreeStatus;
+    // Layout of the HEAD row this row sits above
+    headRow: RowLayout;
+    laneCount: number;
+    isSelected: boolean;
+    onClick: () => void;
+    onContextMenu: (e: React.MouseEvent) => void;
+}
+
+function formatCounts(status: WorkingTreeStatus): string {
+    const parts = [
+        status.conflicted > 0 && `${status.conflicted} conflicted`,
+        status.staged > 0 && `${status.staged} staged`,
+        status.unstaged > 0 && `${status.unstaged} unstaged`,
+        status.untracked > 0 && `${status.untracked} untracked`,
+    ];
+    return parts.filter(Boolean).join(', ');
+}
+
+export function hasWorkingTreeChanges(status: WorkingTreeStatus | null): status is WorkingTreeStatus {
+    return !!status && status.staged + status.unstaged + status.untracked + status.conflicted > 0;
+}
+
+export const WorkingTreeRow = React.memo(function WorkingTreeRow({
+    status,
+    headRow,
+    laneCount,
+    isSelected,
+    onClick,
+    onContextMenu,
+}: Props) {
+    const dotX = laneX(headRow.lane);
+    const dotColor = laneColor(headRow.color);
+    // Lanes entering the HEAD row from above pass straight through this row
+    const passing = headRow.edges.filter((e) => e.half === 'top');
+
+    return (
+        <tr
+            className={`working-tree-row${isSelected ? ' row-selected' : ''}`}
+            onClick={onClick}
+            onContextMenu={onContextMenu}
+        >
+            <td className="graph-cell">
+                <svg width={laneX(laneCount - 1) + 10} height={ROW_HEIGHT} style={{ display: 'block' }}>
+                    {passing.map((edge, i) => (
+                        <line
+                            key={i}
+                            x1={laneX(edge.fromLane)}
+                            y1={0}
+                            x2={laneX(edge.fromLane)}
+                            y2={ROW_HEIGHT}
+                            stroke={laneColor(edge.color)}
+                            strokeWidth="2"
+                        />
+                    ))}
+                    <line
+                        x1={dotX}
+                        y1={DOT_Y}
+                        x2={dotX}
+                        y2={ROW_HEIGHT}
+                        stroke={dotColor}
+                        strokeWidth="2"
+                        strokeDasharray="3 3"
+                    />
+                    <circle
+                        cx={dotX}
+                        cy={DOT_Y}
+                        r="5"
+                        fill="var(--vscode-editor-background)"
+                        stroke={dotColor}
+                        strokeWidth="2"
+                        strokeDasharray="2 2"
+                    />
+                </svg>
+            </td>
+            <td className="message-cell">
+                <span className="message-text">Uncommitted changes</span>
+                <span className="working-tree-counts">{formatCounts(status)}</span>
+            </td>
+            <td className="hash-cell"></td>
+            <td className="author-cell"></td>
+            <td className="date-cell"></td>
+        </tr>
+    );
+});
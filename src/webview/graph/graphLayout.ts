@@ -0,0 +1,146 @@
+import { GitCommit } from '../types';
+
+export interface GraphEdge {
+    fromLane: number;
+    toLane: number;
+    color: number;
+    // 'top' runs from the row's top border to the commit dot, 'bottom' from the dot to the bottom border
+    half: 'top' | 'bottom';
+}
+
+export interface RowLayout {
+    lane: number;
+    color: number;
+    edges: GraphEdge[];
+}
+
+export interface GraphLayout {
+    rows: RowLayout[];
+    laneCount: number;
+}
+
+interface Lane {
+    hash: string;
+    color: number;
+}
+
+function firstFreeLane(lanes: (Lane | null)[]): number {
+    const idx = lanes.indexOf(null);
+    return idx === -1 ? lanes.length : idx;
+}
+
+// Links the commits the filter over loaded commits leaves through the loaded commits between them, so the
+// layout gets no parents that are never listed: each parent outside the subset is replaced by its nearest
+// ancestors inside it, and dropped when there are none among the loaded commits. Both lists are in
+// child-before-parent order.
+export function linkSubset(subset: GitCommit[], loaded: GitCommit[]): GitCommit[] {
+    const listed = new Set(subset.map((commit) => commit.hash));
+    const nearest = new Map<string, string[]>();
+    const nearestOf = (parents: string[]) => [...new Set(parents.flatMap((parent) => nearest.get(parent) ?? []))];
+    // Parents come after their children, so walking from the end sees every parent first
+    for (let i = loaded.length - 1; i >= 0; i--) {
+        const commit = loaded[i];
+        nearest.set(
+            commit.hash,
+            listed.has(commit.hash) ? [commit.hash] : nearestOf(commit.graphParents ?? commit.parents),
+        );
+    }
+    return subset.map((commit) => ({ ...commit, graphParents: nearestOf(commit.graphParents ?? commit.parents) }));
+}
+
+// Assigns every commit a lane and the edges needed to connect it to its parents.
+// Commits must be in child-before-parent order (as `git log --date-order` returns them).
+// Each lane keeps the colour it was opened with until the branch it tracks ends, and
+// the layout of a row only depends on the rows above it, so appending more history
+// never moves commits that are already on screen.
+//
+// The builder keeps the lanes still open below the last row, so each page of history
+// loaded later is laid out on its own instead of recomputing every row above it.
+export class GraphLayoutBuilder {
+    private readonly lanes: (Lane | null)[] = [];
+    private readonly rows: RowLayout[] = [];
+    private nextColor = 0;
+    private laneCount = 0;
+
+    get rowCount(): number {
+        return this.rows.length;
+    }
+
+    // Lays out commits that follow the ones already appended. The returned layout shares its rows array
+    // with the builder, which keeps growing as more commits are appended.
+    append(commits: GitCommit[]): GraphLayout {
+        for (const commit of commits) {
+            this.rows.push(this.layOutCommit(commit));
+        }
+        return { rows: this.rows, laneCount: this.laneCount };
+    }
+
+    private layOutCommit(commit: GitCommit): RowLayout {
+        const lanes = this.lanes;
+        let lane = lanes.findIndex((l) => l?.hash === commit.hash);
+        let color: number;
+        if (lane === -1) {
+            lane = firstFreeLane(lanes);
+            color = this.nextColor++;
+        } else {
+            color = lanes[lane]!.color;
+        }
+
+        const edges: GraphEdge[] = [];
+
+        // Top half: lanes waiting for this commit converge on it, everything else passes straight through
+        lanes.forEach((l, i) => {
+            if (!l) {
+                return;
+            }
+            if (l.hash === commit.hash) {
+                edges.push({ fromLane: i, toLane: lane, color: l.color, half: 'top' });
+                lanes[i] = null;
+            } else {
+                edges.push({ fromLane: i, toLane: i, color: l.color, half: 'top' });
+            }
+        });
+
+        // Lanes opened or continued by this commit start at its dot rather than passing through
+        const startsHere = new Set<number>();
+        const [firstParent, ...otherParents] = commit.graphParents ?? commit.parents;
+
+        if (firstParent) {
+            const existing = lanes.findIndex((l) => l?.hash === firstParent);
+            if (existing === -1) {
+                lanes[lane] = { hash: firstParent, color };
+                startsHere.add(lane);
+            } else {
+                edges.push({ fromLane: lane, toLane: existing, color, half: 'bottom' });
+            }
+        }
+
+        for (const parent of otherParents) {
+            const existing = lanes.findIndex((l) => l?.hash === parent);
+            if (existing === -1) {
+                const slot = firstFreeLane(lanes);
+                lanes[slot] = { hash: parent, color: this.nextColor++ };
+                startsHere.add(slot);
+            } else {
+                edges.push({ fromLane: lane, toLane: existing, color: lanes[existing]!.color, half: 'bottom' });
+            }
+        }
+
+        lanes.forEach((l, i) => {
+            if (l) {
+                edges.push({ fromLane: startsHere.has(i) ? lane : i, toLane: i, color: l.color, half: 'bottom' });
+            }
+        });
+
+        while (lanes.length > 0 && lanes[lanes.length - 1] === null) {
+            lanes.pop();
+        }
+
+        this.laneCount = Math.max(this.laneCount, lane + 1, ...edges.map((e) => Math.max(e.fromLane, e.toLane) + 1));
+        return { lane, color, edges };
+    }
+}
+
+export function computeGraphLayout(commits: GitCommit[]): GraphLayout {
+    return new GraphLayoutBuilder().append(commits);
+}
@@ -1,16 +1,43 @@
 import { createRoot } from 'react-dom/client';
 import { GraphView } from './graph/GraphView';
 import { CommitDetailsView, CommitDetailsData } from './commitDetails/CommitDetailsView';
-import { BranchPanel, Branch } from './branches/BranchPanel';
-import { GitCommit } from './types';
+import { BranchPanel, Branch, Remote, Stash, Submodule, Tag, Worktree } from './branches/BranchPanel';
+import { RebaseEditor, RebaseEditorData } from './rebase/RebaseEditor';
+import { ConflictView, ConflictViewData } from './conflicts/ConflictView';
+import { CommitComposer, CommitComposerData } from './composer/CommitComposer';
+import { ReflogView, ReflogViewData } from './reflog/ReflogView';
+import { CompareView, CompareViewData } from './compare/CompareView';
+import { GitCommit, LogFilters, RepositorySelection, SequencerSession, WorkingTreeStatus } from './types';
 
 declare global {
     interface Window {
-        __VIEW__: 'graph' | 'commitDetails' | 'branches';
+        __VIEW__:
+            | 'graph'
+            | 'commitDetails'
+            | 'branches'
+            | 'rebaseEditor'
+            | 'conflicts'
+            | 'composer'
+            | 'reflog'
+            | 'compare';
         __COMMITS__: GitCommit[];
         __HAS_MORE__: boolean;
+        __SESSION__: SequencerSession | null;
+        __WORKING_TREE__: WorkingTreeStatus | null;
+        __LOG_FILTERS__: LogFilters;
         __COMMIT_DETAILS__: CommitDetailsData;
         __BRANCHES__: Branch[];
+        __TAGS__: Tag[];
+        __STASHES__: Stash[];
+        __WORKTREES__: Worktree[];
+        __SUBMODULES__: Submodule[];
+        __REMOTES__: Remote[];
+        __REBASE_EDITOR__: RebaseEditorData;
+        __CONFLICTS__: ConflictViewData;
+        __COMPOSER__: CommitComposerData;
+        __REFLOG__: ReflogViewData;
+        __COMPARE__: CompareViewData;
+        __REPOSITORIES__: RepositorySelection;
     }
 }
 
@@ -18,9 +45,39 @@ const root = document.getElementById('root')!;
 const r = createRoot(root);
 
 if (window.__VIEW__ === 'graph') {
-    r.render(<GraphView commits={window.__COMMITS__} hasMore={window.__HAS_MORE__} />);
+    r.render(
+        <GraphView
+            commits={window.__COMMITS__}
+            hasMore={window.__HAS_MORE__}
+            session={window.__SESSION__}
+            workingTree={window.__WORKING_TREE__}
+            filters={window.__LOG_FILTERS__}
+            repositories={window.__REPOSITORIES__}
+        />,
+    );
 } else if (window.__VIEW__ === 'commitDetails') {
     r.render(<CommitDetailsView data={window.__COMMIT_DETAILS__} />);
 } else if (window.__VIEW__ === 'branches') {
-    r.render(<BranchPanel branches={window.__BRANCHES__} />);
+    r.render(
+        <BranchPanel
+            branches={window.__BRANCHES__}
+            tags={window.__TAGS__}
+            stashes={window.__STASHES__}
+            worktrees={window.__WORKTREES__}
+            submodules={window.__SUBMODULES__}
+            remotes={window.__REMOTES__}
+            session={window.__SESSION__}
+            repositories={window.__REPOSITORIES__}
+        />,
+    );
+} else if (window.__VIEW__ === 'rebaseEditor') {
+    r.render(<RebaseEditor data={window.__REBASE_EDITOR__} />);
+} else if (window.__VIEW__ === 'conflicts') {
+    r.render(<ConflictView data={window.__CONFLICTS__} />);
+} else if (window.__VIEW__ === 'composer') {
+    r.render(<CommitComposer data={window.__COMPOSER__} />);
+} else if (window.__VIEW__ === 'reflog') {
+    r.render(<ReflogView data={window.__REFLOG__} />);
+} else if (window.__VIEW__ === 'compare') {
+    r.render(<CompareView data={window.__COMPARE__} />);
 }
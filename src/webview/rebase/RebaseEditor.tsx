@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { RebaseAction, RebaseTodoEntry } from '../types';
+import { vscode } from '../vscodeApi';
+
+const ACTIONS: RebaseAction[] = ['pick', 'reword', 'squash', 'fixup', 'drop'];
+
+export interface RebaseEditorData {
+    parentHash: string;
+    entries: RebaseTodoEntry[];
+}
+
+function TodoRow({
+    entry,
+    isDragging,
+    isDropTarget,
+    onActionChange,
+    onMessageChange,
+    onDragStart,
+    onDragOver,
+    onDrop,
+    onDragEnd,
+}: {
+    entry: RebaseTodoEntry;
+    isDragging: boolean;
+    isDropTarget: boolean;
+    onActionChange: (action: RebaseAction) => void;
+    onMessageChange: (message: string) => void;
+    onDragStart: () => void;
+    onDragOver: (e: React.DragEvent) => void;
+    onDrop: () => void;
+    onDragEnd: () => void;
+}) {
+    return (
+        <div
+            className={`todo-row action-${entry.action}${isDragging ? ' dragging' : ''}${isDropTarget ? ' drop-target' : ''}`}
+            draggable
+            onDragStart={onDragStart}
+            onDragOver={onDragOver}
+            onDrop={onDrop}
+            onDragEnd={onDragEnd}
+        >
+            <span className="drag-handle" title="Drag to reorder">
+                &#8942;&#8942;
+            </span>
+            <select
+                className="todo-action"
+                value={entry.action}
+                onChange={(e) => onActionChange(e.target.value as RebaseAction)}
+            >
+                {ACTIONS.map((action) => (
+                    <option key={action} value={action}>
+                        {action}
+                    </option>
+                ))}
+            </select>
+            <span className="todo-hash">{entry.shortHash}</span>
+            {entry.action === 'reword' ? (
+                <input
+                    className="todo-reword-input"
+                    value={entry.newMessage ?? ''}
+                    onChange={(e) => onMessageChange(e.target.value)}
+                    // Keep text selection working inside a draggable row
+                    onDragStart={(e) => e.preventDefault()}
+                    draggable={false}
+                    spellCheck={false}
+                />
+            ) : (
+                <span className="todo-message" title={entry.message}>
+                    {entry.message}
+                </span>
+            )}
+        </div>
+    );
+}
+
+export function RebaseEditor({ data }: { data: RebaseEditorData }) {
+    const [entries, setEntries] = useState(data.entries);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    const updateEntry = (index: number, patch: Partial<RebaseTodoEntry>) => {
+        setEntries((prev) => prev.map((e, i) => (i === index ? { ...e, ...patch } : e)));
+    };
+
+    const handleDrop = (target: number) => {
+        if (dragIndex !== null && dragIndex !== target) {
+            setEntries((prev) => {
+                const next = [...prev];
+                const [moved] = next.splice(dragIndex, 1);
+                next.splice(target, 0, moved);
+                return next;
+            });
+        }
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+
+    const isUnchanged = entries.every((e, i) => e.action === 'pick' && e.hash === data.entries[i].hash);
+
+    return (
+        <>
+            <p className="title">Interactive Rebase</p>
+            <p className="hint">
+                Commits are applied top to bottom onto <code>{data.parentHash.substring(0, 7)}</code>. Drag rows to
+                reorder them and pick an action for each.
+            </p>
+
+            <div className="todo-list">
+                {entries.map((entry, index) => (
+                    <TodoRow
+                        key={entry.hash}
+                        entry={entry}
+                        isDragging={dragIndex === index}
+                        isDropTarget={dropIndex === index && dragIndex !== index}
+                        onActionChange={(action) =>
+                            updateEntry(index, {
+                                action,
+                                newMessage: action === 'reword' ? (entry.newMessage ?? entry.message) : undefined,
+                            })
+                        }
+                        onMessageChange={(newMessage) => updateEntry(index, { newMessage })}
+                        onDragStart={() => setDragIndex(index)}
+                        onDragOver={(e) => {
+                            e.preventDefault();
+                            setDropIndex(index);
+                        }}
+                        onDrop={() => handleDrop(index)}
+                        onDragEnd={() => {
+                            setDragIndex(null);
+                            setDropIndex(null);
+                        }}
+                    />
+                ))}
+            </div>
+
+            <div className="actions">
+                <button disabled={isUnchanged} onClick={() => vscode.postMessage({ command: 'startRebase', entries })}>
+                    Start Rebase
+                </button>
+                <button className="secondary" onClick={() => vscode.postMessage({ command: 'cancel' })}>
+                    Cancel
+                </button>
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { GitCommit, ReflogEntry } from '../types';
+import { vscode } from '../vscodeApi';
+
+export interface ReflogViewData {
+    refs: string[];
+    selectedRef: string;
+    entries: ReflogEntry[];
+    lostCommits: GitCommit[] | null;
+}
+
+function shortRefName(ref: string): string {
+    return ref.replace(/^refs\/heads\//, '');
+}
+
+function EntryActions({ hash }: { hash: string }) {
+    const post = (command: string) => vscode.postMessage({ command, hash });
+    return (
+        <span className="entry-actions">
+            <button onClick={() => post('showDetails')}>Details</button>
+            <button onClick={() => post('createBranch')}>Create Branch…</button>
+            <button onClick={() => post('resetHere')}>Reset Here…</button>
+        </span>
+    );
+}
+
+function ReflogRow({ entry }: { entry: ReflogEntry }) {
+    return (
+        <div className="entry" title={entry.hash}>
+            <span className="entry-selector">{entry.selector}</span>
+            <span className="entry-hash">{entry.shortHash}</span>
+            <span className="entry-action">{entry.action}</span>
+            <span className="entry-message">{entry.message}</span>
+            <span className="entry-date">{entry.date}</span>
+            <EntryActions hash={entry.hash} />
+        </div>
+    );
+}
+
+function LostCommitRow({ commit }: { commit: GitCommit }) {
+    return (
+        <div className="entry" title={commit.hash}>
+            <span className="entry-hash">{commit.shortHash}</span>
+            <span className="entry-message">{commit.message}</span>
+            <span className="entry-date">
+                {commit.author}, {commit.date}
+            </span>
+            <EntryActions hash={commit.hash} />
+        </div>
+    );
+}
+
+export function ReflogView({ data: initialData }: { data: ReflogViewData }) {
+    const [data, setData] = useState(initialData);
+
+    useEffect(() => {
+        const handler = (event: MessageEvent) => {
+            const msg = event.data;
+            if (msg.command === 'replaceReflog') {
+                setData(msg.data);
+            }
+        };
+        window.addEventListener('message', handler);
+        return () => window.removeEventListener('message', handler);
+    }, []);
+
+    return (
+        <>
+            <div className="toolbar">
+                <select
+                    value={data.selectedRef}
+                    onChange={(e) => vscode.postMessage({ command: 'selectRef', ref: e.target.value })}
+                >
+                    {data.refs.map((ref) => (
+                        <option key={ref} value={ref}>
+                            {shortRefName(ref)}
+                        </option>
+                    ))}
+                </select>
+                <span className="spacer" />
+                <button onClick={() => vscode.postMessage({ command: 'refresh' })}>Refresh</button>
+            </div>
+
+            <div className="section-title">
+                Reflog of {shortRefName(data.selectedRef)} <span className="count">({data.entries.length})</span>
+            </div>
+            {data.entries.length === 0 ? (
+                <p className="no-changes">No reflog entries.</p>
+            ) : (
+                data.entries.map((entry) => <ReflogRow key={entry.selector} entry={entry} />)
+            )}
+
+            <div className="section-title">
+                Lost Commits
+                {data.lostCommits && <span className="count">({data.lostCommits.length})</span>}
+                <button onClick={() => vscode.postMessage({ command: 'scanLostCommits' })}>
+                    {data.lostCommits ? 'Scan Again' : 'Scan'}
+                </button>
+            </div>
+            {data.lostCommits === null ? (
+                <p className="no-changes">
+                    Commits no branch, tag or reflog points to, such as dropped stashes. Scanning runs git fsck.
+                </p>
+            ) : data.lostCommits.length === 0 ? (
+                <p className="no-changes">No lost commits found.</p>
+            ) : (
+                data.lostCommits.map((commit) => <LostCommitRow key={commit.hash} commit={commit} />)
+            )}
+        </>
+    );
+}
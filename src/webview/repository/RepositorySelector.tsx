@@ -0,0 +1,25 @@
+import { RepositorySelection } from '../types';
+import { vscode } from '../vscodeApi';
+
+// Only rendered when the workspace holds more than one repository
+export function RepositorySelector({ selection }: { selection: RepositorySelection }) {
+    if (selection.repositories.length < 2) {
+        return null;
+    }
+
+    return (
+        <div className="repository-selector" onClick={(e) => e.stopPropagation()}>
+            <span>Repository</span>
+            <select
+                value={selection.selected ?? ''}
+                onChange={(e) => vscode.postMessage({ command: 'selectRepository', repository: e.target.value })}
+            >
+                {selection.repositories.map((repo) => (
+                    <option key={repo.root} value={repo.root} title={repo.root}>
+                        {repo.label}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+}
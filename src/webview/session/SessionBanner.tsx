@@ -0,0 +1,45 @@
+import { SequencerSession } from '../types';
+import { vscode } from '../vscodeApi';
+
+export function SessionBanner({ session }: { session: SequencerSession | null }) {
+    if (!session) {
+        return null;
+    }
+
+    const count = session.conflictedFiles.length;
+    const post = (command: string) => vscode.postMessage({ command });
+
+    return (
+        <div className="session-banner" onClick={(e) => e.stopPropagation()}>
+            <span className="session-title">{session.label} in progress</span>
+            <span className="session-files" title={session.conflictedFiles.join('\n')}>
+                {count > 0
+                    ? `${count} conflicted file${count > 1 ? 's' : ''}: ${session.conflictedFiles.join(', ')}`
+                    : 'No conflicts left'}
+            </span>
+            <span className="session-actions">
+                {count > 0 && (
+                    <button className="session-button" onClick={() => post('showConflicts')}>
+                        Resolve…
+                    </button>
+                )}
+                <button
+                    className="session-button session-button--primary"
+                    disabled={count > 0}
+                    title={count > 0 ? 'Resolve and stage all conflicted files first' : undefined}
+                    onClick={() => post('continueOperation')}
+                >
+                    Continue
+                </button>
+                {session.operation !== 'merge' && (
+                    <button className="session-button" onClick={() => post('skipOperation')}>
+                        Skip
+                    </button>
+                )}
+                <button className="session-button" onClick={() => post('abortOperation')}>
+                    Abort
+                </button>
+            </span>
+        </div>
+    );
+}
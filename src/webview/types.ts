@@ -6,5 +6,97 @@ export interface GitCommit {
     date: string;
     author: string;
     parents: string[];
+    // Drawn in the graph instead of parents when set
+    graphParents?: string[];
     refs: string[];
 }
+
+// Must match the CommitSearchMode type in commitSearch.ts
+export type CommitSearchMode = 'message' | 'author' | 'content' | 'regex' | 'hash';
+
+// Must match the LogFilters interface in logFilters.ts
+export interface LogFilters {
+    path: string;
+    authors: string[];
+    since: string;
+    until: string;
+    firstParent: boolean;
+    noMerges: boolean;
+    allRefs: boolean;
+}
+
+// Must match the RebaseTodoEntry interface in rebaseTodo.ts
+export type RebaseAction = 'pick' | 'reword' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoEntry {
+    hash: string;
+    shortHash: string;
+    action: RebaseAction;
+    message: string;
+    newMessage?: string;
+}
+
+// Must match the SequencerSession interface in sequencerSession.ts
+export interface SequencerSession {
+    operation: 'rebase' | 'merge' | 'cherry-pick' | 'revert';
+    // "Rebase", "Cherry-pick", …
+    label: string;
+    conflictedFiles: string[];
+}
+
+// Must match the WorkingTreeStatus interface in gitParser.ts
+export interface WorkingTreeStatus {
+    staged: number;
+    unstaged: number;
+    untracked: number;
+    conflicted: number;
+}
+
+// Must match the conflict types in conflictMarkers.ts and conflictView.ts
+export type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+export type ConflictSegment =
+    | { type: 'common'; lines: string[] }
+    | { type: 'conflict'; ours: string[]; base: string[]; theirs: string[] };
+
+export interface ConflictFile {
+    path: string;
+    kind: 'content' | 'binary' | 'deleted';
+    hasOurs: boolean;
+    hasTheirs: boolean;
+    segments: ConflictSegment[];
+}
+
+// Must match DiffHunk in diffHunks.ts and ComposerFile in commitComposer.ts
+export interface DiffHunk {
+    header: string;
+    lines: string[];
+}
+
+export interface ComposerFile {
+    path: string;
+    hunks: DiffHunk[];
+    binary: boolean;
+    untracked: boolean;
+}
+
+// Must match the ReflogEntry interface in gitParser.ts
+export interface ReflogEntry {
+    hash: string;
+    shortHash: string;
+    selector: string;
+    action: string;
+    message: string;
+    date: string;
+}
+
+// Must match Repository in repositoryDiscovery.ts and RepositorySelection in repositoryManager.ts
+export interface Repository {
+    root: string;
+    label: string;
+}
+
+export interface RepositorySelection {
+    repositories: Repository[];
+    selected: string | null;
+}
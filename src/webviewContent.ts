@@ -1,5 +1,13 @@
 import * as vscode from 'vscode';
-import { GitCommit } from './gitOperations';
+import { GitCommit, WorkingTreeStatus } from './gitOperations';
+import type { RebaseTodoEntry } from './rebaseTodo';
+import type { SequencerSession } from './sequencerSession';
+import type { ConflictViewData } from './conflictView';
+import type { CommitComposerData } from './commitComposer';
+import type { ReflogViewData } from './reflogView';
+import type { CompareViewData } from './compareView';
+import type { RepositorySelection } from './repositoryManager';
+import type { LogFilters } from './logFilters';
 
 export interface CommitDetailsData {
     fullHash: string;
@@ -12,6 +20,133 @@ export interface CommitDetailsData {
     patch: string;
 }
 
+export interface RebaseEditorData {
+    parentHash: string;
+    entries: RebaseTodoEntry[];
+}
+
+// Shared by every view that can show the in-progress rebase/merge/cherry-pick/revert banner
+export const SESSION_BANNER_STYLES = `
+        .session-banner {
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            gap: 6px 10px;
+            padding: 6px 10px;
+            font-size: 12px;
+            background-color: var(--vscode-inputValidation-warningBackground, rgba(204,167,0,0.15));
+            border-bottom: 1px solid var(--vscode-inputValidation-warningBorder, #cca700);
+        }
+        .session-title { font-weight: 600; }
+        .session-files {
+            flex: 1;
+            min-width: 0;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+            color: var(--vscode-descriptionForeground);
+        }
+        .session-actions { display: flex; gap: 4px; }
+        .session-button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            padding: 2px 10px;
+            font-size: 11.5px;
+            font-family: var(--vscode-font-family);
+            cursor: pointer;
+        }
+        .session-button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+        .session-button--primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .session-button--primary:hover { background: var(--vscode-button-hoverBackground); }
+        .session-button:disabled { opacity: 0.5; cursor: default; }`;
+
+// Repository picker at the top of the graph and branch views, shown when the workspace has several repositories
+export const REPOSITORY_SELECTOR_STYLES = `
+        .repository-selector {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 6px 10px 0;
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .repository-selector select {
+            flex: 1;
+            min-width: 0;
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border, transparent);
+            border-radius: 3px;
+            padding: 2px 4px;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+        }`;
+
+// File blocks and diff lines, shared by the commit details and conflict views
+export const DIFF_STYLES = `
+  details {
+    border: 1px solid var(--vscode-panel-border);
+    border-radius: 5px;
+    margin-bottom: 7px;
+    overflow: hidden;
+  }
+  summary {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    padding: 6px 12px;
+    cursor: pointer;
+    font-size: 11.5px;
+    font-family: var(--vscode-editor-font-family);
+    list-style: none;
+    user-select: none;
+    background-color: var(--vscode-sideBar-background, var(--vscode-editor-background));
+    transition: background-color 0.1s ease;
+  }
+  summary:hover { background-color: var(--vscode-list-hoverBackground); }
+  summary::-webkit-details-marker { display: none; }
+  .chevron {
+    font-size: 9px;
+    color: var(--vscode-descriptionForeground);
+    transition: transform 0.15s ease;
+    opacity: 0.6;
+    flex-shrink: 0;
+  }
+  details[open] .chevron { transform: rotate(90deg); }
+  .file-name { flex: 1; }
+  .file-stats { font-size: 11px; white-space: nowrap; font-family: var(--vscode-font-family); }
+  .added { color: var(--vscode-gitDecoration-addedResourceForeground); font-weight: 600; }
+  .removed { color: var(--vscode-gitDecoration-deletedResourceForeground); font-weight: 600; }
+  pre.diff-content {
+    margin: 0;
+    padding: 5px 0;
+    font-family: var(--vscode-editor-font-family);
+    font-size: 11.5px;
+    overflow-x: auto;
+    line-height: 1.65;
+    background-color: var(--vscode-editor-background);
+  }
+  .diff-line { display: block; padding: 0 14px; white-space: pre; }
+  .diff-add {
+    background-color: var(--vscode-diffEditor-insertedLineBackground, rgba(70,150,70,0.12));
+    color: var(--vscode-gitDecoration-addedResourceForeground);
+  }
+  .diff-del {
+    background-color: var(--vscode-diffEditor-removedLineBackground, rgba(150,70,70,0.12));
+    color: var(--vscode-gitDecoration-deletedResourceForeground);
+  }
+  .diff-hunk {
+    color: var(--vscode-gitDecoration-untrackedResourceForeground);
+    font-weight: 600;
+    background-color: var(--vscode-editor-hoverHighlightBackground, rgba(128,128,128,0.06));
+  }
+  .diff-ctx { color: var(--vscode-foreground); opacity: 0.85; }`;
+
 function safeJson(value: unknown): string {
     return JSON.stringify(value).replace(/<\//g, '<\\/');
 }
@@ -29,6 +164,10 @@ export function getHtmlForWebview(
     webview: vscode.Webview,
     commits: GitCommit[],
     hasMore: boolean,
+    session: SequencerSession | null,
+    workingTree: WorkingTreeStatus | null,
+    filters: LogFilters,
+    repositories: RepositorySelection,
     extensionUri: vscode.Uri,
 ): string {
     const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'index.js'));
@@ -56,6 +195,7 @@ export function getHtmlForWebview(
         td { padding: 3px 6px; vertical-align: middle; }
         tbody tr:hover { background-color: var(--vscode-list-hoverBackground); }
         tbody tr { cursor: pointer; }
+        tbody tr.spacer-row, tbody tr.spacer-row:hover { cursor: default; background-color: transparent; }
         .graph-cell { padding: 0; width: 1px; vertical-align: middle; }
         .graph-canvas { display: block; }
         .hash-cell {
@@ -140,9 +280,13 @@ export function getHtmlForWebview(
             top: 0;
             background: var(--vscode-editor-background);
             z-index: 10;
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
         }
         .search-input {
-            width: 100%;
+            flex: 1;
+            min-width: 0;
             background: var(--vscode-input-background);
             color: var(--vscode-input-foreground);
             border: 1px solid var(--vscode-input-border, rgba(128,128,128,0.25));
@@ -156,6 +300,58 @@ export function getHtmlForWebview(
         }
         .search-input:focus { border-color: var(--vscode-focusBorder); }
         .search-input::placeholder { color: var(--vscode-input-placeholderForeground, rgba(128,128,128,0.45)); }
+        .search-mode {
+            max-width: 40%;
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border, transparent);
+            border-radius: 4px;
+            font-family: var(--vscode-font-family);
+            font-size: 12px;
+        }
+        .search-scope {
+            flex-shrink: 0;
+            background: transparent;
+            color: var(--vscode-descriptionForeground);
+            border: 1px solid var(--vscode-input-border, rgba(128,128,128,0.25));
+            border-radius: 4px;
+            padding: 0 8px;
+            font-family: var(--vscode-font-family);
+            font-size: 11px;
+            cursor: pointer;
+        }
+        .search-scope:hover { color: var(--vscode-foreground); }
+        .search-scope.active {
+            background: var(--vscode-button-background);
+            border-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        .filter-bar {
+            flex-basis: 100%;
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 6px 10px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .filter-field { flex: 1 1 180px; min-width: 0; }
+        .filter-path { display: flex; gap: 4px; }
+        .filter-date, .filter-toggle { display: flex; align-items: center; gap: 4px; white-space: nowrap; cursor: pointer; }
+        .filter-date .search-input { flex: none; padding: 3px 6px; }
+        .filter-button {
+            flex-shrink: 0;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 4px;
+            padding: 4px 8px;
+            font-family: var(--vscode-font-family);
+            font-size: 11px;
+            cursor: pointer;
+        }
+        .filter-button:hover:not(:disabled) { background: var(--vscode-button-secondaryHoverBackground); }
+        .filter-button:disabled { opacity: 0.5; cursor: default; }
         .context-menu {
             position: fixed;
             background-color: var(--vscode-menu-background);
@@ -203,16 +399,20 @@ export function getHtmlForWebview(
             outline: none;
             padding: 0;
         }
+        .working-tree-row .message-text { font-style: italic; color: var(--vscode-descriptionForeground); }
+        .working-tree-counts { font-size: 11px; color: var(--vscode-descriptionForeground); opacity: 0.8; white-space: nowrap; }
         tr.row-selected {
             background-color: var(--vscode-list-inactiveSelectionBackground);
             box-shadow: inset 3px 0 0 var(--vscode-focusBorder);
         }
         tr.row-selected:hover { background-color: var(--vscode-list-activeSelectionBackground); }
+${SESSION_BANNER_STYLES}
+${REPOSITORY_SELECTOR_STYLES}
     </style>
 </head>
 <body>
     <div id="root"></div>
-    <script nonce="${nonce}">window.__VIEW__ = 'graph'; window.__COMMITS__ = ${safeJson(commits)}; window.__HAS_MORE__ = ${hasMore};</script>
+    <script nonce="${nonce}">window.__VIEW__ = 'graph'; window.__COMMITS__ = ${safeJson(commits)}; window.__HAS_MORE__ = ${hasMore}; window.__SESSION__ = ${safeJson(session)}; window.__WORKING_TREE__ = ${safeJson(workingTree)}; window.__LOG_FILTERS__ = ${safeJson(filters)}; window.__REPOSITORIES__ = ${safeJson(repositories)};</script>
     <script nonce="${nonce}" src="${scriptUri}"></script>
 </body>
 </html>`;
@@ -292,63 +492,7 @@ export function getCommitDetailsHtml(
     margin-bottom: 10px;
     opacity: 0.7;
   }
-  details {
-    border: 1px solid var(--vscode-panel-border);
-    border-radius: 5px;
-    margin-bottom: 7px;
-    overflow: hidden;
-  }
-  summary {
-    display: flex;
-    align-items: center;
-    gap: 8px;
-    padding: 6px 12px;
-    cursor: pointer;
-    font-size: 11.5px;
-    font-family: var(--vscode-editor-font-family);
-    list-style: none;
-    user-select: none;
-    background-color: var(--vscode-sideBar-background, var(--vscode-editor-background));
-    transition: background-color 0.1s ease;
-  }
-  summary:hover { background-color: var(--vscode-list-hoverBackground); }
-  summary::-webkit-details-marker { display: none; }
-  .chevron {
-    font-size: 9px;
-    color: var(--vscode-descriptionForeground);
-    transition: transform 0.15s ease;
-    opacity: 0.6;
-    flex-shrink: 0;
-  }
-  details[open] .chevron { transform: rotate(90deg); }
-  .file-name { flex: 1; }
-  .file-stats { font-size: 11px; white-space: nowrap; font-family: var(--vscode-font-family); }
-  .added { color: var(--vscode-gitDecoration-addedResourceForeground); font-weight: 600; }
-  .removed { color: var(--vscode-gitDecoration-deletedResourceForeground); font-weight: 600; }
-  pre.diff-content {
-    margin: 0;
-    padding: 5px 0;
-    font-family: var(--vscode-editor-font-family);
-    font-size: 11.5px;
-    overflow-x: auto;
-    line-height: 1.65;
-    background-color: var(--vscode-editor-background);
-  }
-  .diff-line { display: block; padding: 0 14px; white-space: pre; }
-  .diff-add {
-    background-color: var(--vscode-diffEditor-insertedLineBackground, rgba(70,150,70,0.12));
-    color: var(--vscode-gitDecoration-addedResourceForeground);
-  }
-  .diff-del {
-    background-color: var(--vscode-diffEditor-removedLineBackground, rgba(150,70,70,0.12));
-    color: var(--vscode-gitDecoration-deletedResourceForeground);
-  }
-  .diff-hunk {
-    color: var(--vscode-gitDecoration-untrackedResourceForeground);
-    font-weight: 600;
-    background-color: var(--vscode-editor-hoverHighlightBackground, rgba(128,128,128,0.06));
-  }
-  .diff-ctx { color: var(--vscode-foreground); opacity: 0.85; }
+${DIFF_STYLES}
   .no-changes { color: var(--vscode-descriptionForeground); font-size: 12px; padding: 10px 0; }
   .copyable {
     cursor: pointer;
@@ -383,3 +527,471 @@ export function getCommitDetailsHtml(
 </body>
 </html>`;
 }
+
+export function getRebaseEditorHtml(webview: vscode.Webview, data: RebaseEditorData, extensionUri: vscode.Uri): string {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'index.js'));
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline';">
+<title>Interactive Rebase</title>
+<style>
+  * { box-sizing: border-box; }
+  body {
+    font-family: var(--vscode-font-family);
+    font-size: 12.5px;
+    color: var(--vscode-foreground);
+    background-color: var(--vscode-editor-background);
+    margin: 0;
+    padding: 20px 24px;
+    line-height: 1.5;
+    -webkit-font-smoothing: antialiased;
+  }
+  .title { font-size: 15px; font-weight: 600; margin: 0 0 4px; }
+  .hint { color: var(--vscode-descriptionForeground); font-size: 12px; margin: 0 0 16px; }
+  .hint code { font-family: var(--vscode-editor-font-family); font-size: 11px; }
+  .todo-list { border: 1px solid var(--vscode-panel-border); border-radius: 5px; overflow: hidden; margin-bottom: 16px; }
+  .todo-row {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+    padding: 5px 10px;
+    min-height: 34px;
+    border-bottom: 1px solid var(--vscode-panel-border);
+    background-color: var(--vscode-sideBar-background, var(--vscode-editor-background));
+    transition: background-color 0.08s ease;
+  }
+  .todo-row:last-child { border-bottom: none; }
+  .todo-row.dragging { opacity: 0.4; }
+  .todo-row.drop-target { box-shadow: inset 0 2px 0 var(--vscode-focusBorder); }
+  .todo-row.action-drop .todo-message { text-decoration: line-through; opacity: 0.5; }
+  .todo-row.action-squash, .todo-row.action-fixup { padding-left: 28px; }
+  .drag-handle { cursor: grab; opacity: 0.45; user-select: none; font-size: 14px; line-height: 1; }
+  .drag-handle:hover { opacity: 0.9; }
+  .todo-action {
+    background: var(--vscode-dropdown-background);
+    color: var(--vscode-dropdown-foreground);
+    border: 1px solid var(--vscode-dropdown-border, var(--vscode-panel-border));
+    border-radius: 3px;
+    padding: 2px 4px;
+    font-size: 12px;
+    font-family: var(--vscode-font-family);
+    width: 80px;
+  }
+  .todo-hash {
+    font-family: var(--vscode-editor-font-family);
+    font-size: 11px;
+    color: var(--vscode-textPreformat-foreground);
+    font-variant-numeric: tabular-nums;
+    opacity: 0.8;
+  }
+  .todo-message { flex: 1; min-width: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .todo-reword-input {
+    flex: 1;
+    min-width: 0;
+    background: var(--vscode-input-background);
+    color: var(--vscode-input-foreground);
+    border: 1px solid var(--vscode-input-border, rgba(128,128,128,0.25));
+    border-radius: 3px;
+    padding: 3px 6px;
+    font: inherit;
+    outline: none;
+  }
+  .todo-reword-input:focus { border-color: var(--vscode-focusBorder); }
+  .actions { display: flex; gap: 8px; }
+  button {
+    background: var(--vscode-button-background);
+    color: var(--vscode-button-foreground);
+    border: none;
+    border-radius: 3px;
+    padding: 5px 14px;
+    font-size: 12.5px;
+    font-family: var(--vscode-font-family);
+    cursor: pointer;
+  }
+  button:hover { background: var(--vscode-button-hoverBackground); }
+  button.secondary {
+    background: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+  }
+  button.secondary:hover { background: var(--vscode-button-secondaryHoverBackground); }
+  button:disabled { opacity: 0.5; cursor: default; }
+</style>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}">window.__VIEW__ = 'rebaseEditor'; window.__REBASE_EDITOR__ = ${safeJson(data)};</script>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+}
+
+export function getConflictViewHtml(webview: vscode.Webview, data: ConflictViewData, extensionUri: vscode.Uri): string {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'index.js'));
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline';">
+<title>Resolve Conflicts</title>
+<style>
+  * { box-sizing: border-box; }
+  body {
+    font-family: var(--vscode-font-family);
+    font-size: 12.5px;
+    color: var(--vscode-foreground);
+    background-color: var(--vscode-editor-background);
+    margin: 0;
+    padding: 20px 24px;
+    line-height: 1.5;
+    -webkit-font-smoothing: antialiased;
+  }
+  .title { font-size: 15px; font-weight: 600; margin: 0 0 4px; }
+  .hint { color: var(--vscode-descriptionForeground); font-size: 12px; margin: 0 0 16px; }
+${DIFF_STYLES}
+  .file-actions { display: flex; gap: 4px; font-family: var(--vscode-font-family); }
+  .conflict-hunk { border-top: 1px solid var(--vscode-panel-border); border-bottom: 1px solid var(--vscode-panel-border); }
+  .hunk-toolbar {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 4px 14px;
+    font-size: 11px;
+    background-color: var(--vscode-editor-hoverHighlightBackground, rgba(128,128,128,0.06));
+  }
+  .hunk-label { flex: 1; color: var(--vscode-descriptionForeground); font-weight: 600; }
+  .hunk-columns { display: grid; grid-template-columns: 1fr 1fr 1fr; }
+  .hunk-column { min-width: 0; border-right: 1px solid var(--vscode-panel-border); }
+  .hunk-column:last-child { border-right: none; }
+  .hunk-column.chosen { box-shadow: inset 0 0 0 1px var(--vscode-focusBorder); }
+  .column-label {
+    padding: 2px 14px;
+    font-size: 10px;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.07em;
+    color: var(--vscode-descriptionForeground);
+    opacity: 0.7;
+  }
+  .diff-collapsed { color: var(--vscode-descriptionForeground); font-style: italic; opacity: 0.6; }
+  .resolved-file { color: var(--vscode-descriptionForeground); font-size: 12px; padding: 8px 14px; }
+  button {
+    background: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+    border: none;
+    border-radius: 3px;
+    padding: 2px 10px;
+    font-size: 11.5px;
+    font-family: var(--vscode-font-family);
+    cursor: pointer;
+  }
+  button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+  button.primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+  button.primary:hover { background: var(--vscode-button-hoverBackground); }
+  button.active { box-shadow: inset 0 0 0 1px var(--vscode-focusBorder); }
+  button:disabled { opacity: 0.5; cursor: default; }
+  .no-changes { color: var(--vscode-descriptionForeground); font-size: 12px; padding: 10px 0; }
+</style>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}">window.__VIEW__ = 'conflicts'; window.__CONFLICTS__ = ${safeJson(data)};</script>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+}
+
+export function getCommitComposerHtml(
+    webview: vscode.Webview,
+    data: CommitComposerData,
+    extensionUri: vscode.Uri,
+): string {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'index.js'));
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline';">
+<title>Commit</title>
+<style>
+  * { box-sizing: border-box; }
+  body {
+    font-family: var(--vscode-font-family);
+    font-size: 12.5px;
+    color: var(--vscode-foreground);
+    background-color: var(--vscode-editor-background);
+    margin: 0;
+    padding: 20px 24px;
+    line-height: 1.5;
+    -webkit-font-smoothing: antialiased;
+  }
+  .message-form { display: flex; flex-direction: column; gap: 6px; margin-bottom: 18px; max-width: 720px; }
+  .message-form input[type="text"], .message-form textarea {
+    background: var(--vscode-input-background);
+    color: var(--vscode-input-foreground);
+    border: 1px solid var(--vscode-input-border, transparent);
+    border-radius: 3px;
+    padding: 5px 8px;
+    font-family: var(--vscode-font-family);
+    font-size: 12.5px;
+    outline: none;
+  }
+  .message-form input[type="text"]:focus, .message-form textarea:focus { border-color: var(--vscode-focusBorder); }
+  .message-form textarea { min-height: 80px; resize: vertical; font-family: var(--vscode-editor-font-family); }
+  .form-row { display: flex; align-items: center; gap: 14px; font-size: 12px; }
+  .form-row label { display: flex; align-items: center; gap: 4px; cursor: pointer; }
+  .form-row .spacer { flex: 1; }
+  .section-title {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-size: 10.5px;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.07em;
+    color: var(--vscode-descriptionForeground);
+    margin: 16px 0 8px;
+  }
+  .section-title .count { font-weight: 400; opacity: 0.8; }
+  .section-title button { text-transform: none; letter-spacing: 0; }
+${DIFF_STYLES}
+  .file-actions { display: flex; gap: 4px; font-family: var(--vscode-font-family); }
+  .hunk { border-top: 1px solid var(--vscode-panel-border); }
+  .hunk-toolbar {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    padding: 2px 14px;
+    font-size: 11px;
+    font-family: var(--vscode-editor-font-family);
+    background-color: var(--vscode-editor-hoverHighlightBackground, rgba(128,128,128,0.06));
+  }
+  .hunk-label { flex: 1; color: var(--vscode-textLink-foreground); opacity: 0.8; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .file-note { color: var(--vscode-descriptionForeground); font-size: 12px; padding: 8px 14px; }
+  button {
+    background: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+    border: none;
+    border-radius: 3px;
+    padding: 2px 10px;
+    font-size: 11.5px;
+    font-family: var(--vscode-font-family);
+    cursor: pointer;
+  }
+  button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+  button.primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); padding: 4px 14px; }
+  button.primary:hover { background: var(--vscode-button-hoverBackground); }
+  button:disabled { opacity: 0.5; cursor: default; }
+  .no-changes { color: var(--vscode-descriptionForeground); font-size: 12px; padding: 4px 0; }
+</style>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}">window.__VIEW__ = 'composer'; window.__COMPOSER__ = ${safeJson(data)};</script>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+}
+
+export function getReflogViewHtml(webview: vscode.Webview, data: ReflogViewData, extensionUri: vscode.Uri): string {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'index.js'));
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline';">
+<title>Reflog</title>
+<style>
+  * { box-sizing: border-box; }
+  body {
+    font-family: var(--vscode-font-family);
+    font-size: 12.5px;
+    color: var(--vscode-foreground);
+    background-color: var(--vscode-editor-background);
+    margin: 0;
+    padding: 20px 24px;
+    line-height: 1.5;
+    -webkit-font-smoothing: antialiased;
+  }
+  .toolbar { display: flex; align-items: center; gap: 8px; margin-bottom: 4px; }
+  .toolbar .spacer { flex: 1; }
+  select {
+    background: var(--vscode-dropdown-background);
+    color: var(--vscode-dropdown-foreground);
+    border: 1px solid var(--vscode-dropdown-border, transparent);
+    border-radius: 3px;
+    padding: 2px 6px;
+    font-family: var(--vscode-font-family);
+    font-size: 12px;
+  }
+  .section-title {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-size: 10.5px;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.07em;
+    color: var(--vscode-descriptionForeground);
+    margin: 16px 0 8px;
+  }
+  .section-title .count { font-weight: 400; opacity: 0.8; }
+  .section-title button { text-transform: none; letter-spacing: 0; }
+  .entry {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+    padding: 3px 8px;
+    border-radius: 3px;
+    white-space: nowrap;
+  }
+  .entry:hover { background-color: var(--vscode-list-hoverBackground); }
+  .entry-selector, .entry-hash {
+    font-family: var(--vscode-editor-font-family);
+    font-size: 11.5px;
+    color: var(--vscode-descriptionForeground);
+    flex-shrink: 0;
+  }
+  .entry-selector { width: 90px; overflow: hidden; text-overflow: ellipsis; }
+  .entry-hash { color: var(--vscode-textLink-foreground); }
+  .entry-action {
+    flex-shrink: 0;
+    font-size: 10.5px;
+    padding: 0 6px;
+    border-radius: 8px;
+    background-color: var(--vscode-badge-background);
+    color: var(--vscode-badge-foreground);
+  }
+  .entry-message { flex: 1; min-width: 0; overflow: hidden; text-overflow: ellipsis; }
+  .entry-date { flex-shrink: 0; font-size: 11px; color: var(--vscode-descriptionForeground); }
+  .entry-actions { display: flex; gap: 4px; flex-shrink: 0; visibility: hidden; }
+  .entry:hover .entry-actions { visibility: visible; }
+  button {
+    background: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+    border: none;
+    border-radius: 3px;
+    padding: 2px 10px;
+    font-size: 11.5px;
+    font-family: var(--vscode-font-family);
+    cursor: pointer;
+  }
+  button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+  .no-changes { color: var(--vscode-descriptionForeground); font-size: 12px; padding: 4px 0; }
+</style>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}">window.__VIEW__ = 'reflog'; window.__REFLOG__ = ${safeJson(data)};</script>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+}
+
+export function getCompareViewHtml(webview: vscode.Webview, data: CompareViewData, extensionUri: vscode.Uri): string {
+    const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'out', 'webview', 'index.js'));
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'unsafe-inline';">
+<title>Compare</title>
+<style>
+  * { box-sizing: border-box; }
+  body {
+    font-family: var(--vscode-font-family);
+    font-size: 12.5px;
+    color: var(--vscode-foreground);
+    background-color: var(--vscode-editor-background);
+    margin: 0;
+    padding: 20px 24px;
+    line-height: 1.5;
+    -webkit-font-smoothing: antialiased;
+  }
+  .toolbar { display: flex; align-items: center; gap: 8px; margin-bottom: 4px; }
+  .toolbar .spacer { flex: 1; }
+  .compare-title { font-size: 15px; font-weight: 600; }
+  .compare-ref {
+    font-family: var(--vscode-editor-font-family);
+    color: var(--vscode-textLink-foreground);
+  }
+  .merge-base { color: var(--vscode-descriptionForeground); font-size: 12px; margin: 2px 0 0; }
+  .merge-base[title] { cursor: pointer; }
+  select {
+    background: var(--vscode-dropdown-background);
+    color: var(--vscode-dropdown-foreground);
+    border: 1px solid var(--vscode-dropdown-border, transparent);
+    border-radius: 3px;
+    padding: 2px 6px;
+    font-family: var(--vscode-font-family);
+    font-size: 12px;
+  }
+  .section-title {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-size: 10.5px;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.07em;
+    color: var(--vscode-descriptionForeground);
+    margin: 16px 0 8px;
+  }
+  .section-title .count { font-weight: 400; opacity: 0.8; }
+  .section-title select { text-transform: none; letter-spacing: 0; font-weight: 400; }
+  .entry {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+    padding: 3px 8px;
+    border-radius: 3px;
+    white-space: nowrap;
+    cursor: pointer;
+  }
+  .entry:hover { background-color: var(--vscode-list-hoverBackground); }
+  .entry-hash {
+    font-family: var(--vscode-editor-font-family);
+    font-size: 11.5px;
+    color: var(--vscode-textLink-foreground);
+    flex-shrink: 0;
+  }
+  .entry-message { flex: 1; min-width: 0; overflow: hidden; text-overflow: ellipsis; }
+  .entry-date { flex-shrink: 0; font-size: 11px; color: var(--vscode-descriptionForeground); }
+  button {
+    background: var(--vscode-button-secondaryBackground);
+    color: var(--vscode-button-secondaryForeground);
+    border: none;
+    border-radius: 3px;
+    padding: 2px 10px;
+    font-size: 11.5px;
+    font-family: var(--vscode-font-family);
+    cursor: pointer;
+  }
+  button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+${DIFF_STYLES}
+  .no-changes { color: var(--vscode-descriptionForeground); font-size: 12px; padding: 4px 0; }
+</style>
+</head>
+<body>
+    <div id="root"></div>
+    <script nonce="${nonce}">window.__VIEW__ = 'compare'; window.__COMPARE__ = ${safeJson(data)};</script>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+}
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { parseWorktreeList, type WorktreeEntry } from './gitParser';
+import { GitError, getErrorMessage, runGit } from './gitRunner';
+import { showGitError } from './gitLog';
+import type { RepositoryManager } from './repositoryManager';
+
+export function isSamePath(a: string, b: string): boolean {
+    return path.normalize(a) === path.normalize(b);
+}
+
+export async function getWorktrees(cwd: string): Promise<WorktreeEntry[]> {
+    try {
+        const { stdout } = await runGit(cwd, ['worktree', 'list', '--porcelain']);
+        return parseWorktreeList(stdout);
+    } catch {
+        return [];
+    }
+}
+
+// The other worktree a local branch is checked out in, if any. Git refuses to check out or delete such a
+// branch, so callers warn up front instead of surfacing git's error.
+export async function findWorktreeForBranch(cwd: string, branch: string): Promise<WorktreeEntry | undefined> {
+    const worktrees = await getWorktrees(cwd);
+    return worktrees.find((worktree) => worktree.branch === branch && !isSamePath(worktree.path, cwd));
+}
+
+export class WorktreeOperations {
+    constructor(
+        private readonly onRefresh: () => void,
+        private readonly repositories: RepositoryManager,
+    ) {}
+
+    private getCwd(): string | null {
+        return this.repositories.selected;
+    }
+
+    // ref is a local branch name, or any commit-ish (commit hash, tag, remote branch) to check out detached
+    async addWorktree(ref?: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        const localBranches = await runGit(cwd, ['for-each-ref', '--format=%(refname:short)', 'refs/heads']).then(
+            ({ stdout }) => stdout.split('\n').filter(Boolean),
+            () => [] as string[],
+        );
+
+        if (!ref) {
+            const pick = await vscode.window.showQuickPick(
+                [
+                    ...localBranches.map((branch) => ({ label: branch, ref: branch as string | undefined })),
+                    { label: 'Commit, tag or remote branch…', ref: undefined },
+                ],
+                { placeHolder: 'Check out which branch in the new worktree?' },
+            );
+            if (!pick) {
+                return;
+            }
+            ref =
+                pick.ref ?? (await vscode.window.showInputBox({ prompt: 'Commit, tag or remote branch to check out' }));
+            if (!ref) {
+                return;
+            }
+        }
+
+        const isLocalBranch = localBranches.includes(ref);
+        if (isLocalBranch) {
+            const existing = await findWorktreeForBranch(cwd, ref);
+            const current = (await getWorktrees(cwd)).find((w) => isSamePath(w.path, cwd));
+            if (existing || current?.branch === ref) {
+                vscode.window.showWarningMessage(
+                    `'${ref}' is already checked out in ${existing ? existing.path : 'this worktree'}.`,
+                );
+                return;
+            }
+        }
+
+        const suffix = (isLocalBranch ? ref : ref.substring(0, 12)).replace(/[\\/:*?"<>|\s]+/g, '-');
+        const worktreePath = await vscode.window.showInputBox({
+            prompt: `Folder for the new worktree of ${isLocalBranch ? `'${ref}'` : ref.substring(0, 12)}`,
+            value: path.join(path.dirname(cwd), `${path.basename(cwd)}-${suffix}`),
+            validateInput: (value) => (value.trim() ? null : 'Folder cannot be empty'),
+        });
+        if (!worktreePath) {
+            return;
+        }
+
+        const args = isLocalBranch
+            ? ['worktree', 'add', worktreePath.trim(), ref]
+            : ['worktree', 'add', '--detach', worktreePath.trim(), ref];
+        try {
+            await runGit(cwd, args);
+        } catch (error) {
+            showGitError(`Failed to add worktree: ${getErrorMessage(error)}`);
+            return;
+        }
+        this.onRefresh();
+
+        const choice = await vscode.window.showInformationMessage(
+            `Created worktree at ${worktreePath.trim()}`,
+            'Open in New Window',
+        );
+        if (choice === 'Open in New Window') {
+            await this.openWorktree(worktreePath.trim());
+        }
+    }
+
+    async removeWorktree(worktreePath: string) {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+        if (isSamePath(worktreePath, cwd)) {
+            vscode.window.showWarningMessage('The worktree open in this window cannot be removed from here.');
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Remove worktree ${worktreePath}? Its folder will be deleted; the branch is kept.`,
+            'Remove',
+            'Cancel',
+        );
+        if (confirm !== 'Remove') {
+            return;
+        }
+
+        try {
+            await runGit(cwd, ['worktree', 'remove', worktreePath]);
+        } catch (error) {
+            // Refused because of local changes ("use --force") or a lock ("use 'remove -f -f'"); a double
+            // --force overrides both
+            if (!(error instanceof GitError && /--force|-f -f/.test(error.stderr))) {
+                showGitError(`Failed to remove worktree: ${getErrorMessage(error)}`);
+                return;
+            }
+            const force = await vscode.window.showWarningMessage(
+                `${getErrorMessage(error)}\n\nRemove it anyway? Uncommitted changes in it will be lost.`,
+                'Force Remove',
+                'Cancel',
+            );
+            if (force !== 'Force Remove') {
+                return;
+            }
+            try {
+                await runGit(cwd, ['worktree', 'remove', '--force', '--force', worktreePath]);
+            } catch (forceError) {
+                showGitError(`Failed to remove worktree: ${getErrorMessage(forceError)}`);
+                return;
+            }
+        }
+        vscode.window.showInformationMessage(`Removed worktree ${worktreePath}`);
+        this.onRefresh();
+    }
+
+    async pruneWorktrees() {
+        const cwd = this.getCwd();
+        if (!cwd) {
+            return;
+        }
+
+        let stderr: string;
+        try {
+            ({ stderr } = await runGit(cwd, ['worktree', 'prune', '--verbose']));
+        } catch (error) {
+            showGitError(`Failed to prune worktrees: ${getErrorMessage(error)}`);
+            return;
+        }
+        const pruned = stderr.split('\n').filter((line) => line.startsWith('Removing')).length;
+        vscode.window.showInformationMessage(
+            pruned > 0 ? `Pruned ${pruned} stale worktree${pruned > 1 ? 's' : ''}` : 'No stale worktrees to prune',
+        );
+        this.onRefresh();
+    }
+
+    async openWorktree(worktreePath: string) {
+        await vscode.commands.executeCommand('vscode.openFolder', vscode.Uri.file(worktreePath), {
+            forceNewWindow: true,
+        });
+    }
+}